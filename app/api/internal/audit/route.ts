@@ -1,16 +1,26 @@
 export const dynamic = 'force-dynamic';
+// AUDIT_JOBS.WORKER_BUDGET_MS leaves headroom under this limit
+export const maxDuration = 300;
 import { NextResponse } from 'next/server';
 import { auditService } from '@/services/audit.service';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
 
 /**
- * Internal cron endpoint — runs the weekly guest inactivity audit.
+ * Internal cron endpoint — the audit scheduler.
  *
- * Triggered by Vercel Cron (see vercel.json) at 00:00 UTC weekly.
+ * Triggered by Vercel Cron (see vercel.json) at the top of every hour.
+ * Queues an audit job for each workspace whose scheduled slot has come
+ * (plan frequency + the workspace's own day, hour and timezone) and starts
+ * working through them; jobs still open when the time budget runs out are
+ * resumed by /api/internal/audit/worker.
  * Protected by Bearer token authentication.
  * Supports GET (Vercel Cron default) and POST (manual/internal calls).
  *
+ * `?dry_run=true&workspace_id=<id>` previews one workspace's audit instead:
+ * scores are computed and the would-flag / would-clear / would-alert lists
+ * returned, with no DB writes and no Slack messages — for tuning policies.
+ *
  * All business logic lives in AuditService. This handler is a thin controller.
  */
 async function runAudit(request: Request) {
@@ -21,8 +31,13 @@ async function runAudit(request: Request) {
     return new Response('Unauthorized', { status: 401 });
   }
 
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get('dry_run') === 'true') {
+    return previewAudit(searchParams.get('workspace_id'));
+  }
+
   try {
-    const result = await auditService.auditAllActiveWorkspaces();
+    const result = await auditService.auditDueWorkspaces();
     return NextResponse.json({ ok: true, ...result });
   } catch (err) {
     logger.error('Audit cron: unexpected failure', {}, err);
@@ -30,6 +45,24 @@ async function runAudit(request: Request) {
   }
 }
 
+async function previewAudit(workspaceId: string | null) {
+  if (!workspaceId) {
+    return NextResponse.json({ ok: false, error: 'workspace_id is required for a dry run' }, { status: 400 });
+  }
+
+  try {
+    const result = await auditService.previewAudit(workspaceId);
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, error: result.reason }, { status: 422 });
+    }
+
+    return NextResponse.json({ ok: true, preview: result.preview });
+  } catch (err) {
+    logger.error('Audit preview: unexpected failure', { workspaceId }, err);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
 export async function GET(request: Request) {
   return runAudit(request);
 }
@@ -0,0 +1,44 @@
+export const dynamic = 'force-dynamic';
+// AUDIT_JOBS.WORKER_BUDGET_MS leaves headroom under this limit
+export const maxDuration = 300;
+import { NextResponse } from 'next/server';
+import { auditService } from '@/services/audit.service';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+
+/**
+ * Internal cron endpoint — resumes queued audit jobs.
+ *
+ * Triggered by Vercel Cron (see vercel.json) every 10 minutes. Works through
+ * due jobs for up to AUDIT_JOBS.WORKER_BUDGET_MS, resuming each from its
+ * last checkpoint, and returns the number still open. Does nothing when
+ * the queue is empty.
+ * Protected by Bearer token authentication.
+ * Supports GET (Vercel Cron default) and POST (manual/internal calls).
+ *
+ * All business logic lives in AuditService. This handler is a thin controller.
+ */
+async function runWorker(request: Request) {
+  const authHeader = request.headers.get('Authorization');
+
+  if (authHeader !== `Bearer ${env.CRON_SECRET}`) {
+    logger.warn('Audit worker: unauthorized request');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const result = await auditService.processAuditJobs();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    logger.error('Audit worker: unexpected failure', {}, err);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return runWorker(request);
+}
+
+export async function POST(request: Request) {
+  return runWorker(request);
+}
@@ -0,0 +1,39 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse } from 'next/server';
+import { escalationService } from '@/services/escalation.service';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+
+/**
+ * Internal cron endpoint — escalates sponsor checks that went unanswered.
+ *
+ * Triggered by Vercel Cron (see vercel.json) daily at 12:00 UTC.
+ * Protected by Bearer token authentication.
+ * Supports GET (Vercel Cron default) and POST (manual/internal calls).
+ *
+ * All business logic lives in EscalationService. This handler is a thin controller.
+ */
+async function runEscalations(request: Request) {
+  const authHeader = request.headers.get('Authorization');
+
+  if (authHeader !== `Bearer ${env.CRON_SECRET}`) {
+    logger.warn('Escalation cron: unauthorized request');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const result = await escalationService.processDueEscalations();
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    logger.error('Escalation cron: unexpected failure', {}, err);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return runEscalations(request);
+}
+
+export async function POST(request: Request) {
+  return runEscalations(request);
+}
@@ -5,7 +5,7 @@ import { supabase } from '@/lib/db';
 import { encrypt } from '@/lib/encryption';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
-import { BILLING, CSRF, SESSION } from '@/config/constants';
+import { BILLING, CSRF, SESSION, SLACK_API } from '@/config/constants';
 import type { SlackOAuthV2Response } from '@/types/slack.types';
 import type { WorkspaceInsert } from '@/types/database.types';
 
@@ -16,7 +16,8 @@ import type { WorkspaceInsert } from '@/types/database.types';
  * 2. Exchanges the authorization code for an access token
  * 3. Encrypts and stores tokens in the database
  * 4. Sets a session cookie for dashboard authentication
- * 5. Redirects to onboarding
+ * 5. Redirects to onboarding — or back to the dashboard on a reinstall,
+ *    e.g. an Enterprise Grid admin granting the admin scope
  */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -86,6 +87,10 @@ export async function GET(request: Request) {
       return NextResponse.redirect(new URL('/?error=no_token', request.url));
     }
 
+    // The bot token (top-level access_token) only publishes the App Home tab —
+    // a missing one must not block the install
+    const botAccessToken = data.token_type === 'bot' ? data.access_token ?? null : null;
+
     // Encrypt tokens before storing
     const encryptedAccessToken = encrypt(accessToken);
     const encryptedRefreshToken = refreshToken ? encrypt(refreshToken) : null;
@@ -93,6 +98,15 @@ export async function GET(request: Request) {
       ? new Date(Date.now() + expiresIn * 1000).toISOString()
       : null;
 
+    const grantedScopes = authed_user.scope ? authed_user.scope.split(',') : null;
+
+    // A reinstall keeps the workspace's plan and seat cost
+    const { data: existingWorkspace } = await supabase
+      .from('workspaces')
+      .select('id')
+      .eq('slack_workspace_id', team.id)
+      .maybeSingle();
+
     const workspaceData: WorkspaceInsert = {
       slack_workspace_id: team.id,
       team_name: team.name,
@@ -101,10 +115,12 @@ export async function GET(request: Request) {
       access_token: encryptedAccessToken,
       refresh_token: encryptedRefreshToken,
       token_expires_at: tokenExpiresAt,
+      bot_access_token: botAccessToken ? encrypt(botAccessToken) : null,
       installed_by: authed_user.id,
-      plan_type: 'free',
-      supports_user_deactivation: !!enterprise,
-      estimated_seat_cost: BILLING.DEFAULT_SEAT_COST_USD,
+      granted_scopes: grantedScopes,
+      // SCIM deactivation needs Enterprise Grid and the opt-in admin scope
+      supports_user_deactivation: !!enterprise && !!grantedScopes?.includes(SLACK_API.ADMIN_USER_SCOPE),
+      ...(existingWorkspace ? {} : { plan_type: 'free', estimated_seat_cost: BILLING.DEFAULT_SEAT_COST_USD }),
     };
 
     const { data: workspace, error: dbError } = await supabase
@@ -123,9 +139,11 @@ export async function GET(request: Request) {
 
     logger.info('Workspace installed', { workspaceId: workspace.id, teamId: team.id });
 
-    // Set session cookie and redirect to onboarding
-    const onboardingUrl = new URL(`/onboarding?workspaceId=${workspace.id}`, request.url);
-    const response = NextResponse.redirect(onboardingUrl);
+    // Set session cookie and redirect to onboarding (first install) or the dashboard
+    const nextUrl = existingWorkspace
+      ? new URL('/dashboard', request.url)
+      : new URL(`/onboarding?workspaceId=${workspace.id}`, request.url);
+    const response = NextResponse.redirect(nextUrl);
 
     response.cookies.set(SESSION.COOKIE_NAME, encrypt(workspace.id), {
       httpOnly: true,
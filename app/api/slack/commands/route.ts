@@ -0,0 +1,58 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse, after } from 'next/server';
+import { verifySlackSignature } from '@/lib/slack';
+import { slackCommandService } from '@/services/slack-command.service';
+import { logger } from '@/lib/logger';
+import type { SlackSlashCommandPayload } from '@/types/slack.types';
+
+/**
+ * Slash command endpoint (/guest-sentinel).
+ *
+ * All requests are verified with HMAC-SHA256 before processing.
+ * Slack sends form-encoded fields and requires a response within 3 seconds —
+ * guest lookups answer immediately and post their result to response_url
+ * after the response is sent. `scan` only queues an audit job.
+ */
+export async function POST(request: Request) {
+  const { valid, body, error } = await verifySlackSignature(request);
+
+  if (!valid) {
+    logger.warn('Slack command: invalid signature', { error });
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const formData = new URLSearchParams(body);
+  const payload: SlackSlashCommandPayload = {
+    command: formData.get('command') ?? '',
+    text: formData.get('text') ?? '',
+    team_id: formData.get('team_id') ?? '',
+    user_id: formData.get('user_id') ?? '',
+    channel_id: formData.get('channel_id') ?? '',
+    response_url: formData.get('response_url') ?? '',
+  };
+
+  if (!payload.team_id || !payload.user_id) {
+    logger.warn('Slack command: malformed payload');
+    return new Response('Bad Request', { status: 400 });
+  }
+
+  try {
+    const { response, deferred } = await slackCommandService.handleCommand(payload);
+
+    if (deferred) {
+      after(() => {
+        return deferred().catch(err => {
+          logger.error('Slack command deferred processing failed', { command: payload.command }, err);
+        });
+      });
+    }
+
+    return NextResponse.json(response);
+  } catch (err) {
+    logger.error('Slack command processing failed', { command: payload.command }, err);
+    return NextResponse.json({
+      response_type: 'ephemeral',
+      text: 'Something went wrong. Please try again.',
+    });
+  }
+}
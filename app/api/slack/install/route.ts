@@ -14,15 +14,23 @@ import { env } from '@/lib/env';
  *
  * Sets a cryptographically random `state` cookie for CSRF protection
  * and redirects the user to Slack's authorization page.
+ *
+ * `?grant=admin` also requests the admin scope — the Enterprise Grid upgrade
+ * offered on the dashboard. Regular installs never ask for it.
  */
 export async function GET(request: Request) {
-  const origin = new URL(request.url).origin;
+  const { origin, searchParams } = new URL(request.url);
   const state = crypto.randomBytes(32).toString('hex');
   const redirectUri = `${origin}/api/slack/callback`;
 
   const slackOAuthUrl = new URL('https://slack.com/oauth/v2/authorize');
   slackOAuthUrl.searchParams.set('client_id', env.SLACK_CLIENT_ID);
-  slackOAuthUrl.searchParams.set('user_scope', SLACK_API.REQUIRED_USER_SCOPES.join(','));
+  slackOAuthUrl.searchParams.set('scope', SLACK_API.REQUIRED_BOT_SCOPES.join(','));
+  const userScopes: string[] = [...SLACK_API.REQUIRED_USER_SCOPES];
+  if (searchParams.get('grant') === SLACK_API.ADMIN_USER_SCOPE) {
+    userScopes.push(SLACK_API.ADMIN_USER_SCOPE);
+  }
+  slackOAuthUrl.searchParams.set('user_scope', userScopes.join(','));
   slackOAuthUrl.searchParams.set('redirect_uri', redirectUri);
   slackOAuthUrl.searchParams.set('state', state);
 
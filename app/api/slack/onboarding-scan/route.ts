@@ -4,15 +4,17 @@ import { cookies } from 'next/headers';
 import { supabase } from '@/lib/db';
 import { decrypt } from '@/lib/encryption';
 import { logger } from '@/lib/logger';
-import { SESSION, AUDIT } from '@/config/constants';
+import { onboardingScanService } from '@/services/onboarding-scan.service';
+import { SESSION } from '@/config/constants';
+import type { OnboardingScanResult } from '@/types/api.types';
 
 /**
  * Quick guest scan for the onboarding "AHA moment".
  *
- * Intentionally shallow — no scoring signals, no DB writes.
- * Estimates inactivity at 20% to avoid rate limiting during
- * the critical onboarding flow. The real scored audit runs
- * via the nightly cron.
+ * Intentionally shallow — profile updates for every guest plus a bounded
+ * presence sample, no message history, no DB writes. The response says
+ * which numbers are measured and which are extrapolated; the full scored
+ * audit runs on the workspace schedule or via "Run audit now".
  *
  * Auth: requires a valid workspace_session cookie (set by /api/slack/callback).
  */
@@ -44,7 +46,7 @@ export async function GET(request: Request) {
 
   const { data: workspace, error: dbError } = await supabase
     .from('workspaces')
-    .select('access_token, estimated_seat_cost')
+    .select('id, access_token, refresh_token, token_expires_at, estimated_seat_cost')
     .eq('id', workspaceId)
     .single();
 
@@ -54,50 +56,8 @@ export async function GET(request: Request) {
   }
 
   try {
-    const token = decrypt(workspace.access_token);
-
-    const response = await fetch(
-      `https://slack.com/api/users.list?limit=${AUDIT.GUEST_LIST_PAGE_SIZE}`,
-      { headers: { Authorization: `Bearer ${token}` } }
-    );
-    const data = await response.json();
-
-    if (!data.ok) {
-      logger.warn('Onboarding scan: Slack users.list failed', { workspaceId, error: data.error });
-      return NextResponse.json({ error: 'Slack API error', code: data.error }, { status: 502 });
-    }
-
-    const members: Array<{ deleted?: boolean; is_restricted?: boolean; is_ultra_restricted?: boolean; is_bot?: boolean }> =
-      data.members ?? [];
-
-    // Multi-channel guests (is_restricted but not ultra_restricted) cost money.
-    // Single-channel guests (is_ultra_restricted) are free.
-    const allGuests = members.filter(
-      m => !m.deleted && !m.is_bot && (m.is_restricted || m.is_ultra_restricted)
-    );
-
-    let paidGuestsCount = 0;
-    allGuests.forEach(g => {
-      if (g.is_restricted && !g.is_ultra_restricted) {
-        paidGuestsCount++;
-      }
-    });
-
-    const guestCount = allGuests.length;
-
-    // Estimate inactivity at 20% — avoids scoring API calls during onboarding.
-    // Real multi-signal audit runs via the nightly cron.
-    const inactiveCount = guestCount > 0 ? Math.max(1, Math.floor(guestCount * 0.20)) : 0;
-    const inactivePaidCount = paidGuestsCount > 0 ? Math.max(1, Math.floor(paidGuestsCount * 0.20)) : 0;
-
-    const costPerSeat = Number(workspace.estimated_seat_cost || 15);
-    const monthlyWaste = inactivePaidCount * costPerSeat;
-
-    // Artificial delay so the "Scanning..." step is visible (UX — not a bug)
-    await new Promise(r => setTimeout(r, 2000));
-
-    // Return the total inactive guests for the UI, but the monthly waste based only on paid ones.
-    return NextResponse.json({ totalGuests: guestCount, inactiveGuests: inactiveCount, monthlyWaste });
+    const result = await onboardingScanService.scan(workspace);
+    return NextResponse.json<OnboardingScanResult>(result);
   } catch (err) {
     logger.error('Onboarding scan: unexpected error', { workspaceId }, err);
     return NextResponse.json({ error: 'Scan failed. Please try again.' }, { status: 500 });
@@ -0,0 +1,59 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse } from 'next/server';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { alertService } from '@/services/alert.service';
+import { logger } from '@/lib/logger';
+import { ALERT_MODE, SPONSOR_ESCALATION } from '@/config/constants';
+
+/**
+ * Saves how inactive-guest alerts are delivered.
+ *
+ * Form fields:
+ *   alert_mode                 per_guest | digest
+ *   sponsor_escalation_enabled checkbox — ask the guest's sponsor first
+ *   sponsor_escalation_days    days to wait for the sponsor (1–30)
+ *
+ * Auth: requires a valid workspace_session cookie. Always redirects back to
+ * the dashboard; errors are passed in the `error` query param.
+ */
+
+function redirectToDashboard(request: Request, query: string) {
+  return NextResponse.redirect(new URL(`/dashboard?${query}#alerts`, request.url), 303);
+}
+
+export async function POST(request: Request) {
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    return NextResponse.redirect(new URL('/?error=unauthorized', request.url), 303);
+  }
+
+  try {
+    const formData = await request.formData();
+    const mode = formData.get('alert_mode');
+
+    const escalationDays = Number(formData.get('sponsor_escalation_days') ?? SPONSOR_ESCALATION.DEFAULT_DAYS);
+
+    if (mode !== ALERT_MODE.PER_GUEST && mode !== ALERT_MODE.DIGEST) {
+      return redirectToDashboard(request, 'error=invalid_alert_settings');
+    }
+
+    if (
+      !Number.isInteger(escalationDays) ||
+      escalationDays < SPONSOR_ESCALATION.MIN_DAYS ||
+      escalationDays > SPONSOR_ESCALATION.MAX_DAYS
+    ) {
+      return redirectToDashboard(request, 'error=invalid_escalation_days');
+    }
+
+    await alertService.saveAlertSettings(workspaceId, {
+      alertMode: mode,
+      sponsorEscalationEnabled: formData.get('sponsor_escalation_enabled') === 'on',
+      sponsorEscalationDays: escalationDays,
+    });
+    return redirectToDashboard(request, 'settings=saved');
+  } catch (err: unknown) {
+    logger.error('Failed to save alert settings', { workspaceId }, err);
+    return redirectToDashboard(request, 'error=alert_settings_save_failed');
+  }
+}
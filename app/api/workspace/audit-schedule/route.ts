@@ -0,0 +1,53 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse } from 'next/server';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { auditScheduleService, isValidTimezone } from '@/services/audit-schedule.service';
+import { logger } from '@/lib/logger';
+
+/**
+ * Saves when background audits run. How often is set by the plan.
+ *
+ * Form fields:
+ *   audit_timezone     IANA timezone, e.g. Europe/Paris
+ *   audit_day_of_week  0 (Sunday) – 6 (Saturday) — used on weekly plans
+ *   audit_hour         0–23, local to audit_timezone
+ *
+ * Auth: requires a valid workspace_session cookie. Always redirects back to
+ * the dashboard; errors are passed in the `error` query param.
+ */
+
+function redirectToDashboard(request: Request, query: string) {
+  return NextResponse.redirect(new URL(`/dashboard?${query}#schedule`, request.url), 303);
+}
+
+export async function POST(request: Request) {
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    return NextResponse.redirect(new URL('/?error=unauthorized', request.url), 303);
+  }
+
+  try {
+    const formData = await request.formData();
+    const timezone = String(formData.get('audit_timezone') ?? '').trim();
+    const dayOfWeek = Number(formData.get('audit_day_of_week'));
+    const hour = Number(formData.get('audit_hour'));
+
+    if (!timezone || !isValidTimezone(timezone)) {
+      return redirectToDashboard(request, 'error=invalid_timezone');
+    }
+
+    if (
+      !Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6 ||
+      !Number.isInteger(hour) || hour < 0 || hour > 23
+    ) {
+      return redirectToDashboard(request, 'error=invalid_audit_schedule');
+    }
+
+    await auditScheduleService.saveSchedule(workspaceId, { timezone, dayOfWeek, hour });
+    return redirectToDashboard(request, 'settings=saved');
+  } catch (err: unknown) {
+    logger.error('Failed to save audit schedule', { workspaceId }, err);
+    return redirectToDashboard(request, 'error=audit_schedule_save_failed');
+  }
+}
@@ -0,0 +1,46 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse } from 'next/server';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { auditService } from '@/services/audit.service';
+import { logger } from '@/lib/logger';
+import type { ApiResult, AuditPreview } from '@/types/api.types';
+
+/**
+ * Previews an audit of the session's workspace ("Preview audit").
+ *
+ * Scores every guest against the current policy and returns who would be
+ * flagged, cleared and alerted — without flagging anyone, recording a run
+ * or sending DMs. Has its own throttle (AUDIT_PREVIEW) and doesn't use up a
+ * manual scan.
+ *
+ * Auth: requires a valid workspace_session cookie. Responds with JSON.
+ */
+export async function POST() {
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    return NextResponse.json<ApiResult<AuditPreview>>(
+      { ok: false, error: 'Unauthorized', code: 'unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await auditService.previewAudit(workspaceId, { manual: true });
+
+    if (!result.ok) {
+      return NextResponse.json<ApiResult<AuditPreview>>(
+        { ok: false, error: result.reason, code: 'scan_not_allowed' },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json<ApiResult<AuditPreview>>({ ok: true, data: result.preview });
+  } catch (err: unknown) {
+    logger.error('Audit preview failed', { workspaceId }, err);
+    return NextResponse.json<ApiResult<AuditPreview>>(
+      { ok: false, error: 'The preview could not be completed. Please try again.', code: 'preview_failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse } from 'next/server';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { auditService } from '@/services/audit.service';
+import { logger } from '@/lib/logger';
+import type { ApiResult, ManualAuditResponse } from '@/types/api.types';
+
+/**
+ * Runs a full audit of the session's workspace on demand ("Run audit now").
+ *
+ * Same scoring, flagging and alerting as scheduled audits, limited to one
+ * workspace and throttled by canRunManualScan / workspace_usage.last_scan_at.
+ *
+ * Auth: requires a valid workspace_session cookie. Responds with JSON —
+ * the dashboard refreshes itself to show the new run.
+ */
+export async function POST() {
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    return NextResponse.json<ApiResult<ManualAuditResponse>>(
+      { ok: false, error: 'Unauthorized', code: 'unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await auditService.runManualAudit(workspaceId);
+
+    if (!result.ok) {
+      return NextResponse.json<ApiResult<ManualAuditResponse>>(
+        { ok: false, error: result.reason, code: 'scan_not_allowed' },
+        { status: 429 }
+      );
+    }
+
+    const { guestCount, flagged, exempt, estimatedWaste } = result.summary;
+    return NextResponse.json<ApiResult<ManualAuditResponse>>({
+      ok: true,
+      data: { guestCount, flagged, exempt, estimatedWaste },
+    });
+  } catch (err: unknown) {
+    logger.error('Manual audit failed', { workspaceId }, err);
+    return NextResponse.json<ApiResult<ManualAuditResponse>>(
+      { ok: false, error: 'The audit could not be completed. Please try again.', code: 'audit_failed' },
+      { status: 500 }
+    );
+  }
+}
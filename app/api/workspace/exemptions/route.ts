@@ -0,0 +1,88 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse } from 'next/server';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { exemptionService } from '@/services/exemption.service';
+import { logger } from '@/lib/logger';
+import { EXEMPTION_RULE_TYPE } from '@/config/constants';
+import type { ExemptionRuleType } from '@/types/database.types';
+
+/**
+ * Creates or deletes guest exemption rules from the dashboard.
+ *
+ * Form field `intent` selects the operation:
+ *   - create: rule_type, value, expires_at (optional date), reason (optional)
+ *   - delete: rule_id
+ *
+ * Auth: requires a valid workspace_session cookie. Always redirects back to
+ * the dashboard; errors are passed in the `error` / `detail` query params.
+ * An email-domain rule saved on an install without users:read.email adds
+ * `warning=email_scope_missing` — the dashboard prompts a reinstall.
+ */
+
+function redirectToDashboard(request: Request, query: string) {
+  return NextResponse.redirect(new URL(`/dashboard?${query}#exemptions`, request.url), 303);
+}
+
+function formString(formData: FormData, key: string): string | null {
+  const value = formData.get(key);
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+export async function POST(request: Request) {
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    return NextResponse.redirect(new URL('/?error=unauthorized', request.url), 303);
+  }
+
+  try {
+    const formData = await request.formData();
+    const intent = formString(formData, 'intent');
+
+    if (intent === 'delete') {
+      const ruleId = formString(formData, 'rule_id');
+      if (!ruleId) {
+        return redirectToDashboard(request, 'error=invalid_exemption&detail=Missing%20rule');
+      }
+
+      await exemptionService.deleteRule(workspaceId, ruleId);
+      return redirectToDashboard(request, 'settings=saved');
+    }
+
+    const ruleType = formString(formData, 'rule_type');
+    const value = formString(formData, 'value');
+
+    if (
+      intent !== 'create' ||
+      !value ||
+      (ruleType !== EXEMPTION_RULE_TYPE.USER && ruleType !== EXEMPTION_RULE_TYPE.EMAIL_DOMAIN)
+    ) {
+      return redirectToDashboard(request, 'error=invalid_exemption');
+    }
+
+    const result = await exemptionService.createRule(workspaceId, {
+      ruleType: ruleType as ExemptionRuleType,
+      value,
+      expiresAt: formString(formData, 'expires_at'),
+      reason: formString(formData, 'reason'),
+      createdBy: null,
+    });
+
+    if (!result.ok) {
+      return redirectToDashboard(
+        request,
+        `error=invalid_exemption&detail=${encodeURIComponent(result.error)}`
+      );
+    }
+
+    // Saved, but it can't match anyone until the app is reinstalled with the email scope
+    if (result.emailScopeMissing) {
+      return redirectToDashboard(request, 'settings=saved&warning=email_scope_missing');
+    }
+
+    return redirectToDashboard(request, 'settings=saved');
+  } catch (err: unknown) {
+    logger.error('Failed to update exemption rules', { workspaceId }, err);
+    return redirectToDashboard(request, 'error=exemption_save_failed');
+  }
+}
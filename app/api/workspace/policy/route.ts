@@ -0,0 +1,79 @@
+export const dynamic = 'force-dynamic';
+import { NextResponse } from 'next/server';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { policyService, ALL_ACTIVITY_SIGNALS, ALL_HISTORY_CHANNEL_TYPES } from '@/services/policy.service';
+import { logger } from '@/lib/logger';
+import type { EffectiveAuditPolicy } from '@/services/policy.service';
+import type { ActivitySignalId, HistoryChannelType } from '@/types/database.types';
+
+/**
+ * Saves the workspace's inactivity policy from the dashboard settings form.
+ *
+ * Auth: requires a valid workspace_session cookie. The workspace is always
+ * taken from the session, never from the form.
+ *
+ * Always redirects back to the dashboard — validation errors are passed in
+ * the `error` / `detail` query params.
+ */
+
+function toNumber(value: FormDataEntryValue | null): number {
+  return typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+}
+
+/** An empty field turns an optional setting off */
+function toOptionalNumber(value: FormDataEntryValue | null): number | null {
+  return typeof value === 'string' && value.trim() === '' ? null : toNumber(value);
+}
+
+function parsePolicyForm(formData: FormData): EffectiveAuditPolicy {
+  const signalWeights = {} as Record<ActivitySignalId, number>;
+  const enabledSignals: ActivitySignalId[] = [];
+
+  for (const signal of ALL_ACTIVITY_SIGNALS) {
+    signalWeights[signal] = toNumber(formData.get(`weight_${signal}`));
+    if (formData.get(`enabled_${signal}`) === 'on') {
+      enabledSignals.push(signal);
+    }
+  }
+
+  const historyChannelTypes: HistoryChannelType[] = ALL_HISTORY_CHANNEL_TYPES.filter(
+    type => formData.get(`history_${type}`) === 'on'
+  );
+
+  return {
+    activityWindowDays: toNumber(formData.get('activity_window_days')),
+    minActiveScore: toNumber(formData.get('min_active_score')),
+    signalWeights,
+    enabledSignals,
+    historyChannelTypes,
+    historyIncludeShared: formData.get('history_include_shared') === 'on',
+    gracePeriodDays: toNumber(formData.get('grace_period_days')),
+    maxGuestExpirationDays: toOptionalNumber(formData.get('max_guest_expiration_days')),
+  };
+}
+
+export async function POST(request: Request) {
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    return NextResponse.redirect(new URL('/?error=unauthorized', request.url), 303);
+  }
+
+  try {
+    const policy = parsePolicyForm(await request.formData());
+    const result = await policyService.savePolicy(workspaceId, policy);
+
+    if (!result.valid) {
+      const detail = encodeURIComponent(result.errors.join(' '));
+      return NextResponse.redirect(
+        new URL(`/dashboard?error=invalid_policy&detail=${detail}#settings`, request.url),
+        303
+      );
+    }
+
+    return NextResponse.redirect(new URL('/dashboard?settings=saved#settings', request.url), 303);
+  } catch (err: unknown) {
+    logger.error('Failed to save audit policy', { workspaceId }, err);
+    return NextResponse.redirect(new URL('/dashboard?error=policy_save_failed#settings', request.url), 303);
+  }
+}
@@ -0,0 +1,90 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { supabase } from '@/lib/db';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { describeLastActivity } from '@/lib/activity';
+import { StatCard } from '@/components/ui/stat-card';
+import { GuestTimeline } from '@/components/dashboard/guest-timeline';
+import { guestHistoryService } from '@/services/guest-history.service';
+import type { GuestAudit } from '@/types/database.types';
+
+export const dynamic = 'force-dynamic';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Per-guest timeline: current flag state plus one entry per audit run
+ * from guest_observations.
+ */
+export default async function GuestPage({
+  params,
+}: {
+  params: Promise<{ guestId: string }>;
+}) {
+  const { guestId } = await params;
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    redirect('/?error=unauthorized');
+  }
+
+  const [timeline, auditResult] = await Promise.all([
+    guestHistoryService.getTimeline(workspaceId, guestId),
+    supabase
+      .from('guest_audits')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('slack_user_id', guestId)
+      .maybeSingle(),
+  ]);
+
+  const audit = auditResult.data as GuestAudit | null;
+  const lastActivity = describeLastActivity(audit?.signal_results ?? null);
+
+  return (
+    <main className="p-8 max-w-5xl mx-auto bg-gray-50 min-h-screen dark:bg-gray-900">
+      <header className="mb-8 border-b border-gray-200 dark:border-gray-800 pb-6">
+        <Link href="/dashboard" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-white mt-2 font-mono">{guestId}</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 first-letter:uppercase">
+          {audit?.is_flagged
+            ? `Flagged as inactive${lastActivity ? ` — ${lastActivity}` : ''}`
+            : 'Not currently flagged'}
+        </p>
+        {audit?.is_flagged && audit.signal_results?.message.coverageNote && (
+          <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+            Partial message check: {audit.signal_results.message.coverageNote}
+          </p>
+        )}
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <StatCard
+          label="Inactive Since"
+          value={timeline.inactiveSince ? formatDate(timeline.inactiveSince) : '—'}
+          variant={timeline.inactiveSince ? 'danger' : 'default'}
+          caption={timeline.inactiveStreak > 0 ? `${timeline.inactiveStreak} consecutive audits` : undefined}
+        />
+        <StatCard
+          label="Active ↔ Inactive Changes"
+          value={timeline.flips}
+          caption={`Across the last ${timeline.observations.length} audits`}
+        />
+        <StatCard
+          label="Latest Score"
+          value={timeline.observations[0]?.activity_score ?? '—'}
+        />
+      </div>
+
+      <GuestTimeline observations={timeline.observations} />
+    </main>
+  );
+}
@@ -1,4 +1,5 @@
 import Image from 'next/image';
+import Link from 'next/link';
 import { cookies } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { supabase } from '@/lib/db';
@@ -6,15 +7,54 @@ import { decrypt } from '@/lib/encryption';
 import { StatsRow } from '@/components/dashboard/stats-row';
 import { FlaggedGuestsTable } from '@/components/dashboard/flagged-guests-table';
 import { EmptyState } from '@/components/dashboard/empty-state';
-import { SESSION } from '@/config/constants';
-import type { AuditRun, GuestAudit } from '@/types/database.types';
+import { PolicyForm } from '@/components/dashboard/policy-form';
+import { ExemptionsSection } from '@/components/dashboard/exemptions-section';
+import { AlertSettingsForm } from '@/components/dashboard/alert-settings-form';
+import { RunAuditButton } from '@/components/dashboard/run-audit-button';
+import { AuditPreviewSection } from '@/components/dashboard/audit-preview-section';
+import { AuditScheduleForm } from '@/components/dashboard/audit-schedule-form';
+import { RunChangesSection } from '@/components/dashboard/run-changes-section';
+import { GracePeriodSection } from '@/components/dashboard/grace-period-section';
+import { GuestExpirationSection } from '@/components/dashboard/guest-expiration-section';
+import { policyService, resolveHistoryCoverage } from '@/services/policy.service';
+import { canMatchEmailDomains, exemptionService } from '@/services/exemption.service';
+import { guestJoinService } from '@/services/guest-join.service';
+import { guestExpirationService } from '@/services/guest-expiration.service';
+import {
+  formatScheduledSlot,
+  getAuditSchedule,
+  getDefaultAuditSlot,
+  getNextScheduledSlot,
+  isAuditDue,
+} from '@/services/audit-schedule.service';
+import { canRunManualScan } from '@/lib/subscription';
+import { canDeactivateViaScim } from '@/lib/slack';
+import { AUDIT_SCHEDULE, COMPLETED_AUDIT_RUN_STATUSES, SESSION, SPONSOR_ESCALATION } from '@/config/constants';
+import type { AlertMode, AuditRun, GuestAudit } from '@/types/database.types';
 
 export const dynamic = 'force-dynamic';
 
 interface DashboardSearchParams {
   session_id?: string;
+  settings?: string;
+  error?: string;
+  detail?: string;
+  warning?: string;
 }
 
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_policy: 'The inactivity policy was not saved.',
+  policy_save_failed: 'The inactivity policy could not be saved. Please try again.',
+  invalid_exemption: 'The exemption rule was not saved.',
+  exemption_save_failed: 'The exemption rules could not be updated. Please try again.',
+  invalid_alert_settings: 'Please choose an alert mode.',
+  invalid_escalation_days: 'Sponsor response time must be between 1 and 30 days.',
+  alert_settings_save_failed: 'The alert settings could not be saved. Please try again.',
+  invalid_timezone: 'Please choose a valid timezone, e.g. Europe/Paris.',
+  invalid_audit_schedule: 'Please choose a day and an hour for the audit.',
+  audit_schedule_save_failed: 'The audit schedule could not be saved. Please try again.',
+};
+
 export default async function Dashboard({
   searchParams,
 }: {
@@ -38,10 +78,19 @@ export default async function Dashboard({
   }
 
   // Run all queries in parallel for faster page load
-  const [workspaceResult, subscriptionResult, auditRunResult, flaggedGuestsResult] = await Promise.all([
+  const [
+    workspaceResult,
+    subscriptionResult,
+    auditRunResult,
+    flaggedGuestsResult,
+    exemptGuestsResult,
+    usageResult,
+    policy,
+    exemptionRules,
+  ] = await Promise.all([
     supabase
       .from('workspaces')
-      .select('plan_type')
+      .select('plan_type, alert_mode, sponsor_escalation_enabled, sponsor_escalation_days, granted_scopes, enterprise_id, supports_user_deactivation, audit_timezone, audit_day_of_week, audit_hour, last_scheduled_audit_at')
       .eq('id', workspaceId)
       .single(),
     supabase
@@ -53,6 +102,7 @@ export default async function Dashboard({
       .from('audit_runs')
       .select('*')
       .eq('workspace_id', workspaceId)
+      .in('status', COMPLETED_AUDIT_RUN_STATUSES)
       .order('created_at', { ascending: false })
       .limit(1)
       .maybeSingle(),
@@ -63,13 +113,62 @@ export default async function Dashboard({
       .eq('is_flagged', true)
       .order('created_at', { ascending: false })
       .limit(50),
+    supabase
+      .from('guest_audits')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('action_taken', 'exempted')
+      .order('updated_at', { ascending: false })
+      .limit(50),
+    supabase
+      .from('workspace_usage')
+      .select('last_scan_at')
+      .eq('workspace_id', workspaceId)
+      .maybeSingle(),
+    policyService.getPolicy(workspaceId),
+    exemptionService.listRules(workspaceId),
   ]);
 
   const planType = workspaceResult.data?.plan_type || 'free';
+  const alertMode = (workspaceResult.data?.alert_mode ?? 'per_guest') as AlertMode;
+  const sponsorEscalationEnabled = workspaceResult.data?.sponsor_escalation_enabled ?? false;
+  const sponsorEscalationDays = workspaceResult.data?.sponsor_escalation_days ?? SPONSOR_ESCALATION.DEFAULT_DAYS;
   const stripeCustomerId = subscriptionResult.data?.stripe_customer_id ?? null;
+  const manualScan = canRunManualScan(planType, usageResult.data?.last_scan_at ?? null);
+  const historyCoverage = resolveHistoryCoverage(policy, workspaceResult.data?.granted_scopes ?? null);
+  // Enterprise Grid workspaces can opt into direct deactivation by granting the admin scope
+  const offerAdminScope = !!workspaceResult.data?.enterprise_id && !canDeactivateViaScim({
+    supports_user_deactivation: workspaceResult.data.supports_user_deactivation ?? false,
+    granted_scopes: workspaceResult.data.granted_scopes ?? null,
+  });
+  const [graceGuests, expirationOverview] = await Promise.all([
+    guestJoinService.listInGrace(workspaceId, policy.gracePeriodDays),
+    guestExpirationService.getOverview(workspaceId, policy.maxGuestExpirationDays),
+  ]);
+
+  const defaultAuditSlot = getDefaultAuditSlot(workspaceId);
+  const scheduleSettings = {
+    id: workspaceId,
+    plan_type: planType,
+    audit_timezone: workspaceResult.data?.audit_timezone ?? AUDIT_SCHEDULE.DEFAULT_TIMEZONE,
+    audit_day_of_week: workspaceResult.data?.audit_day_of_week ?? defaultAuditSlot.dayOfWeek,
+    audit_hour: workspaceResult.data?.audit_hour ?? defaultAuditSlot.hour,
+    last_scheduled_audit_at: workspaceResult.data?.last_scheduled_audit_at ?? null,
+  };
+  const auditSchedule = getAuditSchedule(scheduleSettings);
+  const nextAuditSlot = auditSchedule && !isAuditDue(scheduleSettings)
+    ? getNextScheduledSlot(auditSchedule)
+    : null;
+  let nextAuditLabel: string | null = null;
+  if (auditSchedule) {
+    // A due workspace is queued by the scheduler at the top of the next hour
+    nextAuditLabel = nextAuditSlot ? formatScheduledSlot(nextAuditSlot, auditSchedule) : 'within the hour';
+  }
 
   const auditRun = auditRunResult.data as AuditRun | null;
   const flaggedGuests = (flaggedGuestsResult.data ?? []) as GuestAudit[];
+  const exemptGuests = (exemptGuestsResult.data ?? []) as GuestAudit[];
+  const errorMessage = resolvedSearchParams.error ? ERROR_MESSAGES[resolvedSearchParams.error] : undefined;
 
   return (
     <main className="p-8 max-w-5xl mx-auto bg-gray-50 min-h-screen dark:bg-gray-900">
@@ -93,6 +192,7 @@ export default async function Dashboard({
               Subscription Active
             </span>
           )}
+          <RunAuditButton disabledReason={manualScan.allowed ? null : manualScan.reason ?? null} />
           {stripeCustomerId && (
             <form method="POST" action="/api/stripe/portal">
               <button
@@ -106,6 +206,26 @@ export default async function Dashboard({
         </div>
       </header>
 
+      {errorMessage && (
+        <div role="alert" className="mb-8 p-4 bg-red-50 dark:bg-red-900/20 rounded-xl border border-red-200 dark:border-red-800 text-sm text-red-800 dark:text-red-300">
+          <p className="font-semibold">{errorMessage}</p>
+          {resolvedSearchParams.detail && <p className="mt-1">{resolvedSearchParams.detail}</p>}
+        </div>
+      )}
+
+      {resolvedSearchParams.settings === 'saved' && (
+        <div role="status" className="mb-8 p-4 bg-green-50 dark:bg-green-900/20 rounded-xl border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-300">
+          Settings saved. They apply from the next audit.
+        </div>
+      )}
+
+      {resolvedSearchParams.warning === 'email_scope_missing' && (
+        <div role="alert" className="mb-8 p-4 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+          The email-domain rule was saved, but it won&apos;t match any guest until you{' '}
+          <a href="/api/slack/install" className="font-semibold underline">reinstall the app</a> to let it read guest emails.
+        </div>
+      )}
+
       {planType === 'free' && (
         <div className="mb-8 p-6 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-200 dark:border-blue-800 flex flex-col md:flex-row items-center justify-between gap-4">
           <div>
@@ -118,8 +238,28 @@ export default async function Dashboard({
         </div>
       )}
 
+      {offerAdminScope && (
+        <div className="mb-8 p-6 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-200 dark:border-blue-800 flex flex-col md:flex-row items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-blue-900 dark:text-blue-100 mb-1">Deactivate Guests from Slack</h3>
+            <p className="text-blue-800 dark:text-blue-300 text-sm">On Enterprise Grid, an org admin can grant the admin scope so the Deactivate button removes guests directly. Until then it only logs the intent.</p>
+          </div>
+          <a href="/api/slack/install?grant=admin" className="shrink-0 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors shadow-sm">
+            Grant Admin Access
+          </a>
+        </div>
+      )}
+
       <StatsRow auditRun={auditRun} />
 
+      <p className="-mt-4 mb-8 text-right text-sm">
+        <Link href="/dashboard/runs" className="text-blue-600 dark:text-blue-400 hover:underline">
+          Audit history →
+        </Link>
+      </p>
+
+      {auditRun?.changes && <RunChangesSection changes={auditRun.changes} />}
+
       {flaggedGuests.length > 0 ? (
         <FlaggedGuestsTable guests={flaggedGuests} />
       ) : (
@@ -128,9 +268,46 @@ export default async function Dashboard({
 
       {!auditRun && (
         <p className="text-center text-sm text-gray-400 mt-6">
-          No audit data yet. The first audit runs daily at midnight UTC.
+          {nextAuditLabel
+            ? `No audit data yet. The first background audit runs ${nextAuditSlot ? 'on ' : ''}${nextAuditLabel}.`
+            : 'No audit data yet. Run an audit to see your inactive guests.'}
         </p>
       )}
+
+      {graceGuests.length > 0 && (
+        <GracePeriodSection guests={graceGuests} gracePeriodDays={policy.gracePeriodDays} />
+      )}
+
+      {auditRun && (
+        <GuestExpirationSection overview={expirationOverview} maxDays={policy.maxGuestExpirationDays} />
+      )}
+
+      <ExemptionsSection
+        rules={exemptionRules}
+        exemptGuests={exemptGuests}
+        emailScopeMissing={!canMatchEmailDomains({ granted_scopes: workspaceResult.data?.granted_scopes ?? null })}
+      />
+
+      <AuditScheduleForm
+        schedule={auditSchedule}
+        timezone={scheduleSettings.audit_timezone}
+        dayOfWeek={scheduleSettings.audit_day_of_week}
+        hour={scheduleSettings.audit_hour}
+        nextAuditLabel={nextAuditLabel}
+      />
+
+      <AlertSettingsForm
+        alertMode={alertMode}
+        sponsorEscalationEnabled={sponsorEscalationEnabled}
+        sponsorEscalationDays={sponsorEscalationDays}
+      />
+
+      <PolicyForm
+        policy={policy}
+        uncoveredTypes={historyCoverage.uncoveredTypes}
+      />
+
+      <AuditPreviewSection />
     </main>
   );
 }
@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getSessionWorkspaceId } from '@/lib/session';
+import { AuditRunHistory } from '@/components/dashboard/audit-run-history';
+import { auditRunService } from '@/services/audit-run.service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Run history: one entry per audit with its outcome, timing, Slack API
+ * usage and DM delivery, from audit_runs.
+ */
+export default async function AuditRunsPage() {
+  const workspaceId = await getSessionWorkspaceId();
+
+  if (!workspaceId) {
+    redirect('/?error=unauthorized');
+  }
+
+  const runs = await auditRunService.listRecent(workspaceId);
+
+  return (
+    <main className="p-8 max-w-5xl mx-auto bg-gray-50 min-h-screen dark:bg-gray-900">
+      <header className="mb-8 border-b border-gray-200 dark:border-gray-800 pb-6">
+        <Link href="/dashboard" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-white mt-2">Audit History</h1>
+      </header>
+
+      <AuditRunHistory runs={runs} />
+    </main>
+  );
+}
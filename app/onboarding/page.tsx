@@ -85,14 +85,32 @@ function ResultsStep({
             <p className="text-3xl font-bold text-gray-900 dark:text-white mt-1">{result.totalGuests}</p>
           </div>
           <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-100 dark:border-red-900/50 shadow-sm min-w-[160px]">
-            <p className="text-red-600 dark:text-red-400 text-sm font-medium">Inactive Guests</p>
+            <p className="text-red-600 dark:text-red-400 text-sm font-medium">
+              Inactive Guests{result.isEstimate && ' (sampled estimate)'}
+            </p>
             <p className="text-3xl font-bold text-red-600 dark:text-red-400 mt-1">{result.inactiveGuests}</p>
           </div>
           <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-100 dark:border-green-900/50 shadow-sm min-w-[160px]">
-            <p className="text-green-700 dark:text-green-400 text-sm font-medium">Monthly Waste</p>
+            <p className="text-green-700 dark:text-green-400 text-sm font-medium">
+              Monthly Waste{result.isEstimate && ' (sampled estimate)'}
+            </p>
             <p className="text-3xl font-bold text-green-700 dark:text-green-400 mt-1">${result.monthlyWaste.toLocaleString()}</p>
           </div>
         </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 max-w-xl mx-auto">
+          <span className="font-semibold">Measured:</span> {result.profileActiveGuests} of {result.totalGuests} guests updated
+          their profile in the last {result.activityWindowDays} days; we checked who is online for {result.presenceSampledGuests} of
+          the rest.{' '}
+          {result.isEstimate ? (
+            <>
+              <span className="font-semibold">Estimated from a sample:</span> we checked a random sample of paid
+              and free guests, and extrapolate each group&apos;s inactive rate to the guests we didn&apos;t check.
+            </>
+          ) : (
+            'Every number above is measured.'
+          )}{' '}
+          Your first full audit also checks message history.
+        </p>
       </div>
 
       <div className="grid md:grid-cols-3 gap-6 mb-6">
@@ -102,7 +120,7 @@ function ResultsStep({
           <p className="text-4xl font-extrabold mb-4 text-gray-900 dark:text-white">$29<span className="text-lg text-gray-500 font-normal">/mo</span></p>
           <ul className="text-sm text-gray-600 dark:text-gray-300 mb-8 flex-1 space-y-3">
             <li className="flex items-center"><span className="text-green-500 mr-2">✓</span> Up to 500 guest accounts monitored</li>
-            <li className="flex items-center"><span className="text-green-500 mr-2">✓</span> Daily background audits</li>
+            <li className="flex items-center"><span className="text-green-500 mr-2">✓</span> Weekly background audits</li>
             <li className="flex items-center"><span className="text-green-500 mr-2">✓</span> Admin DM alerts</li>
           </ul>
           <form action="/api/stripe/checkout" method="POST">
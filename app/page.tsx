@@ -146,7 +146,7 @@ export default async function Home({
       {/* Differentiation bullets */}
       <div className="flex flex-wrap justify-center gap-4 mb-10">
         {[
-          { icon: '🔍', text: 'Scans your workspace daily' },
+          { icon: '🔍', text: 'Scans your workspace on a schedule' },
           { icon: '📩', text: 'Sends you a Slack DM alert' },
           { icon: '⚡', text: 'Takes 2 minutes to set up' },
         ].map(({ icon, text }) => (
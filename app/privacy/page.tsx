@@ -20,7 +20,7 @@ export default function PrivacyPolicy() {
             <ul className="list-disc pl-6 mb-4 space-y-2">
                 <li><strong>Workspace identity:</strong> Team ID and team name (to associate audit records with the correct workspace).</li>
                 <li><strong>Guest user metadata:</strong> User ID, display name, guest tier (single-channel or multi-channel), and the timestamp of the last profile update.</li>
-                <li><strong>Presence status:</strong> Whether a guest is currently marked as &quot;active&quot; or &quot;away&quot; in Slack at the time of the daily audit.</li>
+                <li><strong>Presence status:</strong> Whether a guest is currently marked as &quot;active&quot; or &quot;away&quot; in Slack at the time of each scheduled audit.</li>
                 <li><strong>Message send timestamps:</strong> We check whether a guest sent a message within the last 30 days. We read only the timestamp and sender ID — never the message text, attachments, or any other content.</li>
                 <li><strong>Billing metadata:</strong> Stripe customer and subscription IDs for managing your subscription.</li>
             </ul>
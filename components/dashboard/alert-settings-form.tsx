@@ -0,0 +1,102 @@
+import { AUDIT, SPONSOR_ESCALATION } from '@/config/constants';
+import type { AlertMode } from '@/types/database.types';
+
+interface AlertSettingsFormProps {
+  alertMode: AlertMode;
+  sponsorEscalationEnabled: boolean;
+  sponsorEscalationDays: number;
+}
+
+const INPUT_CLASSES =
+  'rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100';
+
+const MODE_OPTIONS: Array<{ value: AlertMode; label: string; hint: string }> = [
+  {
+    value: 'per_guest',
+    label: 'One DM per guest',
+    hint: 'Every inactive guest gets its own alert after each audit.',
+  },
+  {
+    value: 'digest',
+    label: 'Digest',
+    hint: `One summary DM per audit listing the ${AUDIT.DIGEST_MAX_GUESTS} most expensive inactive guests.`,
+  },
+];
+
+export function AlertSettingsForm({
+  alertMode,
+  sponsorEscalationEnabled,
+  sponsorEscalationDays,
+}: AlertSettingsFormProps) {
+  return (
+    <section
+      id="alerts"
+      className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700"
+    >
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Alerts</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Choose how admins are notified about inactive guests.
+        </p>
+      </div>
+
+      <form method="POST" action="/api/workspace/alert-settings" className="p-6 space-y-4">
+        {MODE_OPTIONS.map(option => (
+          <label key={option.value} className="flex items-start gap-3 text-sm cursor-pointer">
+            <input
+              type="radio"
+              name="alert_mode"
+              value={option.value}
+              defaultChecked={alertMode === option.value}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-gray-800 dark:text-gray-200">{option.label}</span>
+              <span className="block text-xs text-gray-400">{option.hint}</span>
+            </span>
+          </label>
+        ))}
+
+        <div className="pt-4 border-t border-gray-100 dark:border-gray-700 space-y-3">
+          <label className="flex items-start gap-3 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              name="sponsor_escalation_enabled"
+              defaultChecked={sponsorEscalationEnabled}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-gray-800 dark:text-gray-200">Ask the sponsor first</span>
+              <span className="block text-xs text-gray-400">
+                When we know who invited an inactive guest, DM them before alerting admins. Admins are
+                alerted if the sponsor asks for removal or doesn&apos;t answer in time.
+              </span>
+            </span>
+          </label>
+          <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+            Escalate to admins after
+            <input
+              type="number"
+              name="sponsor_escalation_days"
+              min={SPONSOR_ESCALATION.MIN_DAYS}
+              max={SPONSOR_ESCALATION.MAX_DAYS}
+              defaultValue={sponsorEscalationDays}
+              className={`${INPUT_CLASSES} w-20`}
+              required
+            />
+            days without a response
+          </label>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg text-sm transition-colors"
+          >
+            Save Alert Settings
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
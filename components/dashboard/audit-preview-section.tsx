@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { Spinner } from '@/components/ui/spinner';
+import type { ApiResult, AuditPreview, AuditPreviewGuest } from '@/types/api.types';
+
+type PreviewState =
+  | { phase: 'idle' }
+  | { phase: 'running' }
+  | { phase: 'done'; preview: AuditPreview }
+  | { phase: 'error'; message: string };
+
+/** Longer lists are cut off — the counts in each heading stay exact */
+const MAX_LISTED_GUESTS = 50;
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function GuestList<T extends AuditPreviewGuest>({
+  title,
+  guests,
+  empty,
+  describe,
+}: {
+  title: string;
+  guests: T[];
+  empty: string;
+  describe?: (guest: T) => string;
+}) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-800 dark:text-white">
+        {title} ({guests.length})
+      </h3>
+      {guests.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{empty}</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+          {guests.slice(0, MAX_LISTED_GUESTS).map(guest => (
+            <li key={guest.guestId} className="py-1.5 flex justify-between gap-4">
+              <span className="text-gray-800 dark:text-gray-100">
+                {guest.name} <span className="text-gray-400">{guest.guestId}</span>
+              </span>
+              <span className="text-gray-500 dark:text-gray-400 text-right">
+                {describe ? describe(guest) : `score ${guest.score}`}
+              </span>
+            </li>
+          ))}
+          {guests.length > MAX_LISTED_GUESTS && (
+            <li className="py-1.5 text-gray-500 dark:text-gray-400">
+              …and {guests.length - MAX_LISTED_GUESTS} more
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function AuditPreviewSection() {
+  const [state, setState] = useState<PreviewState>({ phase: 'idle' });
+
+  async function runPreview() {
+    setState({ phase: 'running' });
+
+    try {
+      const res = await fetch('/api/workspace/audit/preview', { method: 'POST' });
+      const json = (await res.json()) as ApiResult<AuditPreview>;
+
+      if (!json.ok) {
+        setState({ phase: 'error', message: json.error });
+        return;
+      }
+
+      setState({ phase: 'done', preview: json.data });
+    } catch {
+      setState({ phase: 'error', message: 'The preview could not be completed. Please try again.' });
+    }
+  }
+
+  const isRunning = state.phase === 'running';
+
+  return (
+    <section
+      id="preview"
+      className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700"
+    >
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Preview Audit</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            See what an audit would do with your saved policy — nothing is flagged and no one is messaged.
+            Doesn&apos;t use up a manual scan.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={runPreview}
+          disabled={isRunning}
+          className="shrink-0 flex items-center gap-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 font-medium py-2 px-4 rounded-lg text-sm transition-colors"
+        >
+          {isRunning && <Spinner size="sm" color="gray" />}
+          {isRunning ? 'Scoring guests…' : 'Preview audit'}
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6" aria-live="polite">
+        {state.phase === 'idle' && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No preview yet.</p>
+        )}
+        {state.phase === 'running' && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Scoring every guest — this can take a minute on large workspaces.
+          </p>
+        )}
+        {state.phase === 'error' && (
+          <p className="text-sm text-red-600 dark:text-red-400">{state.message}</p>
+        )}
+        {state.phase === 'done' && (
+          <>
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {state.preview.wouldFlag.length} of {state.preview.guestCount} guests would be flagged
+              (threshold {state.preview.minActiveScore}), ${state.preview.estimatedWaste}/month estimated waste.
+              {state.preview.exempt > 0 && ` ${state.preview.exempt} exempt.`}
+            </p>
+
+            <GuestList
+              title="Would flag"
+              guests={state.preview.wouldFlag}
+              empty="No inactive guests."
+              describe={guest => `score ${guest.score} · ${guest.lastActivity ?? 'no activity found'}`}
+            />
+            <GuestList
+              title="Would clear"
+              guests={state.preview.wouldClear}
+              empty="No flagged guests are active again."
+            />
+            {state.preview.inGrace.length > 0 && (
+              <GuestList
+                title="Inactive, but in their grace period"
+                guests={state.preview.inGrace}
+                empty=""
+                describe={guest => `score ${guest.score} · can be flagged from ${formatDate(guest.graceEndsAt)}`}
+              />
+            )}
+
+            {state.preview.alertsEnabled ? (
+              <div>
+                <GuestList
+                  title={state.preview.alertMode === 'digest' ? 'Would alert (one digest)' : 'Would alert'}
+                  guests={state.preview.wouldAlert}
+                  empty="No alerts would be sent."
+                  describe={alert => (alert.recipient === 'sponsor' ? 'asks their sponsor' : 'to admins')}
+                />
+                {(state.preview.snoozed > 0 || state.preview.awaitingSponsor > 0) && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Not alerted again: {state.preview.snoozed} snoozed, {state.preview.awaitingSponsor} awaiting their sponsor.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Alerts are not included in your plan.</p>
+            )}
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,99 @@
+import { Badge } from '@/components/ui/badge';
+import type { AuditRun, AuditRunStatus } from '@/types/database.types';
+
+interface AuditRunHistoryProps {
+  runs: AuditRun[];
+}
+
+const STATUS_BADGES: Record<AuditRunStatus, { label: string; variant: 'success' | 'danger' | 'warning' | 'neutral' }> = {
+  succeeded: { label: 'Succeeded', variant: 'success' },
+  partial: { label: 'Partial', variant: 'warning' },
+  skipped: { label: 'Skipped', variant: 'neutral' },
+  failed: { label: 'Failed', variant: 'danger' },
+};
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function AuditRunHistory({ runs }: AuditRunHistoryProps) {
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Audit Runs</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Every audit of this workspace, newest first — including runs skipped by plan limits and runs that failed.
+        </p>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="p-6 text-sm text-gray-400">No audits have run yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {runs.map(run => {
+            const badge = STATUS_BADGES[run.status];
+            const scored = run.status === 'succeeded' || run.status === 'partial';
+            const slackCalls = run.slack_calls;
+            const methods = slackCalls
+              ? Object.entries(slackCalls.byMethod).sort(([, a], [, b]) => b - a)
+              : [];
+
+            return (
+              <li key={run.id} className="p-4 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-gray-700 dark:text-gray-300">
+                      {formatDateTime(run.started_at ?? run.created_at)}
+                      <span className="text-gray-400"> · {run.manual ? 'manual' : 'scheduled'}</span>
+                    </p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {formatDuration(run.duration_ms)}
+                      {scored && ` · ${run.workspace_guest_count} guests, ${run.workspace_inactive_count} inactive`}
+                      {scored && ` · ${run.dms_sent} DMs sent`}
+                      {run.dms_failed > 0 && `, ${run.dms_failed} failed`}
+                    </p>
+                  </div>
+                  <Badge label={badge.label} variant={badge.variant} />
+                </div>
+
+                {run.error_message && (
+                  <p className={`text-xs mt-2 ${run.status === 'skipped' ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {run.error_message}
+                  </p>
+                )}
+
+                {slackCalls && slackCalls.total > 0 && (
+                  <details className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    <summary className="cursor-pointer">
+                      {slackCalls.total} Slack API calls
+                      {slackCalls.rateLimited > 0 && ` · ${slackCalls.rateLimited} rate-limited`}
+                      {slackCalls.waitedMs > 0 && ` · waited ${formatDuration(slackCalls.waitedMs)}`}
+                    </summary>
+                    <ul className="mt-1 pl-4">
+                      {methods.map(([method, count]) => (
+                        <li key={method} className="font-mono">{method}: {count}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+import { describeAuditSchedule } from '@/services/audit-schedule.service';
+import type { AuditSchedule } from '@/services/audit-schedule.service';
+
+interface AuditScheduleFormProps {
+  /** Null when the plan has no background audits */
+  schedule: AuditSchedule | null;
+  /** Saved values — shown even when the plan has no background audits */
+  timezone: string;
+  dayOfWeek: number;
+  hour: number;
+  /** Next scheduled audit, formatted in the workspace timezone */
+  nextAuditLabel: string | null;
+}
+
+const INPUT_CLASSES =
+  'rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100';
+
+const DAY_OPTIONS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export function AuditScheduleForm({
+  schedule,
+  timezone,
+  dayOfWeek,
+  hour,
+  nextAuditLabel,
+}: AuditScheduleFormProps) {
+  const timezones = Intl.supportedValuesOf('timeZone');
+
+  return (
+    <section
+      id="schedule"
+      className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700"
+    >
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Audit Schedule</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          {schedule
+            ? `${describeAuditSchedule(schedule)}. Your plan includes ${schedule.frequency} background audits.`
+            : 'Background audits are not included in your plan. Run an audit manually or upgrade.'}
+        </p>
+        {nextAuditLabel && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Next audit: {nextAuditLabel}</p>
+        )}
+      </div>
+
+      <form method="POST" action="/api/workspace/audit-schedule" className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+          {schedule?.frequency !== 'daily' && (
+            <label className="flex items-center gap-2">
+              Every
+              <select name="audit_day_of_week" defaultValue={dayOfWeek} className={INPUT_CLASSES}>
+                {DAY_OPTIONS.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {schedule?.frequency === 'daily' && (
+            <input type="hidden" name="audit_day_of_week" value={dayOfWeek} />
+          )}
+          <label className="flex items-center gap-2">
+            at
+            <select name="audit_hour" defaultValue={hour} className={INPUT_CLASSES}>
+              {HOUR_OPTIONS.map(option => (
+                <option key={option} value={option}>{String(option).padStart(2, '0')}:00</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            in
+            <input
+              type="text"
+              name="audit_timezone"
+              list="audit-timezones"
+              defaultValue={timezone}
+              className={`${INPUT_CLASSES} w-56`}
+              required
+            />
+            <datalist id="audit-timezones">
+              {timezones.map(tz => (
+                <option key={tz} value={tz} />
+              ))}
+            </datalist>
+          </label>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg text-sm transition-colors"
+          >
+            Save Schedule
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,131 @@
+import { Badge } from '@/components/ui/badge';
+import type { GuestAudit, GuestExemption } from '@/types/database.types';
+
+interface ExemptionsSectionProps {
+  rules: GuestExemption[];
+  exemptGuests: GuestAudit[];
+  /** The install lacks users:read.email, so email-domain rules match no one */
+  emailScopeMissing: boolean;
+}
+
+const INPUT_CLASSES =
+  'rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function describeRule(rule: GuestExemption): string {
+  return rule.rule_type === 'user' ? rule.value : `*@${rule.value}`;
+}
+
+function isExpired(rule: GuestExemption): boolean {
+  return rule.expires_at !== null && new Date(rule.expires_at).getTime() <= Date.now();
+}
+
+export function ExemptionsSection({ rules, exemptGuests, emailScopeMissing }: ExemptionsSectionProps) {
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+
+  return (
+    <section
+      id="exemptions"
+      className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700"
+    >
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Exemptions</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Exempted guests are never flagged or alerted on. Rules apply from the next audit.
+        </p>
+        {emailScopeMissing && (
+          <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">
+            Email-domain rules match no one: the app was installed without permission to read guest emails.{' '}
+            <a href="/api/slack/install" className="font-semibold underline">Reinstall the app</a> to grant it.
+          </p>
+        )}
+      </div>
+
+      <form method="POST" action="/api/workspace/exemptions" className="p-6 flex flex-wrap items-end gap-4 border-b border-gray-100 dark:border-gray-700">
+        <input type="hidden" name="intent" value="create" />
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Match
+          <select name="rule_type" className={INPUT_CLASSES} defaultValue="user">
+            <option value="user">Slack user ID</option>
+            <option value="email_domain">Email domain</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Value
+          <input type="text" name="value" placeholder="U0123ABCD or contractor.com" className={INPUT_CLASSES} required />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Exempt until (optional)
+          <input type="date" name="expires_at" className={INPUT_CLASSES} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300 flex-1 min-w-[160px]">
+          Reason (optional)
+          <input type="text" name="reason" maxLength={200} className={INPUT_CLASSES} />
+        </label>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg text-sm transition-colors"
+        >
+          Add Rule
+        </button>
+      </form>
+
+      {rules.length > 0 && (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center justify-between p-4">
+              <div>
+                <p className="font-mono text-sm text-gray-700 dark:text-gray-300">{describeRule(rule)}</p>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {rule.expires_at ? `Until ${formatDate(rule.expires_at)}` : 'No expiry'}
+                  {rule.reason && ` · ${rule.reason}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                {isExpired(rule) && <Badge label="Expired" variant="neutral" />}
+                <form method="POST" action="/api/workspace/exemptions">
+                  <input type="hidden" name="intent" value="delete" />
+                  <input type="hidden" name="rule_id" value={rule.id} />
+                  <button type="submit" className="text-sm text-red-600 dark:text-red-400 hover:underline">
+                    Remove
+                  </button>
+                </form>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="p-6 border-t border-gray-100 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+          Exempted in the last audit ({exemptGuests.length})
+        </h3>
+        {exemptGuests.length === 0 ? (
+          <p className="text-sm text-gray-400">No guests matched an exemption rule.</p>
+        ) : (
+          <ul className="space-y-2">
+            {exemptGuests.map(guest => {
+              const rule = guest.exemption_id ? rulesById.get(guest.exemption_id) : undefined;
+              return (
+                <li key={guest.slack_user_id} className="flex items-center justify-between text-sm">
+                  <span className="font-mono text-gray-700 dark:text-gray-300">{guest.slack_user_id}</span>
+                  <span className="flex items-center gap-3">
+                    <span className="text-gray-500 dark:text-gray-400">${guest.estimated_cost_monthly}/mo</span>
+                    <Badge label={rule ? `Exempt: ${describeRule(rule)}` : 'Exempt (rule removed)'} variant="neutral" />
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -1,12 +1,25 @@
+import Link from 'next/link';
 import { Badge } from '@/components/ui/badge';
+import { describeLastActivity } from '@/lib/activity';
 import type { GuestAudit, GuestActionTaken } from '@/types/database.types';
 
 interface FlaggedGuestsTableProps {
   guests: GuestAudit[];
 }
 
+function getSnoozeBadge(guest: GuestAudit) {
+  if (!guest.snoozed_at) return null;
+  if (guest.snoozed_until === null) {
+    return <Badge label="Snoozed indefinitely" variant="neutral" />;
+  }
+  if (new Date(guest.snoozed_until).getTime() <= Date.now()) return null;
+  return <Badge label={`Snoozed until ${formatDate(guest.snoozed_until)}`} variant="neutral" />;
+}
+
 function getActionBadge(action: GuestActionTaken | null) {
   switch (action) {
+    case 'deactivated':
+      return <Badge label="Deactivated" variant="success" />;
     case 'suggested_deactivation_accepted':
       return <Badge label="Deactivation Logged" variant="success" />;
     case 'ignored_by_admin':
@@ -50,12 +63,26 @@ export function FlaggedGuestsTable({ guests }: FlaggedGuestsTableProps) {
                 </span>
               </div>
               <div>
-                <p className="font-mono text-sm text-gray-700 dark:text-gray-300">
+                <Link
+                  href={`/dashboard/guests/${guest.slack_user_id}`}
+                  className="block font-mono text-sm text-gray-700 dark:text-gray-300 hover:underline"
+                >
                   {guest.slack_user_id}
-                </p>
+                </Link>
                 <p className="text-xs text-gray-400 mt-0.5">
                   Flagged {formatDate(guest.created_at)}
+                  {guest.activity_score !== null && ` · score ${guest.activity_score}`}
                 </p>
+                {guest.signal_results && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 first-letter:uppercase">
+                    {describeLastActivity(guest.signal_results) ?? 'No activity found'}
+                  </p>
+                )}
+                {guest.signal_results?.message.coverageNote && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400 mt-0.5">
+                    Partial check: {guest.signal_results.message.coverageNote}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -63,7 +90,7 @@ export function FlaggedGuestsTable({ guests }: FlaggedGuestsTableProps) {
               <span className="text-sm font-medium text-red-600 dark:text-red-400 whitespace-nowrap">
                 ${guest.estimated_cost_monthly}/mo
               </span>
-              {getActionBadge(guest.action_taken)}
+              {getSnoozeBadge(guest) ?? getActionBadge(guest.action_taken)}
             </div>
           </li>
         ))}
@@ -0,0 +1,55 @@
+import Link from 'next/link';
+import type { GraceGuest } from '@/services/guest-join.service';
+
+interface GracePeriodSectionProps {
+  guests: GraceGuest[];
+  gracePeriodDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function describeRemaining(graceEndsAt: string): string {
+  const days = Math.ceil((new Date(graceEndsAt).getTime() - Date.now()) / DAY_MS);
+  return days <= 1 ? 'ends within a day' : `${days} days left`;
+}
+
+export function GracePeriodSection({ guests, gracePeriodDays }: GracePeriodSectionProps) {
+  return (
+    <section
+      id="grace-period"
+      className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700"
+    >
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">New Guests</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Guests are not flagged during their first {gracePeriodDays} days in the workspace.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {guests.map(guest => (
+          <li key={guest.slackUserId} className="p-4 flex items-center justify-between gap-4 text-sm">
+            <div>
+              <Link
+                href={`/dashboard/guests/${guest.slackUserId}`}
+                className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {guest.slackUserId}
+              </Link>
+              <p className="text-xs text-gray-400 mt-0.5">Joined {formatDate(guest.joinedAt)}</p>
+            </div>
+            <span className="text-gray-500 dark:text-gray-400">{describeRemaining(guest.graceEndsAt)}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { GUEST_EXPIRATION } from '@/config/constants';
+import type { ExpirationOverview } from '@/services/guest-expiration.service';
+import type { GuestExpiration } from '@/types/database.types';
+
+interface GuestExpirationSectionProps {
+  overview: ExpirationOverview;
+  /** The policy's maximum guest expiration; null when the check is off */
+  maxDays: number | null;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function ExpirationList({
+  title,
+  guests,
+  count,
+  empty,
+}: {
+  title: string;
+  guests: GuestExpiration[];
+  count: number;
+  empty: string;
+}) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-800 dark:text-white">
+        {title} ({count})
+      </h3>
+      {guests.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{empty}</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+          {guests.map(guest => (
+            <li key={guest.slack_user_id} className="py-1.5 flex justify-between gap-4">
+              <Link
+                href={`/dashboard/guests/${guest.slack_user_id}`}
+                className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {guest.slack_user_id}
+              </Link>
+              {guest.expires_at ? (
+                <span className="text-gray-500 dark:text-gray-400">Expires {formatDate(guest.expires_at)}</span>
+              ) : (
+                <Badge label="No expiration" variant="warning" />
+              )}
+            </li>
+          ))}
+          {count > guests.length && (
+            <li className="py-1.5 text-gray-500 dark:text-gray-400">…and {count - guests.length} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function GuestExpirationSection({ overview, maxDays }: GuestExpirationSectionProps) {
+  return (
+    <section
+      id="expirations"
+      className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700"
+    >
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Guest Expiration</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Account expirations set in Slack, as of the latest audit.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <ExpirationList
+          title={`Expiring in the next ${GUEST_EXPIRATION.EXPIRING_SOON_DAYS} days`}
+          guests={overview.expiringSoon}
+          count={overview.expiringSoonCount}
+          empty="No guest accounts expire soon."
+        />
+        {maxDays === null ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Set a maximum guest expiration in the inactivity policy to flag multi-channel guests without one.
+          </p>
+        ) : (
+          <ExpirationList
+            title={`Multi-channel guests with no expiration or one more than ${maxDays} days away`}
+            guests={overview.violations}
+            count={overview.violationCount}
+            empty="Every multi-channel guest expires within the policy."
+          />
+        )}
+      </div>
+    </section>
+  );
+}
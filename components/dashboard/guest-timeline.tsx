@@ -0,0 +1,61 @@
+import { Badge } from '@/components/ui/badge';
+import type { GuestObservation, GuestObservationStatus } from '@/types/database.types';
+
+interface GuestTimelineProps {
+  observations: GuestObservation[];
+}
+
+const STATUS_BADGES: Record<GuestObservationStatus, { label: string; variant: 'success' | 'danger' | 'neutral' }> = {
+  active: { label: 'Active', variant: 'success' },
+  inactive: { label: 'Inactive', variant: 'danger' },
+  exempt: { label: 'Exempt', variant: 'neutral' },
+  grace: { label: 'Grace period', variant: 'neutral' },
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export function GuestTimeline({ observations }: GuestTimelineProps) {
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Audit History</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          One entry per audit run, newest first.
+        </p>
+      </div>
+
+      {observations.length === 0 ? (
+        <p className="p-6 text-sm text-gray-400">This guest hasn&apos;t been audited yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {observations.map(observation => {
+            const badge = STATUS_BADGES[observation.status];
+            return (
+              <li key={observation.id} className="flex items-center justify-between p-4 text-sm">
+                <div>
+                  <p className="text-gray-700 dark:text-gray-300">{formatDate(observation.observed_at)}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    {observation.activity_score !== null ? `Score ${observation.activity_score}` : 'Not scored'}
+                    {observation.last_seen_at && ` · last seen ${formatDate(observation.last_seen_at)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    ${observation.estimated_cost_monthly}/mo
+                  </span>
+                  <Badge label={badge.label} variant={badge.variant} />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
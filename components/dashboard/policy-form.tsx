@@ -0,0 +1,185 @@
+import { AUDIT_POLICY } from '@/config/constants';
+import type { EffectiveAuditPolicy } from '@/services/policy.service';
+import { ACTIVITY_SIGNALS } from '@/services/activity-signals/registry';
+import type { HistoryChannelType } from '@/types/database.types';
+
+interface PolicyFormProps {
+  policy: EffectiveAuditPolicy;
+  /** Selected conversation types the install lacks scopes for — skipped until reinstall */
+  uncoveredTypes: HistoryChannelType[];
+}
+
+const HISTORY_CHANNEL_LABELS: Record<HistoryChannelType, string> = {
+  public_channel: 'Public channels',
+  private_channel: 'Private channels',
+  mpim: 'Group DMs',
+  im: 'Direct messages',
+};
+
+const INPUT_CLASSES =
+  'w-24 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100';
+
+export function PolicyForm({ policy, uncoveredTypes }: PolicyFormProps) {
+  const historyTypes = Object.keys(HISTORY_CHANNEL_LABELS) as HistoryChannelType[];
+
+  return (
+    <section
+      id="settings"
+      className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700"
+    >
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">Inactivity Policy</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Guests whose score stays below the threshold over the activity window are flagged.
+        </p>
+      </div>
+
+      <form method="POST" action="/api/workspace/policy" className="p-6 space-y-6">
+        <div className="flex flex-wrap gap-6">
+          <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+            Activity window (days)
+            <input
+              type="number"
+              name="activity_window_days"
+              min={AUDIT_POLICY.MIN_WINDOW_DAYS}
+              max={AUDIT_POLICY.MAX_WINDOW_DAYS}
+              step={1}
+              defaultValue={policy.activityWindowDays}
+              className={INPUT_CLASSES}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+            Active threshold
+            <input
+              type="number"
+              name="min_active_score"
+              min={0.1}
+              max={AUDIT_POLICY.MAX_SCORE}
+              step={0.1}
+              defaultValue={policy.minActiveScore}
+              className={INPUT_CLASSES}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+            Grace period for new guests (days)
+            <input
+              type="number"
+              name="grace_period_days"
+              min={0}
+              max={AUDIT_POLICY.MAX_GRACE_PERIOD_DAYS}
+              step={1}
+              defaultValue={policy.gracePeriodDays}
+              className={INPUT_CLASSES}
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+            Max guest expiration (days)
+            <input
+              type="number"
+              name="max_guest_expiration_days"
+              min={1}
+              max={AUDIT_POLICY.MAX_GUEST_EXPIRATION_DAYS}
+              step={1}
+              defaultValue={policy.maxGuestExpirationDays ?? ''}
+              placeholder="Off"
+              className={INPUT_CLASSES}
+              aria-describedby="max-guest-expiration-hint"
+            />
+            <span id="max-guest-expiration-hint" className="text-xs text-gray-400 max-w-[16rem]">
+              Alert on multi-channel guests with no account expiration or one further out than this.
+            </span>
+          </label>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="pb-2 font-medium">Signal</th>
+              <th className="pb-2 font-medium">Enabled</th>
+              <th className="pb-2 font-medium">Weight</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {ACTIVITY_SIGNALS.map(({ id: signal, label, hint }) => (
+              <tr key={signal}>
+                <td className="py-3">
+                  <p className="text-gray-800 dark:text-gray-200">{label}</p>
+                  <p className="text-xs text-gray-400">{hint}</p>
+                </td>
+                <td className="py-3">
+                  <input
+                    type="checkbox"
+                    name={`enabled_${signal}`}
+                    defaultChecked={policy.enabledSignals.includes(signal)}
+                    aria-label={`Enable ${label}`}
+                  />
+                </td>
+                <td className="py-3">
+                  <input
+                    type="number"
+                    name={`weight_${signal}`}
+                    min={0}
+                    max={AUDIT_POLICY.MAX_SCORE}
+                    step={0.1}
+                    defaultValue={policy.signalWeights[signal]}
+                    className={INPUT_CLASSES}
+                    aria-label={`${label} weight`}
+                    required
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Conversations checked for messages
+          </legend>
+          <p className="text-xs text-gray-400">
+            Only conversations the installing admin is a member of can be read. Guests with unreadable
+            conversations get a coverage note.
+          </p>
+          <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+            {historyTypes.map(type => (
+              <label key={type} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  name={`history_${type}`}
+                  defaultChecked={policy.historyChannelTypes.includes(type)}
+                />
+                {HISTORY_CHANNEL_LABELS[type]}
+              </label>
+            ))}
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                name="history_include_shared"
+                defaultChecked={policy.historyIncludeShared}
+              />
+              Slack Connect channels
+            </label>
+          </div>
+          {uncoveredTypes.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Not granted at install: {uncoveredTypes.map(type => HISTORY_CHANNEL_LABELS[type]).join(', ')}.
+              Reinstall the app to include them.
+            </p>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg text-sm transition-colors"
+          >
+            Save Policy
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
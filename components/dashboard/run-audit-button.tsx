@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Spinner } from '@/components/ui/spinner';
+import type { ApiResult, ManualAuditResponse } from '@/types/api.types';
+
+interface RunAuditButtonProps {
+  /** Set when canRunManualScan currently refuses a scan */
+  disabledReason: string | null;
+}
+
+type RunState =
+  | { phase: 'idle' }
+  | { phase: 'running' }
+  | { phase: 'done'; summary: ManualAuditResponse }
+  | { phase: 'error'; message: string };
+
+export function RunAuditButton({ disabledReason }: RunAuditButtonProps) {
+  const router = useRouter();
+  const [state, setState] = useState<RunState>({ phase: 'idle' });
+
+  async function runAudit() {
+    setState({ phase: 'running' });
+
+    try {
+      const res = await fetch('/api/workspace/audit', { method: 'POST' });
+      const json = (await res.json()) as ApiResult<ManualAuditResponse>;
+
+      if (!json.ok) {
+        setState({ phase: 'error', message: json.error });
+        return;
+      }
+
+      setState({ phase: 'done', summary: json.data });
+      // Re-render the server components so the stats and table show the new run
+      router.refresh();
+    } catch {
+      setState({ phase: 'error', message: 'The audit could not be completed. Please try again.' });
+    }
+  }
+
+  const isRunning = state.phase === 'running';
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={runAudit}
+        disabled={isRunning || disabledReason !== null}
+        title={disabledReason ?? undefined}
+        className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-900 text-white font-medium py-2 px-4 rounded-lg text-sm transition-colors"
+      >
+        {isRunning && <Spinner size="sm" color="white" />}
+        {isRunning ? 'Auditing guests…' : 'Run audit now'}
+      </button>
+      <p className="text-xs text-gray-500 dark:text-gray-400 max-w-xs text-right" aria-live="polite">
+        {state.phase === 'running' && 'Scoring every guest — this can take a minute on large workspaces.'}
+        {state.phase === 'done' &&
+          `Audit complete: ${state.summary.flagged} of ${state.summary.guestCount} guests inactive, ` +
+          `$${state.summary.estimatedWaste}/month estimated waste.`}
+        {state.phase === 'error' && <span className="text-red-600 dark:text-red-400">{state.message}</span>}
+        {state.phase === 'idle' && disabledReason}
+      </p>
+    </div>
+  );
+}
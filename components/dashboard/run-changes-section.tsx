@@ -0,0 +1,70 @@
+import Link from 'next/link';
+import type { AuditRunChanges } from '@/types/database.types';
+
+interface RunChangesSectionProps {
+  changes: AuditRunChanges;
+}
+
+/** Longer lists are cut off — the counts in each heading stay exact */
+const MAX_LISTED_GUESTS = 20;
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function ChangeList({ title, guestIds }: { title: string; guestIds: string[] }) {
+  if (guestIds.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-800 dark:text-white">
+        {title} ({guestIds.length})
+      </h3>
+      <ul className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-sm font-mono">
+        {guestIds.slice(0, MAX_LISTED_GUESTS).map(guestId => (
+          <li key={guestId}>
+            <Link href={`/dashboard/guests/${guestId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+              {guestId}
+            </Link>
+          </li>
+        ))}
+        {guestIds.length > MAX_LISTED_GUESTS && (
+          <li className="font-sans text-gray-500 dark:text-gray-400">…and {guestIds.length - MAX_LISTED_GUESTS} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+export function RunChangesSection({ changes }: RunChangesSectionProps) {
+  const total =
+    changes.newlyInactive.length + changes.reactivated.length + changes.removed.length + changes.invited.length;
+
+  return (
+    <section className="mb-8 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-white">What Changed</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Since the previous audit on {formatDate(changes.previousRunAt)}.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {total === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No guests changed status.</p>
+        ) : (
+          <>
+            <ChangeList title="Newly inactive" guestIds={changes.newlyInactive} />
+            <ChangeList title="Back to active" guestIds={changes.reactivated} />
+            <ChangeList title="Newly invited" guestIds={changes.invited} />
+            <ChangeList title="No longer in Slack" guestIds={changes.removed} />
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
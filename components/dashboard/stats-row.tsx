@@ -8,6 +8,7 @@ interface StatsRowProps {
 export function StatsRow({ auditRun }: StatsRowProps) {
   const totalGuests = auditRun?.workspace_guest_count ?? 0;
   const inactiveGuests = auditRun?.workspace_inactive_count ?? 0;
+  const exemptGuests = auditRun?.workspace_exempt_count ?? 0;
   const estimatedWaste = auditRun?.workspace_estimated_waste ?? 0;
 
   return (
@@ -21,6 +22,7 @@ export function StatsRow({ auditRun }: StatsRowProps) {
         label="Inactive Guests Detected"
         value={inactiveGuests}
         variant={inactiveGuests > 0 ? 'danger' : 'default'}
+        caption={exemptGuests > 0 ? `${exemptGuests} more exempted by rule` : undefined}
       />
       <StatCard
         label="Identified Monthly Waste"
@@ -4,6 +4,8 @@ interface StatCardProps {
   variant?: 'default' | 'danger' | 'success';
   prefix?: string;
   suffix?: string;
+  /** Small secondary line under the value */
+  caption?: string;
 }
 
 const VARIANT_CLASSES = {
@@ -27,6 +29,7 @@ export function StatCard({
   variant = 'default',
   prefix,
   suffix,
+  caption,
 }: StatCardProps) {
   const classes = VARIANT_CLASSES[variant];
 
@@ -38,6 +41,7 @@ export function StatCard({
         {value}
         {suffix}
       </p>
+      {caption && <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{caption}</p>}
     </div>
   );
 }
@@ -39,6 +39,8 @@ export const AUDIT = {
   SCORE_LAST_MESSAGE: 3,      // Sent a message within the window — definitive
   SCORE_PROFILE_UPDATED: 1,   // Profile updated within the window — intentional action
   SCORE_PRESENCE_ACTIVE: 0.5, // Currently presence-active — weak (keepalive/mobile)
+  SCORE_EVENT_ACTIVITY: 3,    // Message / reaction / profile change seen via Slack events — definitive
+  SCORE_ACCESS_LOG: 1,        // Logged in within window — catches guests who read but never post
 
   /**
    * Classification threshold.
@@ -50,15 +52,190 @@ export const AUDIT = {
    */
   MIN_ACTIVE_SCORE: 1,
 
-  /** Max channels to check per guest when fetching conversation history */
-  HISTORY_CHANNELS_TO_CHECK: 3,
+  /** Newly joined guests aren't flagged until this many days after joining */
+  GRACE_PERIOD_DAYS: 14,
+
+  /** Conversations requested per users.conversations page */
+  HISTORY_CHANNELS_PAGE_SIZE: 200,
+  /**
+   * Max conversations read per guest. Guests in more are checked partially
+   * and get a coverage note — one history call per conversation. A full
+   * scoring batch (GUEST_SCORING_CONCURRENCY guests) then makes at most
+   * 100 tier-3 calls, about two minutes — inside one worker slice.
+   */
+  HISTORY_MAX_CHANNELS: 10,
   /** Messages to fetch per channel (oldest-first via `oldest` param limits scope) */
   HISTORY_MESSAGES_LIMIT: 50,
+  /**
+   * How far back history is read to report when a guest last posted.
+   * Same number of API calls as reading only the activity window — older
+   * messages just don't count towards the score.
+   */
+  LAST_SEEN_LOOKBACK_DAYS: 365,
 
   /** Max guests to score concurrently — prevents simultaneous API call explosion */
   GUEST_SCORING_CONCURRENCY: 10,
   /** Max workspaces to audit in parallel — avoids DB connection exhaustion */
   WORKSPACE_BATCH_SIZE: 5,
+
+  /**
+   * Max guests listed in a digest DM (costliest first). Each row is two
+   * blocks; Slack rejects messages with more than 50 blocks.
+   */
+  DIGEST_MAX_GUESTS: 10,
+} as const;
+
+/**
+ * Activity signals a workspace can enable in its audit policy.
+ * Values are persisted in audit_policies.enabled_signals / signal_weights.
+ */
+export const ACTIVITY_SIGNAL = {
+  PROFILE: 'profile',
+  PRESENCE: 'presence',
+  MESSAGE: 'message',
+  EVENT_ACTIVITY: 'event_activity',
+  ACCESS_LOGS: 'access_logs',
+} as const;
+
+/**
+ * Bounds for per-workspace audit policies (audit_policies table).
+ * Defaults come from AUDIT above — a workspace without a saved policy
+ * is audited exactly like before policies existed.
+ */
+export const AUDIT_POLICY = {
+  MIN_WINDOW_DAYS: 7,
+  MAX_WINDOW_DAYS: 365,
+  /** Upper bound for a single signal weight and for the threshold */
+  MAX_SCORE: 10,
+  /** Upper bound for the grace period; 0 turns it off */
+  MAX_GRACE_PERIOD_DAYS: 90,
+  /** Upper bound for the guest expiration check */
+  MAX_GUEST_EXPIRATION_DAYS: 365,
+} as const;
+
+/**
+ * Onboarding scan — profile updates are checked for every guest (free, part
+ * of users.list); presence is sampled for a bounded subset of the rest so the
+ * scan stays fast and well under Slack's rate limits.
+ */
+export const ONBOARDING_SCAN = {
+  PRESENCE_SAMPLE_SIZE: 25,
+} as const;
+
+/**
+ * User scopes needed to read each conversation type in the message check.
+ * Types whose scopes a workspace hasn't granted are skipped and noted.
+ */
+export const HISTORY_CHANNEL_SCOPES = {
+  public_channel: ['channels:read', 'channels:history'],
+  private_channel: ['groups:read', 'groups:history'],
+  mpim: ['mpim:read', 'mpim:history'],
+  im: ['im:read', 'im:history'],
+} as const;
+
+/** team.accessLogs — read once per workspace per audit */
+export const ACCESS_LOGS = {
+  /** Entries per page (Slack maximum) */
+  PAGE_SIZE: 1000,
+  /** Slack serves at most 100 pages; older entries are out of reach */
+  MAX_PAGES: 100,
+  /**
+   * Pages read per audit job slice (tier 2: about a minute). Larger histories
+   * are read over several slices before any guest is scored.
+   */
+  PAGES_PER_SLICE: 20,
+} as const;
+
+/** Real-time guest activity from Slack events (guest_activity) */
+export const GUEST_ACTIVITY = {
+  /** A guest's row is rewritten at most once per interval, however chatty they are */
+  WRITE_THROTTLE_SECONDS: 60 * 60,
+  /** Rows per page when loading activity and per batch when registering guests */
+  BATCH_SIZE: 1000,
+} as const;
+
+/** Guest join dates (guest_joins) — read for the grace period */
+export const GUEST_JOINS = {
+  /** Rows per page when loading join dates or guests in grace, and per batch when registering guests */
+  BATCH_SIZE: 1000,
+} as const;
+
+/** Guest sponsors (guest_sponsors) — cross-checked against users.list by each audit */
+export const GUEST_SPONSORS = {
+  /** Rows per page when loading sponsors and per batch when marking guests orphaned */
+  BATCH_SIZE: 1000,
+  /** Admins are reminded of guests still orphaned after this many days */
+  ORPHAN_ALERT_REMINDER_DAYS: 7,
+} as const;
+
+/** Guest account expirations (guest_expirations) */
+export const GUEST_EXPIRATION = {
+  /** Guests expiring within this many days are listed as expiring soon */
+  EXPIRING_SOON_DAYS: 14,
+  /** Rows per batch when recording expirations */
+  BATCH_SIZE: 1000,
+  /** Guests listed per dashboard list — the counts stay exact */
+  LIST_LIMIT: 50,
+  /** Admins are reminded of guests still failing the policy after this many days */
+  ALERT_REMINDER_DAYS: 7,
+} as const;
+
+/**
+ * Audit job queue (audit_jobs). Workers stop claiming work once their
+ * budget is spent, leaving headroom under the function time limit for the
+ * chunk in flight; a worker killed anyway loses at most one chunk.
+ */
+export const AUDIT_JOBS = {
+  /** Time a worker request spends on jobs before returning */
+  WORKER_BUDGET_MS: 240_000,
+  /** A job claimed by a worker that stops renewing it is retried with backoff after this */
+  LEASE_SECONDS: 360,
+  /** Guests scored between checkpoints */
+  CHECKPOINT_SIZE: 20,
+  /** Failed slices before a job is abandoned until the next scheduled audit */
+  MAX_ATTEMPTS: 5,
+  /** Retry delay doubles per attempt: 1, 2, 4, 8 minutes… */
+  RETRY_BASE_SECONDS: 60,
+  /** Rows per page when writing and reading a job's guest snapshot */
+  BATCH_SIZE: 1000,
+} as const;
+
+/**
+ * Per-workspace audit schedule. The scheduler ticks hourly; a workspace is
+ * due once its most recent scheduled slot is newer than its last queued
+ * audit. How often comes from PLAN_LIMITS.auditFrequency.
+ */
+export const AUDIT_SCHEDULE = {
+  /** The default weekday and hour are hashed from the workspace ID (getDefaultAuditSlot) */
+  DEFAULT_TIMEZONE: 'UTC',
+  /** Slots are searched hour by hour up to one week away */
+  SEARCH_HOURS: 7 * 24,
+  /** Workspaces per last_scheduled_audit_at update */
+  UPDATE_BATCH_SIZE: 200,
+} as const;
+
+/** Audit run history (audit_runs) */
+export const AUDIT_RUNS = {
+  /** Runs shown on the dashboard's run history page (newest first) */
+  HISTORY_LIMIT: 50,
+  /** error_message is cut to this length */
+  MAX_ERROR_LENGTH: 500,
+} as const;
+
+/** Dashboard audit previews — throttled on their own, apart from manual scans */
+export const AUDIT_PREVIEW = {
+  /** One preview per workspace in this window; a preview is as Slack-heavy as an audit */
+  MIN_MINUTES_BETWEEN: 5,
+} as const;
+
+/** Per-guest history (guest_observations) */
+export const GUEST_HISTORY = {
+  /** Rows per insert — keeps request bodies small on large workspaces */
+  INSERT_BATCH_SIZE: 1000,
+  /** Rows per page when reading a run's observations — PostgREST's default max */
+  PAGE_SIZE: 1000,
+  /** Observations shown on a guest's timeline (newest first) */
+  TIMELINE_LIMIT: 100,
 } as const;
 
 // ---------------------------------------------------------------------------
@@ -78,15 +255,97 @@ export const SUBSCRIPTION_STATUS = {
 export const GUEST_ACTION = {
   FLAGGED: 'flagged',
   DEACTIVATION_ACCEPTED: 'suggested_deactivation_accepted',
+  /** Guest was deactivated by the app via the SCIM API (Enterprise Grid only) */
+  DEACTIVATED: 'deactivated',
   IGNORED_BY_ADMIN: 'ignored_by_admin',
+  /** Guest matched an exemption rule — never flagged or alerted */
+  EXEMPTED: 'exempted',
+} as const;
+
+/**
+ * Snooze durations offered by the "Snooze" menu in alert DMs.
+ * The key is embedded in the option value (snooze_<key>_<guestId>);
+ * null days = snoozed until the admin changes it.
+ */
+export const SNOOZE_DURATION = {
+  '7': { label: '7 days', days: 7 },
+  '30': { label: '30 days', days: 30 },
+  '90': { label: '90 days', days: 90 },
+  forever: { label: 'Forever', days: null },
+} as const;
+
+/** Used for legacy "Ignore" buttons sent before the snooze menu existed */
+export const DEFAULT_SNOOZE_KEY = '7';
+
+/**
+ * Sponsor-first escalation (guest_escalations). Admins are alerted only when
+ * the sponsor picks Remove or doesn't answer within the workspace's window.
+ */
+export const SPONSOR_ESCALATION = {
+  DEFAULT_DAYS: 3,
+  MIN_DAYS: 1,
+  MAX_DAYS: 30,
+  /** A sponsor's "Keep" snoozes alerts for the guest this long */
+  KEEP_SNOOZE_DAYS: 90,
+} as const;
+
+export const ESCALATION_STATUS = {
+  AWAITING_SPONSOR: 'awaiting_sponsor',
+  KEPT: 'kept',
+  ESCALATED: 'escalated',
+} as const;
+
+export const AUDIT_JOB_STATUS = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+export const AUDIT_RUN_STATUS = {
+  SUCCEEDED: 'succeeded',
+  /** Finished, but some DMs or writes failed */
+  PARTIAL: 'partial',
+  /** Plan limits stopped the audit before scoring */
+  SKIPPED: 'skipped',
+  FAILED: 'failed',
+} as const;
+
+/** Runs that scored guests — the only ones with counts worth showing */
+export const COMPLETED_AUDIT_RUN_STATUSES = [AUDIT_RUN_STATUS.SUCCEEDED, AUDIT_RUN_STATUS.PARTIAL];
+
+/** How inactive-guest alerts are delivered (workspaces.alert_mode) */
+export const ALERT_MODE = {
+  PER_GUEST: 'per_guest',
+  DIGEST: 'digest',
+} as const;
+
+export const EXEMPTION_RULE_TYPE = {
+  USER: 'user',
+  EMAIL_DOMAIN: 'email_domain',
 } as const;
 
 export const WORKSPACE_EVENT_TYPE = {
   DM_ALERT_SENT: 'dm_alert_sent',
+  DIGEST_ALERT_SENT: 'digest_alert_sent',
+  ALERT_SETTINGS_UPDATED: 'alert_settings_updated',
+  AUDIT_SCHEDULE_UPDATED: 'audit_schedule_updated',
   DEACTIVATE_BUTTON_CLICKED: 'deactivate_button_clicked',
+  GUEST_DEACTIVATED: 'guest_deactivated',
+  GUEST_DEACTIVATION_FAILED: 'guest_deactivation_failed',
   IGNORE_BUTTON_CLICKED: 'ignore_button_clicked',
   AUDIT_STARTED: 'audit_started',
   AUDIT_COMPLETED: 'audit_completed',
+  EXEMPTION_CREATED: 'exemption_created',
+  EXEMPTION_DELETED: 'exemption_deleted',
+  SPONSOR_CHECK_SENT: 'sponsor_check_sent',
+  SPONSOR_KEPT_GUEST: 'sponsor_kept_guest',
+  SPONSOR_REQUESTED_REMOVAL: 'sponsor_requested_removal',
+  GUEST_ESCALATED: 'guest_escalated',
+  EXPIRATION_ALERT_SENT: 'expiration_alert_sent',
+  SPONSOR_DEPARTED: 'sponsor_departed',
+  ORPHAN_ALERT_SENT: 'orphan_alert_sent',
+  SPONSOR_REASSIGNED: 'sponsor_reassigned',
 } as const;
 
 // ---------------------------------------------------------------------------
@@ -95,26 +354,113 @@ export const WORKSPACE_EVENT_TYPE = {
 // ---------------------------------------------------------------------------
 export const SLACK_ACTION_ID = {
   DEACTIVATE_GUEST: 'deactivate_guest_action',
+  /** Snooze menu (static_select); legacy DMs send it as an "Ignore" button */
   IGNORE_GUEST: 'ignore_guest_action',
+  SPONSOR_KEEP_GUEST: 'sponsor_keep_guest_action',
+  SPONSOR_REMOVE_GUEST: 'sponsor_remove_guest_action',
+  /** "View all in dashboard" link button — Slack still posts a block_action for it */
+  OPEN_DASHBOARD: 'open_dashboard_action',
+  /** users_select next to each orphaned guest; the guest is in the block_id */
+  REASSIGN_SPONSOR: 'reassign_sponsor_action',
+} as const;
+
+/** App Home tab (views.publish) */
+export const APP_HOME = {
+  /** Flagged guests listed in the Home tab (costliest first). Views allow 100 blocks. */
+  MAX_FLAGGED_GUESTS: 20,
 } as const;
 
+/** Digest rows use block_id digest_<guestId> so responses don't replace the whole digest */
+export const DIGEST_BLOCK_ID_PREFIX = 'digest_';
+
+/** Orphaned-guest rows use block_id orphan_<guestId> — users_select carries no value of its own */
+export const ORPHAN_BLOCK_ID_PREFIX = 'orphan_';
+
 // ---------------------------------------------------------------------------
 // Slack API Configuration
 // ---------------------------------------------------------------------------
 export const SLACK_API = {
   BASE_URL: 'https://slack.com/api',
+  /** SCIM API — used to deactivate guests on Enterprise Grid */
+  SCIM_BASE_URL: 'https://api.slack.com/scim/v2',
   /** Default wait time when Slack returns 429 with no Retry-After header */
   RATE_LIMIT_DEFAULT_WAIT_MS: 10_000,
   /** Wait before retrying on network errors */
   RETRY_DELAY_MS: 2_000,
   /** Maximum number of retries for Slack API calls */
   MAX_RETRIES: 3,
-  /** Slack OAuth required user scopes */
-  REQUIRED_USER_SCOPES: ['users:read', 'chat:write', 'im:write', 'channels:read', 'channels:history'],
+  /**
+   * Slack OAuth required user scopes.
+   * `users:read.email` exposes guest emails for email-domain exemption rules.
+   * `groups:history` and `reactions:read` deliver message / reaction events
+   * from private channels the installer is in (real-time guest activity).
+   * The read / history pairs let the message check cover every conversation
+   * type (see HISTORY_CHANNEL_SCOPES).
+   */
+  REQUIRED_USER_SCOPES: [
+    'users:read',
+    'users:read.email',
+    'chat:write',
+    'im:write',
+    'channels:read',
+    'channels:history',
+    'groups:read',
+    'groups:history',
+    'mpim:read',
+    'mpim:history',
+    'im:read',
+    'im:history',
+    'reactions:read',
+  ],
+  /**
+   * Admin-level user scope — never part of a regular install. An Enterprise
+   * Grid admin grants it from the dashboard (/api/slack/install?grant=admin)
+   * so the SCIM API can deactivate guests from the DM alert; it also reads
+   * team.accessLogs for the login signal.
+   */
+  ADMIN_USER_SCOPE: 'admin',
+  /** Exposes profile.email — without it email-domain exemption rules match no one */
+  EMAIL_USER_SCOPE: 'users:read.email',
+  /**
+   * Slack OAuth required bot scopes.
+   * Slack only issues a bot token when at least one bot scope is requested;
+   * the bot token is what publishes the App Home tab (views.publish) and
+   * DMs sponsors (`im:write` opens the conversation).
+   * `commands` enables the /guest-sentinel slash command.
+   */
+  REQUIRED_BOT_SCOPES: ['chat:write', 'im:write', 'commands'],
   /** Maximum age (seconds) for Slack request signatures (prevents replay attacks) */
   SIGNATURE_MAX_AGE_SECONDS: 300,
 } as const;
 
+/**
+ * Slack Web API rate-limit tiers — requests per minute, per method, per
+ * workspace token. Each (token, method) pair gets its own token bucket.
+ * @see https://api.slack.com/apis/rate-limits
+ */
+export const SLACK_RATE_LIMIT = {
+  TIER_PER_MINUTE: { 1: 1, 2: 20, 3: 50, 4: 100 },
+  /** Methods this app calls; anything else gets DEFAULT_TIER */
+  METHOD_TIERS: {
+    'users.list': 2,
+    'team.accessLogs': 2,
+    'users.info': 4,
+    'users.getPresence': 3,
+    'users.conversations': 3,
+    'users.lookupByEmail': 3,
+    'conversations.history': 3,
+    'conversations.open': 3,
+    // Special tier (1/sec per channel) — DMs go to many channels, so tier 4 is safe
+    'chat.postMessage': 4,
+    'views.publish': 4,
+  } as Record<string, 1 | 2 | 3 | 4>,
+  DEFAULT_TIER: 3,
+  /** A bucket holds this many seconds' worth of calls — allows short bursts */
+  BURST_SECONDS: 5,
+  /** Idle buckets are dropped once the table grows past this size */
+  MAX_BUCKETS: 1000,
+} as const;
+
 // ---------------------------------------------------------------------------
 // CSRF / OAuth State
 // ---------------------------------------------------------------------------
@@ -0,0 +1,122 @@
+/**
+ * Guest activity helpers.
+ *
+ * Turns guest_audits.signal_results into the last-seen timestamp stored in
+ * guest_audits.last_seen_at and the short summary shown in the dashboard and
+ * alert DMs ("last message 47 days ago in #proj-x").
+ */
+
+import { AUDIT } from '@/config/constants';
+import type { MessageHistoryResult } from '@/lib/slack';
+import type {
+  GuestActivityType,
+  GuestSignalResults,
+  HistoryChannelType,
+} from '@/types/database.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** e.g. "Oct 2, 2026" */
+export function formatUnixDate(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function daysAgo(unixSeconds: number, now: number): string {
+  const days = Math.floor((now - unixSeconds * 1000) / DAY_MS);
+  if (days <= 0) return 'today';
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+}
+
+const EVENT_ACTIVITY_LABELS: Record<GuestActivityType, string> = {
+  message: 'last message',
+  reaction: 'last reaction',
+  profile_update: 'profile last updated',
+};
+
+const HISTORY_CHANNEL_NOUNS: Record<HistoryChannelType, string> = {
+  public_channel: 'public channels',
+  private_channel: 'private channels',
+  mpim: 'group DMs',
+  im: 'DMs',
+};
+
+/**
+ * Explains why a message check may have missed activity, or null when every
+ * conversation in scope was read. Stored as signal_results.message.coverageNote.
+ */
+export function describeHistoryCoverage(
+  result: MessageHistoryResult,
+  uncoveredTypes: HistoryChannelType[]
+): string | null {
+  const notes: string[] = [];
+
+  if (uncoveredTypes.length > 0) {
+    notes.push(`${uncoveredTypes.map(type => HISTORY_CHANNEL_NOUNS[type]).join(', ')} not checked (scopes not granted)`);
+  }
+  if (result.channelsSkipped > 0) {
+    const total = result.channelsChecked + result.channelsSkipped;
+    notes.push(`${result.channelsSkipped} of ${total} conversations not readable`);
+  }
+  if (result.truncated) {
+    notes.push(`only the first ${AUDIT.HISTORY_MAX_CHANNELS} conversations checked`);
+  }
+
+  return notes.length > 0 ? notes.join('; ') : null;
+}
+
+/**
+ * Best-known last activity as an ISO timestamp: the newest of the profile
+ * update, the latest message found, the latest Slack event, the last login
+ * and — when the guest was online during the audit — the audit time itself.
+ * Null when no signal saw anything.
+ */
+export function getLastSeenAt(signals: GuestSignalResults, now = Date.now()): string | null {
+  const candidates: number[] = [];
+
+  if (signals.profile.updatedAt) candidates.push(signals.profile.updatedAt * 1000);
+  if (signals.message.ts) candidates.push(signals.message.ts * 1000);
+  if (signals.event?.lastActivityAt) candidates.push(signals.event.lastActivityAt * 1000);
+  if (signals.login?.lastLoginAt) candidates.push(signals.login.lastLoginAt * 1000);
+  if (signals.presence.presence === 'active') candidates.push(now);
+
+  return candidates.length > 0 ? new Date(Math.max(...candidates)).toISOString() : null;
+}
+
+/**
+ * One-line summary of the strongest evidence of past activity, or null when
+ * nothing is known. Messages win over profile updates; a Slack event wins
+ * when it is newer than the message found by the history search, and a
+ * login when it is newer than both.
+ */
+export function describeLastActivity(
+  signals: GuestSignalResults | null,
+  now = Date.now()
+): string | null {
+  if (!signals) return null;
+
+  const { message, profile, event, login } = signals;
+  const lastPostAt = Math.max(message.ts ?? 0, event?.lastActivityAt ?? 0);
+  if (login?.lastLoginAt && login.lastLoginAt > lastPostAt) {
+    return `last login ${daysAgo(login.lastLoginAt, now)}`;
+  }
+
+  if (event?.lastActivityAt && event.activityType && event.lastActivityAt > (message.ts ?? 0)) {
+    return `${EVENT_ACTIVITY_LABELS[event.activityType]} ${daysAgo(event.lastActivityAt, now)}`;
+  }
+
+  if (message.ts) {
+    const channel = message.channelName ? ` in #${message.channelName}` : '';
+    return `last message ${daysAgo(message.ts, now)}${channel}`;
+  }
+
+  if (profile.updatedAt) {
+    return `profile last updated ${daysAgo(profile.updatedAt, now)}`;
+  }
+
+  return message.checked ? 'no messages found' : null;
+}
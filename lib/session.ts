@@ -0,0 +1,29 @@
+/**
+ * Workspace session helper.
+ *
+ * The workspace_session cookie is set by /api/slack/callback and holds the
+ * AES-256-GCM encrypted workspace UUID. Returns null when the cookie is
+ * missing or has been tampered with — callers decide how to reject.
+ *
+ * Usage: const workspaceId = await getSessionWorkspaceId();
+ */
+
+import { cookies } from 'next/headers';
+import { decrypt } from '@/lib/encryption';
+import { SESSION } from '@/config/constants';
+
+export async function getSessionWorkspaceId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const encryptedSession = cookieStore.get(SESSION.COOKIE_NAME)?.value;
+
+  if (!encryptedSession) {
+    return null;
+  }
+
+  try {
+    return decrypt(encryptedSession);
+  } catch {
+    // Tampered cookie
+    return null;
+  }
+}
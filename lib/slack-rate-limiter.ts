@@ -0,0 +1,184 @@
+/**
+ * Slack rate limiter.
+ *
+ * Paces every Web API call through a token bucket per (workspace token,
+ * method), sized from Slack's published tier for that method, so large
+ * audits slow down instead of hitting 429s. A 429 pauses the whole bucket
+ * until Retry-After has passed — every concurrent caller waits, not just
+ * the one that was refused.
+ *
+ * Calls are counted into the SlackCallStats of whichever audit made them:
+ * an audit runs its work inside countSlackCalls(stats, …), and calls made
+ * outside one are paced but not counted.
+ *
+ * Bucket state is per process: each serverless instance paces itself.
+ */
+
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { SLACK_RATE_LIMIT } from '@/config/constants';
+
+/** Time source for pacing — swapped out in tests so waits don't block */
+export interface RateLimiterClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export interface SlackCallStats {
+  total: number;
+  byMethod: Record<string, number>;
+  /** 429 responses received */
+  rateLimited: number;
+  /** Time spent waiting for a bucket or a Retry-After pause */
+  waitedMs: number;
+}
+
+export interface MethodLimits {
+  perMinute: number;
+  /** Calls allowed back to back before pacing kicks in */
+  capacity: number;
+}
+
+interface Bucket {
+  tokens: number;
+  capacity: number;
+  refillPerMs: number;
+  lastRefill: number;
+  /** Set from Retry-After — nobody calls this method before then */
+  blockedUntil: number;
+}
+
+const systemClock: RateLimiterClock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+/** Tokens are secrets — key the table by a short hash instead */
+function tokenKey(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+function refill(bucket: Bucket, now: number): void {
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.lastRefill) * bucket.refillPerMs);
+  bucket.lastRefill = now;
+}
+
+/** Slack's tier for `method` as a rate and a burst allowance */
+export function getMethodLimits(method: string): MethodLimits {
+  const tier = SLACK_RATE_LIMIT.METHOD_TIERS[method] ?? SLACK_RATE_LIMIT.DEFAULT_TIER;
+  const perMinute = SLACK_RATE_LIMIT.TIER_PER_MINUTE[tier];
+  const capacity = Math.max(1, Math.floor((perMinute * SLACK_RATE_LIMIT.BURST_SECONDS) / 60));
+  return { perMinute, capacity };
+}
+
+export class SlackRateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private clock: RateLimiterClock = systemClock) {}
+
+  /** Replaces the time source — existing buckets keep their state */
+  useClock(clock: RateLimiterClock): void {
+    this.clock = clock;
+  }
+
+  /** Waits until a call to `method` is allowed. Returns how long it waited. */
+  async acquire(token: string, method: string): Promise<number> {
+    const bucket = this.getBucket(token, method);
+    const startedAt = this.clock.now();
+
+    for (;;) {
+      const now = this.clock.now();
+      if (bucket.blockedUntil > now) {
+        await this.clock.sleep(bucket.blockedUntil - now);
+        continue;
+      }
+
+      refill(bucket, now);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        break;
+      }
+      await this.clock.sleep(Math.ceil((1 - bucket.tokens) / bucket.refillPerMs));
+    }
+
+    return this.clock.now() - startedAt;
+  }
+
+  /** Pauses every caller of `method` on this token until Retry-After has passed */
+  pause(token: string, method: string, retryAfterMs: number): void {
+    const bucket = this.getBucket(token, method);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, this.clock.now() + retryAfterMs);
+    bucket.tokens = 0;
+  }
+
+  private getBucket(token: string, method: string): Bucket {
+    const key = `${tokenKey(token)}:${method}`;
+    const existing = this.buckets.get(key);
+    if (existing) return existing;
+
+    if (this.buckets.size >= SLACK_RATE_LIMIT.MAX_BUCKETS) {
+      this.pruneIdleBuckets();
+    }
+
+    const { perMinute, capacity } = getMethodLimits(method);
+    const bucket: Bucket = {
+      tokens: capacity,
+      capacity,
+      refillPerMs: perMinute / 60_000,
+      lastRefill: this.clock.now(),
+      blockedUntil: 0,
+    };
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  /** A full, unblocked bucket behaves exactly like a new one — safe to drop */
+  private pruneIdleBuckets(): void {
+    const now = this.clock.now();
+    for (const [key, bucket] of this.buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= bucket.capacity && bucket.blockedUntil <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export const slackRateLimiter = new SlackRateLimiter();
+
+const activeStats = new AsyncLocalStorage<SlackCallStats>();
+
+/** A fresh collector, or a copy of `from` to keep counting where it left off */
+export function createSlackCallStats(from?: SlackCallStats | null): SlackCallStats {
+  return {
+    total: from?.total ?? 0,
+    byMethod: { ...from?.byMethod },
+    rateLimited: from?.rateLimited ?? 0,
+    waitedMs: from?.waitedMs ?? 0,
+  };
+}
+
+/** Runs `fn`, counting every Slack call it makes into `stats` */
+export function countSlackCalls<T>(stats: SlackCallStats, fn: () => Promise<T>): Promise<T> {
+  return activeStats.run(stats, fn);
+}
+
+/** Waits until a call to `method` is allowed, then counts it */
+export async function acquireSlackCall(token: string, method: string): Promise<void> {
+  const waitedMs = await slackRateLimiter.acquire(token, method);
+
+  const stats = activeStats.getStore();
+  if (stats) {
+    stats.total++;
+    stats.byMethod[method] = (stats.byMethod[method] ?? 0) + 1;
+    stats.waitedMs += waitedMs;
+  }
+}
+
+/** Pauses every caller of `method` on this token until Retry-After has passed */
+export function recordRateLimited(token: string, method: string, retryAfterMs: number): void {
+  slackRateLimiter.pause(token, method, retryAfterMs);
+
+  const stats = activeStats.getStore();
+  if (stats) stats.rateLimited++;
+}
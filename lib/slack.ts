@@ -2,30 +2,47 @@
  * Slack API client.
  *
  * Provides:
- *   - slackApiCall(): typed HTTP wrapper with retry and rate-limit handling
+ *   - slackApiCall(): typed HTTP wrapper with retry and tier-aware rate limiting
  *   - verifySlackSignature(): HMAC-SHA256 request authentication
  *   - getGuests(): paginated guest list (no 1000-user hard cap)
+ *   - getWorkspaceRoster(): guest list plus deactivated members
  *   - getUserPresence(): presence check with safe fallback
  *   - sendDirectMessage(): open IM channel and post Block Kit messages
+ *   - deactivateUser(): SCIM deactivation (Enterprise Grid only)
  *   - buildInactiveGuestBlocks(): canonical DM alert block builder
  */
 
 import crypto from 'crypto';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
-import { SLACK_API, AUDIT, SLACK_ACTION_ID } from '@/config/constants';
+import { acquireSlackCall, recordRateLimited } from '@/lib/slack-rate-limiter';
+import {
+  SLACK_API,
+  AUDIT,
+  ACCESS_LOGS,
+  SLACK_ACTION_ID,
+  SNOOZE_DURATION,
+  DIGEST_BLOCK_ID_PREFIX,
+  ORPHAN_BLOCK_ID_PREFIX,
+} from '@/config/constants';
 import type {
   SlackUser,
   SlackBlock,
+  SlackButtonElement,
+  SlackStaticSelectElement,
   SlackChannel,
   UsersListResponse,
+  UsersInfoResponse,
   UserPresenceResponse,
+  TeamAccessLogsResponse,
   UserConversationsResponse,
   ConversationsHistoryResponse,
   ConversationsOpenResponse,
   ChatPostMessageResponse,
   SlackBaseResponse,
+  ScimErrorResponse,
 } from '@/types/slack.types';
+import type { HistoryChannelType, Workspace } from '@/types/database.types';
 
 // ---------------------------------------------------------------------------
 // Internal helpers
@@ -54,6 +71,7 @@ async function slackApiCall<T extends SlackBaseResponse>(
   const url = endpoint.startsWith('http')
     ? endpoint
     : `${SLACK_API.BASE_URL}/${endpoint}`;
+  const method = new URL(url).pathname.split('/').pop() ?? endpoint;
 
   const fetchOptions: RequestInit = {
     method: body !== undefined ? 'POST' : 'GET',
@@ -65,17 +83,22 @@ async function slackApiCall<T extends SlackBaseResponse>(
   };
 
   try {
+    await acquireSlackCall(token, method);
     const res = await fetch(url, fetchOptions);
 
-    if (res.status === 429 && retries > 0) {
+    if (res.status === 429) {
       const retryAfter = res.headers.get('Retry-After');
       const waitMs = retryAfter
         ? parseInt(retryAfter, 10) * 1000
         : SLACK_API.RATE_LIMIT_DEFAULT_WAIT_MS;
 
-      logger.warn('Slack rate limit hit', { endpoint, waitMs, retriesLeft: retries });
-      await delay(waitMs);
-      return slackApiCall<T>({ ...options, retries: retries - 1 });
+      // Pauses every concurrent caller of this method — the retry waits in acquireSlackCall
+      recordRateLimited(token, method, waitMs);
+
+      if (retries > 0) {
+        logger.warn('Slack rate limit hit', { endpoint, waitMs, retriesLeft: retries });
+        return slackApiCall<T>({ ...options, retries: retries - 1 });
+      }
     }
 
     const data = (await res.json()) as T;
@@ -157,12 +180,19 @@ export async function verifySlackSignature(
 // Guest list with full pagination
 // ---------------------------------------------------------------------------
 
+export interface WorkspaceRoster {
+  guests: SlackUser[];
+  /** Deactivated members, guests or not — used to spot departed sponsors */
+  deactivatedUserIds: Set<string>;
+}
+
 /**
- * Returns all guest users in the workspace.
+ * Returns all guest users in the workspace, plus everyone deactivated.
  * Handles pagination automatically — no hard cap on workspace size.
  */
-export async function getGuests(token: string): Promise<SlackUser[]> {
+export async function getWorkspaceRoster(token: string): Promise<WorkspaceRoster> {
   const guests: SlackUser[] = [];
+  const deactivatedUserIds = new Set<string>();
   let cursor: string | undefined;
 
   do {
@@ -182,17 +212,45 @@ export async function getGuests(token: string): Promise<SlackUser[]> {
       throw new Error(`Slack users.list failed: ${data.error ?? 'unknown error'}`);
     }
 
-    const pageGuests = (data.members ?? []).filter(
-      m => !m.deleted && (m.is_restricted || m.is_ultra_restricted) && !m.is_bot
-    );
-    guests.push(...pageGuests);
+    for (const member of data.members ?? []) {
+      if (member.deleted) {
+        deactivatedUserIds.add(member.id);
+      } else if ((member.is_restricted || member.is_ultra_restricted) && !member.is_bot) {
+        guests.push(member);
+      }
+    }
 
     cursor = data.response_metadata?.next_cursor || undefined;
   } while (cursor);
 
+  return { guests, deactivatedUserIds };
+}
+
+/** Returns all guest users in the workspace. */
+export async function getGuests(token: string): Promise<SlackUser[]> {
+  const { guests } = await getWorkspaceRoster(token);
   return guests;
 }
 
+/**
+ * Returns a single user, or null if Slack doesn't know them
+ * (user_not_found) or the lookup fails.
+ */
+export async function getUser(token: string, userId: string): Promise<SlackUser | null> {
+  const params = new URLSearchParams({ user: userId });
+  const data = await slackApiCall<UsersInfoResponse>({
+    endpoint: `users.info?${params.toString()}`,
+    token,
+  });
+
+  if (!data.ok || !data.user) {
+    logger.warn('users.info failed', { userId, error: data.error });
+    return null;
+  }
+
+  return data.user;
+}
+
 // ---------------------------------------------------------------------------
 // User presence
 // ---------------------------------------------------------------------------
@@ -220,53 +278,217 @@ export async function getUserPresence(
 }
 
 // ---------------------------------------------------------------------------
-// Last message timestamp (last resort — requires channels:read + channels:history)
+// Access logs (team.accessLogs — requires admin, paid plans only)
 // ---------------------------------------------------------------------------
 
+export type AccessLogsResult =
+  | {
+      ok: true;
+      /** Slack user ID → most recent login (Unix seconds) */
+      lastLogins: Map<string, number>;
+      /** Page to carry on from when the read stopped early; null once every page was read */
+      nextPage: number | null;
+      /** More than ACCESS_LOGS.MAX_PAGES pages — the oldest entries were not read */
+      truncated: boolean;
+    }
+  | { ok: false; error: string };
+
+export interface AccessLogsOptions {
+  /** First page to read (1-based) */
+  fromPage?: number;
+  /** Pages to read before stopping, however many are left */
+  maxPages?: number;
+  /** Epoch ms — no page after the first is read past this */
+  stopAt?: number;
+}
+
+/**
+ * Reads the workspace's login history and reduces it to the latest login
+ * per user. Slack returns one entry per user / IP / user agent, so every
+ * page is read — a long-lived entry can have an old date_first and a
+ * recent date_last. Large histories can be read in parts: the result says
+ * which page to carry on from.
+ *
+ * Returns ok: false (never throws) when the plan or token doesn't allow it:
+ * paid_only on free Slack plans, missing_scope without `admin`.
+ */
+export async function getAccessLogs(token: string, options: AccessLogsOptions = {}): Promise<AccessLogsResult> {
+  const { fromPage = 1, maxPages = ACCESS_LOGS.MAX_PAGES, stopAt = Infinity } = options;
+  const lastLogins = new Map<string, number>();
+  const lastPage = Math.min(ACCESS_LOGS.MAX_PAGES, fromPage + maxPages - 1);
+
+  for (let page = fromPage; page <= ACCESS_LOGS.MAX_PAGES; page++) {
+    if (page > lastPage || (page > fromPage && Date.now() >= stopAt)) {
+      return { ok: true, lastLogins, nextPage: page, truncated: false };
+    }
+
+    const params = new URLSearchParams({
+      count: String(ACCESS_LOGS.PAGE_SIZE),
+      page: String(page),
+    });
+
+    const data = await slackApiCall<TeamAccessLogsResponse>({
+      endpoint: `team.accessLogs?${params.toString()}`,
+      token,
+    });
+
+    if (!data.ok) {
+      return { ok: false, error: data.error ?? 'unknown_error' };
+    }
+
+    for (const entry of data.logins ?? []) {
+      const previous = lastLogins.get(entry.user_id) ?? 0;
+      if (entry.date_last > previous) {
+        lastLogins.set(entry.user_id, entry.date_last);
+      }
+    }
+
+    const pages = data.paging?.pages ?? 1;
+    if (page >= pages) {
+      return { ok: true, lastLogins, nextPage: null, truncated: false };
+    }
+  }
+
+  return { ok: true, lastLogins, nextPage: null, truncated: true };
+}
+
+// ---------------------------------------------------------------------------
+// Last message (last resort — requires channels:read + channels:history)
+// ---------------------------------------------------------------------------
+
+export interface LastMessage {
+  /** Unix seconds */
+  ts: number;
+  channelId: string;
+  channelName: string | null;
+}
+
+/** Which of a guest's conversations the message-history search reads */
+export interface HistoryCoverage {
+  channelTypes: HistoryChannelType[];
+  /** Include Slack Connect channels shared with other organizations */
+  includeShared: boolean;
+}
+
+export interface MessageHistoryResult {
+  lastMessage: LastMessage | null;
+  /** Conversations whose history was read */
+  channelsChecked: number;
+  /** Conversations found but not readable (installer not a member, restricted, missing scope) */
+  channelsSkipped: number;
+  /** The guest is in more than AUDIT.HISTORY_MAX_CHANNELS conversations — the rest were not read */
+  truncated: boolean;
+  /** Stopped at `stopAt` before the search finished — the result is incomplete */
+  interrupted: boolean;
+}
+
+/**
+ * Lists every conversation of the given types the guest belongs to,
+ * following pagination up to AUDIT.HISTORY_MAX_CHANNELS.
+ * Returns null when Slack refuses the listing.
+ */
+async function getUserConversations(
+  token: string,
+  userId: string,
+  coverage: HistoryCoverage
+): Promise<{ channels: SlackChannel[]; truncated: boolean } | null> {
+  const channels: SlackChannel[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      user: userId,
+      types: coverage.channelTypes.join(','),
+      exclude_archived: 'true',
+      limit: String(AUDIT.HISTORY_CHANNELS_PAGE_SIZE),
+    });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    const data = await slackApiCall<UserConversationsResponse>({
+      endpoint: `users.conversations?${params.toString()}`,
+      token,
+    });
+
+    if (!data.ok) {
+      // missing_scope means the workspace must reinstall to grant the read scopes
+      if (data.error === 'missing_scope') {
+        logger.warn('users.conversations missing scope — ask workspace to reinstall', {
+          userId,
+          types: coverage.channelTypes,
+        });
+      } else {
+        logger.warn('users.conversations failed', { userId, error: data.error });
+      }
+      return null;
+    }
+
+    channels.push(
+      ...(data.channels ?? []).filter(channel => coverage.includeShared || !channel.is_ext_shared)
+    );
+    if (channels.length >= AUDIT.HISTORY_MAX_CHANNELS) {
+      const truncated = channels.length > AUDIT.HISTORY_MAX_CHANNELS || !!data.response_metadata?.next_cursor;
+      return { channels: channels.slice(0, AUDIT.HISTORY_MAX_CHANNELS), truncated };
+    }
+
+    cursor = data.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  return { channels, truncated: false };
+}
+
 /**
- * Returns the Unix timestamp (seconds) of the guest's most recent message
- * within the activity window, or null if none found.
+ * Returns the guest's most recent message found in their conversations,
+ * looking back up to AUDIT.LAST_SEEN_LOOKBACK_DAYS, plus how much of their
+ * conversations could actually be read. Stops at the first message inside
+ * the activity window (workspace policy, default 30 days) — only those count
+ * as activity; older ones are reported so admins can see when the guest
+ * last posted.
  *
- * Call this ONLY after profile and presence checks have failed to classify
- * the guest — it issues multiple API calls and can trigger rate limiting.
+ * Call this ONLY after cheaper checks have failed to classify the guest —
+ * it issues one API call per conversation (up to AUDIT.HISTORY_MAX_CHANNELS)
+ * and can trigger rate limiting. No call starts after `stopAt` (epoch ms).
  *
- * Requires OAuth scopes: channels:read, channels:history
+ * Requires the read + history scopes of each conversation type in
+ * `coverage` (see HISTORY_CHANNEL_SCOPES).
  */
-export async function getLastMessageTs(
+export async function getLastMessage(
   token: string,
-  userId: string
-): Promise<number | null> {
-  const cutoff = Math.floor(Date.now() / 1000) - AUDIT.ACTIVITY_WINDOW_SECONDS;
+  userId: string,
+  activityWindowDays: number = AUDIT.ACTIVITY_WINDOW_DAYS,
+  coverage: HistoryCoverage = { channelTypes: ['public_channel'], includeShared: true },
+  stopAt: number = Infinity
+): Promise<MessageHistoryResult> {
+  const result: MessageHistoryResult = {
+    lastMessage: null,
+    channelsChecked: 0,
+    channelsSkipped: 0,
+    truncated: false,
+    interrupted: false,
+  };
+  if (coverage.channelTypes.length === 0) return result;
 
-  // Step 1: Get the public channels this guest is in
-  const params = new URLSearchParams({
-    user: userId,
-    types: 'public_channel',
-    exclude_archived: 'true',
-    limit: String(AUDIT.HISTORY_CHANNELS_TO_CHECK),
-  });
+  const now = Math.floor(Date.now() / 1000);
+  const cutoff = now - activityWindowDays * 24 * 60 * 60;
+  const lookbackDays = Math.max(activityWindowDays, AUDIT.LAST_SEEN_LOOKBACK_DAYS);
 
-  const channelsData = await slackApiCall<UserConversationsResponse>({
-    endpoint: `users.conversations?${params.toString()}`,
-    token,
-  });
+  // Step 1: Get every conversation of the covered types this guest is in
+  const conversations = await getUserConversations(token, userId, coverage);
+  if (!conversations) return result;
+  result.truncated = conversations.truncated;
 
-  if (!channelsData.ok || !channelsData.channels?.length) {
-    // missing_scope means the app needs channels:read and users must reinstall
-    if (channelsData.error === 'missing_scope') {
-      logger.warn('users.conversations missing scope — add channels:read and ask workspace to reinstall', { userId });
-    } else {
-      logger.warn('users.conversations returned no channels', { userId, error: channelsData.error });
+  // Step 2: Scan history in each conversation for the user's latest message.
+  // Stop as soon as one falls inside the window — no need to exhaust the rest.
+  for (const [index, channel] of conversations.channels.entries()) {
+    if (Date.now() >= stopAt) {
+      result.interrupted = true;
+      return result;
     }
-    return null;
-  }
 
-  // Step 2: Scan history in each channel for a recent message from this user.
-  // Stop as soon as we find one — no need to exhaust all channels.
-  for (const channel of channelsData.channels as SlackChannel[]) {
     const histParams = new URLSearchParams({
       channel: channel.id,
-      oldest: String(cutoff),
+      oldest: String(now - lookbackDays * 24 * 60 * 60),
       limit: String(AUDIT.HISTORY_MESSAGES_LIMIT),
     });
 
@@ -276,22 +498,23 @@ export async function getLastMessageTs(
     });
 
     if (!histData.ok) {
-      // These errors mean we can't access this channel — skip and try the next one.
-      // not_in_channel: guest/admin not a member (normal for shared channels)
-      // channel_not_found: archived or deleted after channels:read fetched
+      // These errors mean we can't read this conversation — count it and try the next one.
+      // not_in_channel: the installer isn't a member (common for private and shared channels)
+      // channel_not_found: archived or deleted after the listing
       // restricted_action: Slack Connect channel with extra restrictions
-      const skipSilently = ['not_in_channel', 'channel_not_found', 'restricted_action'];
+      const expected = ['not_in_channel', 'channel_not_found', 'restricted_action'];
 
       if (histData.error === 'missing_scope') {
-        // Scope was added but token is from an old install — log once and bail entirely
-        logger.warn('conversations.history missing scope — add channels:history and ask workspace to reinstall', {
+        // Token is from an install without this history scope — the rest can't be read either
+        logger.warn('conversations.history missing scope — ask workspace to reinstall', {
           userId,
           channelId: channel.id,
         });
-        return null;
+        result.channelsSkipped += conversations.channels.length - index;
+        return result;
       }
 
-      if (!skipSilently.includes(histData.error ?? '')) {
+      if (!expected.includes(histData.error ?? '')) {
         logger.warn('conversations.history failed', {
           userId,
           channelId: channel.id,
@@ -299,18 +522,24 @@ export async function getLastMessageTs(
         });
       }
 
+      result.channelsSkipped++;
       continue;
     }
 
+    result.channelsChecked++;
     if (!histData.messages?.length) continue;
 
     const userMsg = histData.messages.find(m => m.user === userId && m.ts);
     if (userMsg?.ts) {
-      return parseFloat(userMsg.ts); // Found — stop searching
+      const ts = parseFloat(userMsg.ts);
+      if (!result.lastMessage || ts > result.lastMessage.ts) {
+        result.lastMessage = { ts, channelId: channel.id, channelName: channel.name ?? null };
+      }
+      if (ts > cutoff) return result; // Active inside the window — stop searching
     }
   }
 
-  return null;
+  return result;
 }
 
 // ---------------------------------------------------------------------------
@@ -319,7 +548,7 @@ export async function getLastMessageTs(
 
 /**
  * Opens a DM channel with a user and posts a Block Kit message.
- * Throws if the IM channel cannot be opened.
+ * Throws if the IM channel cannot be opened or the message is refused.
  */
 export async function sendDirectMessage(
   token: string,
@@ -339,23 +568,143 @@ export async function sendDirectMessage(
 
   const channelId = imData.channel.id;
 
-  return slackApiCall<ChatPostMessageResponse>({
+  const messageData = await slackApiCall<ChatPostMessageResponse>({
     endpoint: 'chat.postMessage',
     token,
     body: { channel: channelId, blocks, text: fallbackText },
   });
+
+  if (!messageData.ok) {
+    throw new Error(`chat.postMessage failed for user ${userId}: ${messageData.error}`);
+  }
+
+  return messageData;
+}
+
+// ---------------------------------------------------------------------------
+// Guest deactivation (Enterprise Grid — SCIM API)
+// ---------------------------------------------------------------------------
+
+export interface DeactivateUserResult {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * True when deactivateUser can work for the workspace: Enterprise Grid, and
+ * the installer granted the opt-in `admin` scope.
+ */
+export function canDeactivateViaScim(
+  workspace: Pick<Workspace, 'supports_user_deactivation' | 'granted_scopes'>
+): boolean {
+  return workspace.supports_user_deactivation && !!workspace.granted_scopes?.includes(SLACK_API.ADMIN_USER_SCOPE);
+}
+
+/**
+ * Deactivates a user through the SCIM API.
+ *
+ * Only works on Enterprise Grid with a token that holds the `admin` scope.
+ * Never throws — callers fall back to logging deactivation intent when
+ * `ok` is false.
+ *
+ * @see https://api.slack.com/admins/scim2
+ */
+export async function deactivateUser(
+  token: string,
+  userId: string
+): Promise<DeactivateUserResult> {
+  try {
+    const res = await fetch(`${SLACK_API.SCIM_BASE_URL}/Users/${encodeURIComponent(userId)}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (res.ok) {
+      return { ok: true };
+    }
+
+    // SCIM errors come back as { Errors: { description, code } }, not { ok, error }
+    const body = (await res.json().catch(() => ({}))) as ScimErrorResponse;
+    const error = body.Errors?.description ?? `http_${res.status}`;
+
+    logger.warn('SCIM user deactivation failed', { userId, status: res.status, error });
+    return { ok: false, error };
+  } catch (err) {
+    logger.error('SCIM user deactivation request errored', { userId }, err);
+    return { ok: false, error: 'network_error' };
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Block builders (single source of truth for message shapes)
 // ---------------------------------------------------------------------------
 
+export interface InactiveGuestBlockOptions {
+  /**
+   * True when the workspace can deactivate guests through the API
+   * (Enterprise Grid). Swaps the "log intent" button for a real
+   * deactivation button guarded by a confirm dialog.
+   */
+  canDeactivate?: boolean;
+  /** The workspace's policy window — defaults to AUDIT.ACTIVITY_WINDOW_DAYS */
+  activityWindowDays?: number;
+  /** Summary of the guest's last known activity, e.g. "last message 47 days ago in #proj-x" */
+  lastActivity?: string | null;
+  /**
+   * Login history was checked, so the guest didn't log in either — drops the
+   * caveat about guests who only read Slack.
+   */
+  loginsChecked?: boolean;
+  /** How the guest changed since the previous audit; omitted when there is none to compare with */
+  change?: GuestChange;
+  /** Date of the previous audit, e.g. "Oct 11" */
+  previousAuditDate?: string;
+}
+
+/** A flagged guest's change since the previous audit */
+export type GuestChange = 'newly_inactive' | 'invited' | 'still_inactive';
+
+/** Counts from an audit's diff against the previous audit */
+export interface AuditChangeSummary {
+  /** Date of the previous audit, e.g. "Oct 11" */
+  since: string;
+  newlyInactive: number;
+  reactivated: number;
+  removed: number;
+  invited: number;
+}
+
+const GUEST_CHANGE_TEXT: Record<GuestChange, string> = {
+  newly_inactive: 'newly inactive',
+  invited: 'new guest, already inactive',
+  still_inactive: 'also inactive at the previous audit',
+};
+
+/** e.g. "*What changed since Oct 11*\n• 3 newly inactive\n• 1 back to active" */
+function buildChangeSummaryText(changes: AuditChangeSummary): string {
+  const counts: Array<[number, string]> = [
+    [changes.newlyInactive, 'newly inactive'],
+    [changes.reactivated, 'back to active'],
+    [changes.removed, 'no longer in Slack'],
+    [changes.invited, 'newly invited'],
+  ];
+  const lines = counts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `• ${count} ${label}`);
+
+  return lines.length > 0
+    ? `*What changed since ${changes.since}*\n${lines.join('\n')}`
+    : `*What changed since ${changes.since}*\nNo changes.`;
+}
+
 /**
  * Builds the Block Kit message for an inactive guest alert DM.
  *
  * @param guestId            Slack user ID of the flagged guest.
  * @param costPerSeatMonthly Monthly seat cost in USD.
  * @param sponsorId          Slack user ID of the person who invited the guest, if known.
+ * @param options            Workspace capabilities that change the available actions,
+ *                           plus the guest's last known activity.
  *
  * The action_id values here MUST match SLACK_ACTION_ID constants —
  * the same constants used by the action route to identify button clicks.
@@ -363,9 +712,15 @@ export async function sendDirectMessage(
 export function buildInactiveGuestBlocks(
   guestId: string,
   costPerSeatMonthly: number,
-  sponsorId?: string | null
+  sponsorId?: string | null,
+  options: InactiveGuestBlockOptions = {}
 ): SlackBlock[] {
   const sponsorLine = sponsorId ? `\nOriginally invited by <@${sponsorId}>.` : '';
+  const windowDays = options.activityWindowDays ?? AUDIT.ACTIVITY_WINDOW_DAYS;
+  const lastActivityText = options.lastActivity ? ` (${options.lastActivity})` : '';
+  const changeLine = options.change && options.previousAuditDate
+    ? `\n_What changed since ${options.previousAuditDate}: ${GUEST_CHANGE_TEXT[options.change]}._`
+    : '';
 
   const costLine = costPerSeatMonthly > 0
     ? `Estimated cost: *$${costPerSeatMonthly}/month* ($${costPerSeatMonthly * 12}/year).`
@@ -378,19 +733,120 @@ export function buildInactiveGuestBlocks(
         type: 'mrkdwn',
         text:
           `*Inactive Guest Detected*\n` +
-          `<@${guestId}> shows no activity in the last ${AUDIT.ACTIVITY_WINDOW_DAYS} days.${sponsorLine}\n` +
-          costLine,
+          `<@${guestId}> shows no activity in the last ${windowDays} days${lastActivityText}.${sponsorLine}\n` +
+          costLine +
+          changeLine,
       },
     },
     {
       // Explain what "inactive" means so admins don't file false-positive complaints.
       // Guests who only read Slack (without messaging or updating their profile)
-      // will appear inactive — this is intentional, but admins should know.
+      // will appear inactive unless login history was checked — admins should know.
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: options.loginsChecked
+            ? '_Activity signals: messages sent, profile updates, presence and logins. This guest has not logged in during the window._'
+            : '_Activity signals: messages sent, profile updates, and presence. Guests who only read Slack without messaging may appear inactive — use your judgement before acting._',
+        },
+      ],
+    },
+    {
+      type: 'actions',
+      elements: buildGuestActionElements(guestId, options.canDeactivate ?? false),
+    },
+  ];
+}
+
+export interface DigestGuestRow {
+  guestId: string;
+  costPerSeatMonthly: number;
+  sponsorId: string | null;
+  lastActivity: string | null;
+  change?: GuestChange;
+}
+
+export interface DigestBlockOptions
+  extends Omit<InactiveGuestBlockOptions, 'lastActivity' | 'change' | 'previousAuditDate'> {
+  /** Total flagged guests in this audit — may exceed the rows listed */
+  totalFlagged: number;
+  /** Absolute URL of the dashboard for the "View all" button */
+  dashboardUrl: string;
+  /** Diff against the previous audit; omitted on a workspace's first audit */
+  changes?: AuditChangeSummary | null;
+}
+
+/**
+ * Builds the Block Kit message for a digest DM: one summary per audit with a
+ * row (and actions) per listed guest.
+ *
+ * Row action blocks carry block_id digest_<guestId> so the action handler
+ * answers with a new message instead of replacing the whole digest.
+ */
+export function buildDigestBlocks(
+  rows: DigestGuestRow[],
+  options: DigestBlockOptions
+): SlackBlock[] {
+  const windowDays = options.activityWindowDays ?? AUDIT.ACTIVITY_WINDOW_DAYS;
+  const monthlyCost = rows.reduce((sum, row) => sum + row.costPerSeatMonthly, 0);
+  const plural = options.totalFlagged === 1 ? '' : 's';
+
+  const blocks: SlackBlock[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text:
+          `*Guest Audit Digest*\n` +
+          `${options.totalFlagged} guest${plural} showed no activity in the last ${windowDays} days.\n` +
+          `The guests below cost an estimated *$${monthlyCost}/month*.`,
+      },
+    },
+  ];
+
+  if (options.changes) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: buildChangeSummaryText(options.changes) },
+    });
+  }
+
+  for (const row of rows) {
+    const sponsorText = row.sponsorId ? ` · invited by <@${row.sponsorId}>` : '';
+    const changeText = row.change === 'newly_inactive' || row.change === 'invited'
+      ? ` · _${GUEST_CHANGE_TEXT[row.change]}_`
+      : '';
+    const activityText = row.lastActivity ? `\n_${row.lastActivity}_` : '';
+    blocks.push(
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `<@${row.guestId}> — *$${row.costPerSeatMonthly}/month*${sponsorText}${changeText}${activityText}`,
+        },
+      },
+      {
+        type: 'actions',
+        block_id: `${DIGEST_BLOCK_ID_PREFIX}${row.guestId}`,
+        elements: buildGuestActionElements(row.guestId, options.canDeactivate ?? false),
+      }
+    );
+  }
+
+  const hiddenCount = options.totalFlagged - rows.length;
+  const readOnlyCaveat = options.loginsChecked ? '' : ' Guests who only read Slack may appear inactive.';
+  blocks.push(
+    {
       type: 'context',
       elements: [
         {
           type: 'mrkdwn',
-          text: '_Activity signals: messages sent, profile updates, and presence. Guests who only read Slack without messaging may appear inactive — use your judgement before acting._',
+          text: hiddenCount > 0
+            ? `_Showing the ${rows.length} most expensive of ${options.totalFlagged} flagged guests.${readOnlyCaveat}_`
+            : options.loginsChecked
+              ? '_None of these guests logged in during the window._'
+              : '_Guests who only read Slack without messaging may appear inactive — use your judgement before acting._',
         },
       ],
     },
@@ -399,22 +855,384 @@ export function buildInactiveGuestBlocks(
       elements: [
         {
           type: 'button',
-          text: { type: 'plain_text', text: 'Log Deactivation Intent' },
-          style: 'danger',
-          value: `deactivate_${guestId}`,
-          action_id: SLACK_ACTION_ID.DEACTIVATE_GUEST,
+          text: { type: 'plain_text', text: 'View all in dashboard' },
+          value: 'open_dashboard',
+          url: options.dashboardUrl,
+          action_id: SLACK_ACTION_ID.OPEN_DASHBOARD,
+        },
+      ],
+    }
+  );
+
+  return blocks;
+}
+
+export interface ExpirationAlertRow {
+  guestId: string;
+  /** Null when the guest account has no expiration */
+  expiresAt: string | null;
+}
+
+export interface ExpirationAlertOptions {
+  /** The policy's maximum guest expiration, in days from now */
+  maxDays: number;
+  /** Guests failing the policy in this audit — may exceed the rows listed */
+  total: number;
+  /** Absolute URL of the dashboard for the "View all" button */
+  dashboardUrl: string;
+}
+
+/**
+ * Builds the DM listing multi-channel guests that fail the expiration
+ * policy: no account expiration, or one more than `maxDays` out.
+ */
+export function buildExpirationAlertBlocks(
+  rows: ExpirationAlertRow[],
+  options: ExpirationAlertOptions
+): SlackBlock[] {
+  const plural = options.total === 1 ? '' : 's';
+  const lines = rows.map(row => {
+    const expiration = row.expiresAt
+      ? `expires ${new Date(row.expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`
+      : 'no expiration set';
+    return `• <@${row.guestId}> — ${expiration}`;
+  });
+  const hiddenCount = options.total - rows.length;
+
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text:
+          `*Guest Expiration Check*\n` +
+          `${options.total} multi-channel guest${plural} ${options.total === 1 ? 'has' : 'have'} no account expiration ` +
+          `or one more than ${options.maxDays} days away.`,
+      },
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: lines.join('\n') },
+    },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: hiddenCount > 0
+            ? `_Showing ${rows.length} of ${options.total} guests. Set expirations from the guest's profile in Slack admin._`
+            : `_Set expirations from the guest's profile in Slack admin._`,
+        },
+      ],
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'View all in dashboard' },
+          value: 'open_dashboard',
+          url: options.dashboardUrl,
+          action_id: SLACK_ACTION_ID.OPEN_DASHBOARD,
+        },
+      ],
+    },
+  ];
+}
+
+export interface OrphanedGuestRow {
+  guestId: string;
+  /** The deactivated sponsor who invited the guest */
+  formerSponsorId: string;
+}
+
+/**
+ * Builds the DM listing guests whose sponsor was deactivated. Each row has
+ * a user picker to reassign the guest's sponsor (block_id orphan_<guestId>).
+ * `total` may exceed the rows listed.
+ */
+export function buildOrphanedGuestsBlocks(rows: OrphanedGuestRow[], total: number): SlackBlock[] {
+  const plural = total === 1 ? '' : 's';
+  const hiddenCount = total - rows.length;
+
+  const blocks: SlackBlock[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text:
+          `*Guests Without a Sponsor*\n` +
+          `${total} guest${plural} ${total === 1 ? 'was' : 'were'} invited by someone who has left the workspace. ` +
+          `Pick a new sponsor so someone can vouch for their access.`,
+      },
+    },
+    { type: 'divider' },
+  ];
+
+  for (const row of rows) {
+    blocks.push({
+      type: 'section',
+      block_id: `${ORPHAN_BLOCK_ID_PREFIX}${row.guestId}`,
+      text: { type: 'mrkdwn', text: `<@${row.guestId}> — invited by <@${row.formerSponsorId}>` },
+      accessory: {
+        type: 'users_select',
+        action_id: SLACK_ACTION_ID.REASSIGN_SPONSOR,
+        placeholder: { type: 'plain_text', text: 'Reassign sponsor…' },
+      },
+    });
+  }
+
+  if (hiddenCount > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `_Showing ${rows.length} of ${total} guests. The rest are listed again after the next audit._` }],
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Builds the DM asking a guest's sponsor whether the guest still needs access.
+ * Admins are only alerted if the sponsor picks Remove or doesn't answer
+ * within `escalationDays`.
+ */
+export function buildSponsorCheckBlocks(
+  guestId: string,
+  activityWindowDays: number,
+  escalationDays: number
+): SlackBlock[] {
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text:
+          `*Does <@${guestId}> still need access?*\n` +
+          `You invited <@${guestId}>, who shows no activity in the last ${activityWindowDays} days. ` +
+          `If you don't answer within ${escalationDays} day${escalationDays === 1 ? '' : 's'}, your workspace admins will review their access.`,
+      },
+    },
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'Keep' },
+          style: 'primary',
+          value: `keep_${guestId}`,
+          action_id: SLACK_ACTION_ID.SPONSOR_KEEP_GUEST,
         },
         {
           type: 'button',
-          text: { type: 'plain_text', text: 'Ignore' },
-          value: `ignore_${guestId}`,
-          action_id: SLACK_ACTION_ID.IGNORE_GUEST,
+          text: { type: 'plain_text', text: 'Remove' },
+          style: 'danger',
+          value: `remove_${guestId}`,
+          action_id: SLACK_ACTION_ID.SPONSOR_REMOVE_GUEST,
         },
       ],
     },
   ];
 }
 
+/**
+ * Deactivate button + snooze menu for one guest.
+ * Shared by every message that lets an admin act on a flagged guest.
+ */
+export function buildGuestActionElements(
+  guestId: string,
+  canDeactivate: boolean
+): Array<SlackButtonElement | SlackStaticSelectElement> {
+  return [buildDeactivateButton(guestId, canDeactivate), buildSnoozeMenu(guestId)];
+}
+
+/**
+ * Option values encode the duration and the guest: snooze_<key>_<guestId>.
+ * Parsed by SlackActionService.
+ */
+function buildSnoozeMenu(guestId: string): SlackStaticSelectElement {
+  return {
+    type: 'static_select',
+    action_id: SLACK_ACTION_ID.IGNORE_GUEST,
+    placeholder: { type: 'plain_text', text: 'Snooze alerts…' },
+    options: Object.entries(SNOOZE_DURATION).map(([key, duration]) => ({
+      text: { type: 'plain_text', text: duration.label },
+      value: `snooze_${key}_${guestId}`,
+    })),
+  };
+}
+
+function buildDeactivateButton(guestId: string, canDeactivate: boolean): SlackButtonElement {
+  if (!canDeactivate) {
+    return {
+      type: 'button',
+      text: { type: 'plain_text', text: 'Log Deactivation Intent' },
+      style: 'danger',
+      value: `deactivate_${guestId}`,
+      action_id: SLACK_ACTION_ID.DEACTIVATE_GUEST,
+    };
+  }
+
+  return {
+    type: 'button',
+    text: { type: 'plain_text', text: 'Deactivate Guest' },
+    style: 'danger',
+    value: `deactivate_${guestId}`,
+    action_id: SLACK_ACTION_ID.DEACTIVATE_GUEST,
+    confirm: {
+      title: { type: 'plain_text', text: 'Deactivate guest?' },
+      text: {
+        type: 'mrkdwn',
+        text: `<@${guestId}> will be deactivated immediately and lose access to every channel. This cannot be undone from Slack Guest Sentinel.`,
+      },
+      confirm: { type: 'plain_text', text: 'Deactivate' },
+      deny: { type: 'plain_text', text: 'Cancel' },
+      style: 'danger',
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// App Home (bot token only)
+// ---------------------------------------------------------------------------
+
+/**
+ * Publishes the App Home tab for one user. Requires the workspace's bot
+ * token — views.publish rejects user tokens.
+ */
+export async function publishHomeView(
+  botToken: string,
+  userId: string,
+  blocks: SlackBlock[]
+): Promise<SlackBaseResponse> {
+  return slackApiCall<SlackBaseResponse>({
+    endpoint: 'views.publish',
+    token: botToken,
+    body: { user_id: userId, view: { type: 'home', blocks } },
+  });
+}
+
+export interface AppHomeGuestRow {
+  guestId: string;
+  costPerSeatMonthly: number;
+  /** Short status shown next to the guest, e.g. "Snoozed until Nov 1, 2026" */
+  note: string | null;
+}
+
+export interface AppHomeSnapshot {
+  guestCount: number;
+  inactiveCount: number;
+  exemptCount: number;
+  estimatedWasteMonthly: number;
+  auditedAt: string;
+}
+
+export interface AppHomeViewInput {
+  /** e.g. "Growth (trialing)" */
+  planLabel: string;
+  backgroundAuditsEnabled: boolean;
+  /** e.g. "Weekly on Sunday at 00:00 (UTC)"; null when background audits are paused */
+  auditSchedule: string | null;
+  latestRun: AppHomeSnapshot | null;
+  guests: AppHomeGuestRow[];
+  totalFlagged: number;
+  canDeactivate: boolean;
+  dashboardUrl: string;
+}
+
+/**
+ * Builds the App Home tab for an alert recipient: plan status, the latest
+ * audit snapshot and the costliest flagged guests with the same actions as
+ * the DM alerts (handled by SlackActionService).
+ */
+export function buildAppHomeBlocks(input: AppHomeViewInput): SlackBlock[] {
+  const planLine = input.backgroundAuditsEnabled
+    ? `*Plan:* ${input.planLabel}` + (input.auditSchedule ? ` · Audits: ${input.auditSchedule}` : '')
+    : `*Plan:* ${input.planLabel} — background audits and alerts are paused. Upgrade from the dashboard.`;
+
+  const snapshotText = input.latestRun
+    ? `*Last audit:* ${new Date(input.latestRun.auditedAt).toUTCString()}\n` +
+      `${input.latestRun.guestCount} guests · ${input.latestRun.inactiveCount} inactive · ` +
+      `${input.latestRun.exemptCount} exempt · *$${input.latestRun.estimatedWasteMonthly}/month* estimated waste`
+    : input.auditSchedule
+      ? '*Last audit:* none yet. The first audit runs within the hour.'
+      : '*Last audit:* none yet. Run one from the dashboard.';
+
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: 'Guest Health' } },
+    { type: 'section', text: { type: 'mrkdwn', text: planLine } },
+    { type: 'section', text: { type: 'mrkdwn', text: snapshotText } },
+    { type: 'divider' },
+  ];
+
+  if (input.guests.length === 0) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: 'No flagged guests. :tada:' },
+    });
+  } else {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*Flagged guests (${input.totalFlagged})*` },
+    });
+
+    for (const row of input.guests) {
+      const note = row.note ? ` · _${row.note}_` : '';
+      blocks.push(
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `<@${row.guestId}> — *$${row.costPerSeatMonthly}/month*${note}` },
+        },
+        {
+          type: 'actions',
+          elements: buildGuestActionElements(row.guestId, input.canDeactivate),
+        }
+      );
+    }
+
+    if (input.totalFlagged > input.guests.length) {
+      blocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `_Showing the ${input.guests.length} most expensive of ${input.totalFlagged} flagged guests._`,
+          },
+        ],
+      });
+    }
+  }
+
+  blocks.push({
+    type: 'actions',
+    elements: [
+      {
+        type: 'button',
+        text: { type: 'plain_text', text: 'Open dashboard' },
+        value: 'open_dashboard',
+        url: input.dashboardUrl,
+        action_id: SLACK_ACTION_ID.OPEN_DASHBOARD,
+      },
+    ],
+  });
+
+  return blocks;
+}
+
+/** App Home for members who don't receive alerts — no guest data. */
+export function buildAppHomeRestrictedBlocks(): SlackBlock[] {
+  return [
+    { type: 'header', text: { type: 'plain_text', text: 'Slack Guest Sentinel' } },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: 'Slack Guest Sentinel helps your workspace admins find inactive guest accounts. Guest details are only visible to the admins who receive its alerts.',
+      },
+    },
+  ];
+}
+
 // ---------------------------------------------------------------------------
 // Token Refresh
 // ---------------------------------------------------------------------------
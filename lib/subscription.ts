@@ -1,29 +1,42 @@
 import { WorkspacePlanType } from '@/types/database.types';
 
-export const PLAN_LIMITS = {
+/** How often background audits run; null = no background audits */
+export type AuditFrequency = 'daily' | 'weekly';
+
+export const PLAN_LIMITS: Record<WorkspacePlanType, {
+    maxGuests: number;
+    canRunCron: boolean;
+    canSendAlerts: boolean;
+    minHoursBetweenScans: number;
+    auditFrequency: AuditFrequency | null;
+}> = {
     free: {
         maxGuests: Infinity, // No block on scans, but cron disabled 
         canRunCron: false,
         canSendAlerts: false,
         minHoursBetweenScans: 24,
+        auditFrequency: null,
     },
     starter: {
         maxGuests: 500,
         canRunCron: true,
         canSendAlerts: true,
         minHoursBetweenScans: 0, // No scanning limit, always allowed
+        auditFrequency: 'weekly',
     },
     growth: {
         maxGuests: 5000,
         canRunCron: true,
         canSendAlerts: true,
         minHoursBetweenScans: 0,
+        auditFrequency: 'daily',
     },
     scale: {
         maxGuests: Infinity,
         canRunCron: true,
         canSendAlerts: true,
         minHoursBetweenScans: 0,
+        auditFrequency: 'daily',
     },
 };
 
@@ -71,6 +84,19 @@ export function canRunBackgroundAudit(
     }
 
     // 2. Does the workspace exceed the tier limit?
+    return checkGuestLimit(planType, totalMembers);
+}
+
+/**
+ * Validates the workspace's guest count against its plan's tier limit.
+ * Applies to both background audits and on-demand manual audits.
+ */
+export function checkGuestLimit(
+    planType: WorkspacePlanType,
+    totalMembers: number
+): { allowed: boolean; reason?: string; requiresUpgrade?: boolean } {
+    const limits = PLAN_LIMITS[planType];
+
     if (totalMembers > limits.maxGuests) {
         return {
             allowed: false,
@@ -0,0 +1,135 @@
+import { ACCESS_LOGS, AUDIT, SLACK_API } from '@/config/constants';
+import { getAccessLogs } from '@/lib/slack';
+import { formatUnixDate } from '@/lib/activity';
+import { logger } from '@/lib/logger';
+import type { ActivitySignal, SignalContext, SignalLoadResult } from '@/services/activity-signals/types';
+
+/** Errors that just mean the workspace can't use access logs — not worth a warning */
+const EXPECTED_ERRORS = ['paid_only', 'missing_scope', 'not_allowed_token_type'];
+
+/**
+ * The login table load() builds — plain JSON, so a queued audit can store
+ * it. `nextPage` is set while pages remain to be read.
+ */
+type AccessLogsData =
+  | { ok: true; lastLogins: Record<string, number>; nextPage?: number }
+  | { ok: false; reason: string };
+
+function isComplete(logs: AccessLogsData): boolean {
+  return !logs.ok || logs.nextPage === undefined;
+}
+
+/** Reads up to PAGES_PER_SLICE pages of the login history, carrying on from `previous` */
+async function loadAccessLogs(context: SignalContext, previous?: unknown): Promise<SignalLoadResult> {
+  const { workspaceId, token, grantedScopes, deadline } = context;
+  const saved = previous as AccessLogsData | undefined;
+  if (saved && isComplete(saved)) {
+    return { data: saved, done: true };
+  }
+
+  if (grantedScopes && !grantedScopes.includes(SLACK_API.ADMIN_USER_SCOPE)) {
+    return { data: { ok: false, reason: 'admin scope not granted' }, done: true };
+  }
+
+  const logs = await getAccessLogs(token, {
+    fromPage: saved?.ok ? saved.nextPage : 1,
+    maxPages: ACCESS_LOGS.PAGES_PER_SLICE,
+    stopAt: deadline,
+  });
+  if (!logs.ok) {
+    if (EXPECTED_ERRORS.includes(logs.error)) {
+      logger.info('Access logs unavailable — scoring without logins', { workspaceId, error: logs.error });
+    } else {
+      logger.warn('team.accessLogs failed — scoring without logins', { workspaceId, error: logs.error });
+    }
+    return { data: { ok: false, reason: logs.error === 'paid_only' ? 'paid Slack plans only' : logs.error }, done: true };
+  }
+
+  // Newer logins push entries onto later pages between slices — one read twice keeps its latest login
+  const lastLogins = { ...(saved?.ok ? saved.lastLogins : {}) };
+  for (const [userId, lastLoginAt] of logs.lastLogins) {
+    if (lastLoginAt > (lastLogins[userId] ?? 0)) {
+      lastLogins[userId] = lastLoginAt;
+    }
+  }
+
+  if (logs.nextPage !== null) {
+    return { data: { ok: true, lastLogins, nextPage: logs.nextPage }, done: false };
+  }
+
+  if (logs.truncated) {
+    logger.warn('Access logs truncated — oldest logins not read', { workspaceId });
+  }
+
+  return { data: { ok: true, lastLogins }, done: true };
+}
+
+/**
+ * Last login from team.accessLogs — free per guest, the workspace's login
+ * history is read once per audit (once per job for queued audits, over as
+ * many slices as it takes). The only
+ * signal that sees guests who read Slack but never post. Needs the `admin`
+ * scope and a paid Slack plan; elsewhere it reports itself unchecked and
+ * adds nothing. Guest lookups read the login from the guest's last audit
+ * rather than the whole log.
+ */
+export const accessLogsSignal: ActivitySignal = {
+  id: 'access_logs',
+  costTier: 'free',
+  defaultWeight: AUDIT.SCORE_ACCESS_LOG,
+  label: 'Logged in',
+  hint: 'Free — login history (paid Slack plans only)',
+
+  load: loadAccessLogs,
+
+  async prepare(context, loaded) {
+    let logs = loaded as AccessLogsData | undefined;
+    // Every call reads at least one page, so this ends
+    while (!logs || !isComplete(logs)) {
+      logs = (await loadAccessLogs(context, logs)).data as AccessLogsData;
+    }
+
+    if (!logs.ok) {
+      return async () => ({
+        matched: false,
+        lastActivityAt: null,
+        detail: `login history unavailable (${logs.reason})`,
+        results: { login: { checked: false, matched: false, lastLoginAt: null } },
+      });
+    }
+
+    return async guest => {
+      const lastLoginAt = logs.lastLogins[guest.id] ?? null;
+      const matched = lastLoginAt !== null && lastLoginAt > context.cutoff;
+
+      return {
+        matched,
+        lastActivityAt: lastLoginAt,
+        detail: lastLoginAt ? `last login ${formatUnixDate(lastLoginAt)}` : 'no login recorded',
+        results: { login: { checked: true, matched, lastLoginAt } },
+      };
+    };
+  },
+
+  fromLastAudit({ login }, cutoff) {
+    if (!login?.checked) {
+      return {
+        matched: false,
+        lastActivityAt: null,
+        detail: 'login history not read by the last audit',
+        results: { login: { checked: false, matched: false, lastLoginAt: null } },
+      };
+    }
+
+    const { lastLoginAt } = login;
+    const matched = lastLoginAt !== null && lastLoginAt > cutoff;
+    return {
+      matched,
+      lastActivityAt: lastLoginAt,
+      detail: lastLoginAt
+        ? `last login ${formatUnixDate(lastLoginAt)} (as of the last audit)`
+        : 'no login recorded by the last audit',
+      results: { login: { checked: true, matched, lastLoginAt } },
+    };
+  },
+};
@@ -0,0 +1,42 @@
+import { AUDIT } from '@/config/constants';
+import { formatUnixDate } from '@/lib/activity';
+import { guestActivityService } from '@/services/guest-activity.service';
+import type { ActivitySignal } from '@/services/activity-signals/types';
+
+/**
+ * Activity seen via Slack events — free, guest_activity is loaded once per
+ * audit. A message, reaction or profile change inside the window is as
+ * strong as a message found in history.
+ */
+export const eventActivitySignal: ActivitySignal = {
+  id: 'event_activity',
+  costTier: 'free',
+  defaultWeight: AUDIT.SCORE_EVENT_ACTIVITY,
+  label: 'Seen in real time',
+  hint: 'Free — messages, reactions and profile changes from Slack events',
+
+  async prepare({ workspaceId, cutoff }) {
+    const activityMap = await guestActivityService.getLastActivity(workspaceId);
+
+    return async guest => {
+      const activity = activityMap.get(guest.id);
+      const matched = !!activity && activity.at > cutoff;
+
+      return {
+        matched,
+        lastActivityAt: activity?.at ?? null,
+        detail: activity
+          ? `last seen ${formatUnixDate(activity.at)} (${activity.type.replace('_', ' ')} event)`
+          : 'no activity seen via Slack events',
+        results: {
+          event: {
+            checked: true,
+            matched,
+            lastActivityAt: activity?.at ?? null,
+            activityType: activity?.type ?? null,
+          },
+        },
+      };
+    };
+  },
+};
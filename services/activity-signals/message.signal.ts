@@ -0,0 +1,51 @@
+import { AUDIT } from '@/config/constants';
+import { getLastMessage } from '@/lib/slack';
+import { describeHistoryCoverage, formatUnixDate } from '@/lib/activity';
+import type { ActivitySignal } from '@/services/activity-signals/types';
+
+/**
+ * Last message in the guest's conversations — expensive, one API call per
+ * conversation (up to AUDIT.HISTORY_MAX_CHANNELS), so it runs last. The most
+ * reliable signal, but needs the read + history scopes of each conversation
+ * type covered. A search cut short by the slice deadline is redone next slice.
+ */
+export const messageSignal: ActivitySignal = {
+  id: 'message',
+  costTier: 'expensive',
+  defaultWeight: AUDIT.SCORE_LAST_MESSAGE,
+  label: 'Sent a message',
+  hint: 'Expensive — checks recent conversation history',
+
+  async prepare({ token, policy, historyCoverage, cutoff, deadline }) {
+    return async guest => {
+      // May return a message older than the window — recorded, but not scored
+      const history = await getLastMessage(token, guest.id, policy.activityWindowDays, historyCoverage.coverage, deadline);
+      const { lastMessage } = history;
+      const matched = lastMessage !== null && lastMessage.ts > cutoff;
+      // Only worth noting when the guest is still unproven
+      const coverageNote = matched ? null : describeHistoryCoverage(history, historyCoverage.uncoveredTypes);
+
+      const found = lastMessage
+        ? `last message ${formatUnixDate(lastMessage.ts)} in <#${lastMessage.channelId}>`
+        : 'no message found in the conversations checked';
+
+      return {
+        matched,
+        // A message inside the window settles it, even if the search was cut short
+        interrupted: history.interrupted && !matched,
+        lastActivityAt: lastMessage?.ts ?? null,
+        detail: coverageNote ? `${found} (${coverageNote})` : found,
+        results: {
+          message: {
+            checked: true,
+            matched,
+            ts: lastMessage?.ts ?? null,
+            channelId: lastMessage?.channelId ?? null,
+            channelName: lastMessage?.channelName ?? null,
+            coverageNote,
+          },
+        },
+      };
+    };
+  },
+};
@@ -0,0 +1,33 @@
+import { AUDIT } from '@/config/constants';
+import { getUserPresence } from '@/lib/slack';
+import type { ActivitySignal } from '@/services/activity-signals/types';
+
+/**
+ * Current presence — cheap, 1 API call per guest.
+ *
+ * Unreliable alone (Slack keepalive, mobile background, bots), so its
+ * default weight of 0.5 can't classify a guest as active by itself.
+ * Presence + profile is the only default combination that reaches the
+ * threshold without a message check.
+ */
+export const presenceSignal: ActivitySignal = {
+  id: 'presence',
+  costTier: 'cheap',
+  defaultWeight: AUDIT.SCORE_PRESENCE_ACTIVE,
+  label: 'Currently active',
+  hint: 'Cheap — 1 API call per guest',
+
+  async prepare({ token }) {
+    return async guest => {
+      const presence = await getUserPresence(token, guest.id);
+      const matched = presence === 'active';
+
+      return {
+        matched,
+        lastActivityAt: matched ? Math.floor(Date.now() / 1000) : null,
+        detail: `currently ${presence}`,
+        results: { presence: { checked: true, matched, presence } },
+      };
+    };
+  },
+};
@@ -0,0 +1,26 @@
+import { AUDIT } from '@/config/constants';
+import { formatUnixDate } from '@/lib/activity';
+import type { ActivitySignal } from '@/services/activity-signals/types';
+
+/** Profile update — free, `updated` is already in the users.list response */
+export const profileSignal: ActivitySignal = {
+  id: 'profile',
+  costTier: 'free',
+  defaultWeight: AUDIT.SCORE_PROFILE_UPDATED,
+  label: 'Profile updated',
+  hint: 'Free — read from the guest list',
+
+  async prepare({ cutoff }) {
+    return async guest => {
+      const updatedAt = guest.updated || null;
+      const matched = !!updatedAt && updatedAt > cutoff;
+
+      return {
+        matched,
+        lastActivityAt: updatedAt,
+        detail: updatedAt ? `profile updated ${formatUnixDate(updatedAt)}` : 'no profile update recorded',
+        results: { profile: { checked: true, matched, updatedAt } },
+      };
+    };
+  },
+};
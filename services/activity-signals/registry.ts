@@ -0,0 +1,47 @@
+/**
+ * Activity signal registry.
+ *
+ * To add a signal: implement ActivitySignal in its own file, add its ID to
+ * ActivitySignalId / ACTIVITY_SIGNAL and register it here. Workspaces turn
+ * it on from their inactivity policy — the audit loop doesn't change.
+ */
+
+import { profileSignal } from '@/services/activity-signals/profile.signal';
+import { eventActivitySignal } from '@/services/activity-signals/event-activity.signal';
+import { accessLogsSignal } from '@/services/activity-signals/access-logs.signal';
+import { presenceSignal } from '@/services/activity-signals/presence.signal';
+import { messageSignal } from '@/services/activity-signals/message.signal';
+import type { ActivitySignalId, GuestSignalResults } from '@/types/database.types';
+import type { SlackUser } from '@/types/slack.types';
+import type { ActivitySignal, SignalCostTier } from '@/services/activity-signals/types';
+
+const COST_TIER_ORDER: Record<SignalCostTier, number> = { free: 0, cheap: 1, expensive: 2 };
+
+/** Every known signal, cheapest first (registration order within a tier) */
+export const ACTIVITY_SIGNALS: ActivitySignal[] = [
+  profileSignal,
+  eventActivitySignal,
+  accessLogsSignal,
+  presenceSignal,
+  messageSignal,
+].sort((a, b) => COST_TIER_ORDER[a.costTier] - COST_TIER_ORDER[b.costTier]);
+
+/** The enabled signals in evaluation order */
+export function getEnabledSignals(enabledSignals: ActivitySignalId[]): ActivitySignal[] {
+  const enabled = new Set(enabledSignals);
+  return ACTIVITY_SIGNALS.filter(signal => enabled.has(signal.id));
+}
+
+/**
+ * signal_results before any signal runs. The profile timestamp is recorded
+ * even when the profile signal is off — it's free and feeds last_seen_at.
+ */
+export function emptySignalResults(guest: SlackUser): GuestSignalResults {
+  return {
+    profile: { checked: false, matched: false, updatedAt: guest.updated || null },
+    presence: { checked: false, matched: false, presence: null },
+    message: { checked: false, matched: false, ts: null, channelId: null, channelName: null },
+    event: { checked: false, matched: false, lastActivityAt: null, activityType: null },
+    login: { checked: false, matched: false, lastLoginAt: null },
+  };
+}
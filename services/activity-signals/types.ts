@@ -0,0 +1,87 @@
+/**
+ * Activity signal provider contract.
+ *
+ * Each signal is one way of proving a guest is still active. The audit walks
+ * the workspace's enabled signals cheapest-first and stops as soon as the
+ * guest's score reaches the policy threshold, so expensive signals only run
+ * for guests the cheap ones couldn't clear.
+ */
+
+import type { EffectiveAuditPolicy, ResolvedHistoryCoverage } from '@/services/policy.service';
+import type { ActivitySignalId, GuestSignalResults } from '@/types/database.types';
+import type { SlackUser } from '@/types/slack.types';
+
+/** Evaluation order — every free signal runs before any cheap one, and so on */
+export type SignalCostTier = 'free' | 'cheap' | 'expensive';
+
+/** Workspace-level inputs shared by every signal in one audit */
+export interface SignalContext {
+  workspaceId: string;
+  token: string;
+  policy: EffectiveAuditPolicy;
+  historyCoverage: ResolvedHistoryCoverage;
+  /** User scopes granted at install; null for installs that predate tracking */
+  grantedScopes: string[] | null;
+  /** Activity older than this (Unix seconds) doesn't count */
+  cutoff: number;
+  /**
+   * Epoch ms when a queued audit's slice must stop: slow signals check it
+   * between Slack calls and leave the rest to the next slice. Infinity for
+   * audits that run in one go.
+   */
+  deadline: number;
+}
+
+export interface SignalEvidence {
+  /** True when the signal saw activity inside the window — adds its weight */
+  matched: boolean;
+  /** Newest activity the signal saw, even outside the window (Unix seconds) */
+  lastActivityAt: number | null;
+  /** Human-readable evidence, e.g. "last message Oct 2, 2026 in <#C123>" */
+  detail: string;
+  /** Merged into guest_audits.signal_results */
+  results: Partial<GuestSignalResults>;
+  /** The deadline passed before the signal finished — the guest is scored again next slice */
+  interrupted?: boolean;
+}
+
+export type SignalEvaluator = (guest: SlackUser) => Promise<SignalEvidence>;
+
+/** What each signal's load() returned, by signal ID — stored on queued audit jobs as JSON */
+export type SignalData = Partial<Record<ActivitySignalId, unknown>>;
+
+export interface SignalLoadResult {
+  /** Plain JSON, complete or not */
+  data: unknown;
+  /** False when load() stopped early — call it again with `data` to carry on */
+  done: boolean;
+}
+
+export interface ActivitySignal {
+  id: ActivitySignalId;
+  costTier: SignalCostTier;
+  /** Weight used when the workspace hasn't saved a policy */
+  defaultWeight: number;
+  /** Shown in the dashboard policy form */
+  label: string;
+  hint: string;
+  /**
+   * Set by signals that crawl workspace-wide data from Slack (e.g. the whole
+   * login history). A queued audit stores the data on the job and hands it
+   * to prepare() on every slice. A crawl too long for one slice stops early
+   * and resumes from `previous`; given complete data, load() returns it as is.
+   */
+  load?(context: SignalContext, previous?: unknown): Promise<SignalLoadResult>;
+  /**
+   * Loads whatever else the signal needs once per audit (e.g. a table of
+   * tracked activity) and returns the per-guest evaluator. `loaded` is what
+   * load() returned, for signals that define it.
+   */
+  prepare(context: SignalContext, loaded?: unknown): Promise<SignalEvaluator>;
+  /**
+   * Set by signals whose prepare() reads workspace-wide data (e.g. the whole
+   * login history). Single-guest lookups skip prepare() and rebuild the
+   * evidence from the guest's last audit with this instead.
+   */
+  fromLastAudit?(results: GuestSignalResults, cutoff: number): SignalEvidence;
+}
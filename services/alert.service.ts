@@ -0,0 +1,326 @@
+/**
+ * AlertService — delivers inactive-guest alerts to a workspace's admins.
+ *
+ * Two delivery modes (workspaces.alert_mode):
+ *   - per_guest: one DM per inactive guest per recipient
+ *   - digest:    one DM per recipient per audit listing the costliest guests
+ *
+ * sendAlerts never throws — a failed DM must not fail the audit that produced it.
+ * It reports how many DMs went out and how many failed instead.
+ */
+
+import { supabase } from '@/lib/db';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+import {
+  canDeactivateViaScim,
+  sendDirectMessage,
+  buildInactiveGuestBlocks,
+  buildDigestBlocks,
+  buildExpirationAlertBlocks,
+  buildOrphanedGuestsBlocks,
+} from '@/lib/slack';
+import type { AuditChangeSummary, ExpirationAlertRow, GuestChange, OrphanedGuestRow } from '@/lib/slack';
+import { ALERT_MODE, AUDIT, WORKSPACE_EVENT_TYPE } from '@/config/constants';
+import type { AlertMode, AuditRunChanges, Workspace } from '@/types/database.types';
+import type { SlackBlock } from '@/types/slack.types';
+
+export interface AlertSettings {
+  alertMode: AlertMode;
+  /** Ask the guest's sponsor before alerting admins */
+  sponsorEscalationEnabled: boolean;
+  /** Days to wait for the sponsor before escalating to admins */
+  sponsorEscalationDays: number;
+}
+
+/** DMs delivered and refused — one per recipient per message */
+export interface DmDeliveryStats {
+  sent: number;
+  failed: number;
+}
+
+export interface GuestAlert {
+  guestId: string;
+  /** Monthly seat cost in USD — 0 for single-channel guests */
+  costPerSeatMonthly: number;
+  sponsorId: string | null;
+  /** e.g. "last message 47 days ago in #proj-x" — see describeLastActivity */
+  lastActivity: string | null;
+  /** Login history was read — the guest didn't even log in, so no "read-only guest" caveat */
+  loginsChecked: boolean;
+  /** Change since the previous audit; undefined when there was none to compare with */
+  change?: GuestChange;
+}
+
+/**
+ * Slack user IDs that receive alerts — the configured recipients, or the
+ * installer when none are set. Also decides who may see guest data in
+ * Slack (App Home, slash command).
+ */
+export function getAlertRecipients(
+  workspace: Pick<Workspace, 'alert_recipients' | 'installed_by'>
+): string[] {
+  return workspace.alert_recipients && workspace.alert_recipients.length > 0
+    ? workspace.alert_recipients
+    : [workspace.installed_by];
+}
+
+/** e.g. "Oct 11" — audit dates in DMs are UTC, like the scheduler */
+function formatAuditDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function toChangeSummary(changes: AuditRunChanges): AuditChangeSummary {
+  return {
+    since: formatAuditDate(changes.previousRunAt),
+    newlyInactive: changes.newlyInactive.length,
+    reactivated: changes.reactivated.length,
+    removed: changes.removed.length,
+    invited: changes.invited.length,
+  };
+}
+
+/** One DM sent to every alert recipient, and the event logged for each delivery */
+interface RecipientMessage {
+  blocks: SlackBlock[];
+  fallbackText: string;
+  eventType: string;
+  /** Logged with the recipient's admin_id added */
+  payload: Record<string, unknown>;
+}
+
+/** Guests without an expiration sort as furthest out */
+function expirationSortKey(row: ExpirationAlertRow): number {
+  return row.expiresAt ? new Date(row.expiresAt).getTime() : Number.MAX_SAFE_INTEGER;
+}
+
+function countDeliveries(results: PromiseSettledResult<unknown>[]): DmDeliveryStats {
+  const sent = results.filter(result => result.status === 'fulfilled').length;
+  return { sent, failed: results.length - sent };
+}
+
+export class AlertService {
+  /**
+   * Sends alerts for the given guests using the workspace's alert mode.
+   * `changes` is this run's diff against the previous audit, shown as a
+   * "What changed" line; null on a workspace's first audit.
+   */
+  async sendAlerts(
+    token: string,
+    workspace: Workspace,
+    alerts: GuestAlert[],
+    activityWindowDays: number,
+    changes: AuditRunChanges | null = null
+  ): Promise<DmDeliveryStats> {
+    if (alerts.length === 0) return { sent: 0, failed: 0 };
+
+    const summary = changes ? toChangeSummary(changes) : null;
+
+    if (workspace.alert_mode === ALERT_MODE.DIGEST) {
+      return this.sendDigest(token, workspace, alerts, activityWindowDays, summary);
+    }
+
+    // Failures are isolated per guest inside sendInactiveAlert
+    const results = await Promise.all(
+      alerts.map(alert => this.sendInactiveAlert(token, workspace, alert, activityWindowDays, summary?.since))
+    );
+    return results.reduce(
+      (total, result) => ({ sent: total.sent + result.sent, failed: total.failed + result.failed }),
+      { sent: 0, failed: 0 }
+    );
+  }
+
+  /**
+   * One DM per recipient listing the guests that fail the expiration policy —
+   * no expiration first, then the furthest out. Never throws.
+   */
+  async sendExpirationAlert(
+    token: string,
+    workspace: Workspace,
+    guests: ExpirationAlertRow[],
+    maxDays: number
+  ): Promise<DmDeliveryStats> {
+    if (guests.length === 0) return { sent: 0, failed: 0 };
+
+    return this.messageRecipients(token, workspace, 'expiration DM', {}, () => {
+      const rows = [...guests]
+        .sort((a, b) => expirationSortKey(b) - expirationSortKey(a))
+        .slice(0, AUDIT.DIGEST_MAX_GUESTS);
+
+      return {
+        blocks: buildExpirationAlertBlocks(rows, {
+          maxDays,
+          total: guests.length,
+          dashboardUrl: new URL('/dashboard#expirations', env.APP_URL).toString(),
+        }),
+        fallbackText: `${guests.length} guest${guests.length === 1 ? '' : 's'} without a suitable expiration`,
+        eventType: WORKSPACE_EVENT_TYPE.EXPIRATION_ALERT_SENT,
+        payload: { guest_ids: rows.map(row => row.guestId), total: guests.length },
+      };
+    });
+  }
+
+  /**
+   * One DM per recipient listing guests whose sponsor was deactivated, each
+   * with a picker to reassign the sponsor. Never throws.
+   */
+  async sendOrphanAlert(
+    token: string,
+    workspace: Pick<Workspace, 'id' | 'alert_recipients' | 'installed_by'>,
+    guests: OrphanedGuestRow[]
+  ): Promise<DmDeliveryStats> {
+    if (guests.length === 0) return { sent: 0, failed: 0 };
+
+    return this.messageRecipients(token, workspace, 'orphaned-guest DM', {}, () => {
+      const rows = guests.slice(0, AUDIT.DIGEST_MAX_GUESTS);
+
+      return {
+        blocks: buildOrphanedGuestsBlocks(rows, guests.length),
+        fallbackText: `${guests.length} guest${guests.length === 1 ? '' : 's'} without a sponsor`,
+        eventType: WORKSPACE_EVENT_TYPE.ORPHAN_ALERT_SENT,
+        payload: { guest_ids: rows.map(row => row.guestId), total: guests.length },
+      };
+    });
+  }
+
+  /** Saves the alert mode and sponsor escalation settings. */
+  async saveAlertSettings(workspaceId: string, settings: AlertSettings): Promise<void> {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({
+        alert_mode: settings.alertMode,
+        sponsor_escalation_enabled: settings.sponsorEscalationEnabled,
+        sponsor_escalation_days: settings.sponsorEscalationDays,
+      })
+      .eq('id', workspaceId);
+
+    if (error) {
+      throw new Error(`Failed to save alert settings for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    const { error: eventError } = await supabase.from('events').insert({
+      workspace_id: workspaceId,
+      type: WORKSPACE_EVENT_TYPE.ALERT_SETTINGS_UPDATED,
+      payload: {
+        alert_mode: settings.alertMode,
+        sponsor_escalation_enabled: settings.sponsorEscalationEnabled,
+        sponsor_escalation_days: settings.sponsorEscalationDays,
+      },
+    });
+
+    if (eventError) {
+      logger.error('Failed to log event', { workspaceId, type: WORKSPACE_EVENT_TYPE.ALERT_SETTINGS_UPDATED }, eventError);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  private async sendInactiveAlert(
+    token: string,
+    workspace: Workspace,
+    alert: GuestAlert,
+    activityWindowDays: number,
+    previousAuditDate?: string
+  ): Promise<DmDeliveryStats> {
+    const { guestId, sponsorId } = alert;
+
+    return this.messageRecipients(token, workspace, 'DM alert', { guestId }, () => ({
+      blocks: buildInactiveGuestBlocks(guestId, alert.costPerSeatMonthly, sponsorId, {
+        canDeactivate: canDeactivateViaScim(workspace),
+        activityWindowDays,
+        lastActivity: alert.lastActivity,
+        loginsChecked: alert.loginsChecked,
+        change: alert.change,
+        previousAuditDate,
+      }),
+      fallbackText: `Inactive guest <@${guestId}> detected`,
+      eventType: WORKSPACE_EVENT_TYPE.DM_ALERT_SENT,
+      payload: { guest_id: guestId, sponsor_id: sponsorId },
+    }));
+  }
+
+  /**
+   * One summary DM per recipient. Lists the DIGEST_MAX_GUESTS costliest
+   * guests; the rest are reachable through the dashboard link.
+   */
+  private async sendDigest(
+    token: string,
+    workspace: Workspace,
+    alerts: GuestAlert[],
+    activityWindowDays: number,
+    changes: AuditChangeSummary | null
+  ): Promise<DmDeliveryStats> {
+    return this.messageRecipients(token, workspace, 'digest DM', {}, () => {
+      const rows = [...alerts]
+        .sort((a, b) => b.costPerSeatMonthly - a.costPerSeatMonthly)
+        .slice(0, AUDIT.DIGEST_MAX_GUESTS);
+
+      return {
+        blocks: buildDigestBlocks(rows, {
+          canDeactivate: canDeactivateViaScim(workspace),
+          activityWindowDays,
+          totalFlagged: alerts.length,
+          loginsChecked: alerts.every(alert => alert.loginsChecked),
+          dashboardUrl: new URL('/dashboard', env.APP_URL).toString(),
+          changes,
+        }),
+        fallbackText: `${alerts.length} inactive guest${alerts.length === 1 ? '' : 's'} detected`,
+        eventType: WORKSPACE_EVENT_TYPE.DIGEST_ALERT_SENT,
+        payload: { guest_ids: rows.map(row => row.guestId), total_flagged: alerts.length },
+      };
+    });
+  }
+
+  /**
+   * DMs the message `compose` builds to every alert recipient, logging an
+   * event per delivery. A failed recipient is logged and counted; if the
+   * message can't be built at all, every recipient counts as failed.
+   * Never throws. `kind` names the DM in logs, e.g. "digest DM".
+   */
+  private async messageRecipients(
+    token: string,
+    workspace: Pick<Workspace, 'id' | 'alert_recipients' | 'installed_by'>,
+    kind: string,
+    logContext: Record<string, unknown>,
+    compose: () => RecipientMessage
+  ): Promise<DmDeliveryStats> {
+    const recipients = getAlertRecipients(workspace);
+
+    try {
+      const { blocks, fallbackText, eventType, payload } = compose();
+
+      const dmResults = await Promise.allSettled(
+        recipients.map(async (adminId) => {
+          await sendDirectMessage(token, adminId, blocks, fallbackText);
+
+          await supabase.from('events').insert({
+            workspace_id: workspace.id,
+            type: eventType,
+            payload: { ...payload, admin_id: adminId },
+          });
+        })
+      );
+
+      // Log any per-recipient failures so they are visible in the monitoring dashboard
+      for (let i = 0; i < dmResults.length; i++) {
+        const result = dmResults[i];
+        if (result.status === 'rejected') {
+          logger.error(`Failed to send ${kind} to recipient`, {
+            workspaceId: workspace.id,
+            ...logContext,
+            adminId: recipients[i],
+          }, result.reason);
+        }
+      }
+
+      return countDeliveries(dmResults);
+    } catch (err) {
+      logger.error(`Failed to send ${kind}s`, { workspaceId: workspace.id, ...logContext }, err);
+      return { sent: 0, failed: recipients.length };
+    }
+  }
+}
+
+export const alertService = new AlertService();
@@ -0,0 +1,174 @@
+/**
+ * AppHomeService — publishes the Slack App Home tab.
+ *
+ * Alert recipients see the workspace's guest health: plan status, the latest
+ * audit snapshot and the costliest flagged guests with Deactivate / Snooze
+ * actions. Everyone else sees a short description without guest data.
+ *
+ * Published on app_home_opened and re-published after an action taken from
+ * the tab, so the list reflects the admin's decision immediately.
+ */
+
+import { supabase } from '@/lib/db';
+import { decrypt } from '@/lib/encryption';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+import { PLAN_LIMITS } from '@/lib/subscription';
+import { getAlertRecipients } from '@/services/alert.service';
+import { describeAuditSchedule, getAuditSchedule } from '@/services/audit-schedule.service';
+import {
+  canDeactivateViaScim,
+  publishHomeView,
+  buildAppHomeBlocks,
+  buildAppHomeRestrictedBlocks,
+} from '@/lib/slack';
+import { APP_HOME, COMPLETED_AUDIT_RUN_STATUSES, GUEST_ACTION } from '@/config/constants';
+import type { AuditRun, GuestAudit, Workspace } from '@/types/database.types';
+import type { AppHomeGuestRow } from '@/lib/slack';
+
+type HomeWorkspace = Pick<
+  Workspace,
+  | 'id' | 'bot_access_token' | 'installed_by' | 'alert_recipients' | 'plan_type' | 'supports_user_deactivation'
+  | 'granted_scopes' | 'audit_timezone' | 'audit_day_of_week' | 'audit_hour'
+>;
+
+type HomeGuest = Pick<
+  GuestAudit,
+  'slack_user_id' | 'estimated_cost_monthly' | 'action_taken' | 'snoozed_at' | 'snoozed_until'
+>;
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function describeGuest(guest: HomeGuest): string | null {
+  if (guest.snoozed_at) {
+    if (guest.snoozed_until === null) return 'Snoozed indefinitely';
+    if (new Date(guest.snoozed_until).getTime() > Date.now()) {
+      return `Snoozed until ${formatDate(guest.snoozed_until)}`;
+    }
+  }
+
+  switch (guest.action_taken) {
+    case GUEST_ACTION.DEACTIVATION_ACCEPTED:
+      return 'Deactivation logged';
+    case GUEST_ACTION.DEACTIVATED:
+      return 'Deactivated';
+    default:
+      return null;
+  }
+}
+
+export class AppHomeService {
+  /**
+   * Publishes the Home tab for one user. Never throws — a failed publish
+   * only means the tab shows stale content.
+   */
+  async publishHome(workspaceId: string, userId: string): Promise<void> {
+    try {
+      const workspace = await this.fetchWorkspace(workspaceId);
+      if (!workspace) return;
+
+      if (!workspace.bot_access_token) {
+        // Installed before the App Home existed — reinstalling adds the bot token
+        logger.warn('Cannot publish App Home without a bot token', { workspaceId });
+        return;
+      }
+
+      const blocks = getAlertRecipients(workspace).includes(userId)
+        ? await this.buildRecipientBlocks(workspace)
+        : buildAppHomeRestrictedBlocks();
+
+      const result = await publishHomeView(decrypt(workspace.bot_access_token), userId, blocks);
+      if (!result.ok) {
+        logger.warn('views.publish failed', { workspaceId, userId, error: result.error });
+      }
+    } catch (err) {
+      logger.error('Failed to publish App Home', { workspaceId, userId }, err);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  private async buildRecipientBlocks(workspace: HomeWorkspace) {
+    const [subscriptionResult, auditRunResult, flaggedResult] = await Promise.all([
+      supabase
+        .from('subscriptions')
+        .select('status')
+        .eq('workspace_id', workspace.id)
+        .maybeSingle(),
+      supabase
+        .from('audit_runs')
+        .select('*')
+        .eq('workspace_id', workspace.id)
+        .in('status', COMPLETED_AUDIT_RUN_STATUSES)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('guest_audits')
+        .select('slack_user_id, estimated_cost_monthly, action_taken, snoozed_at, snoozed_until', { count: 'exact' })
+        .eq('workspace_id', workspace.id)
+        .eq('is_flagged', true)
+        .order('estimated_cost_monthly', { ascending: false })
+        .limit(APP_HOME.MAX_FLAGGED_GUESTS),
+    ]);
+
+    if (flaggedResult.error) {
+      throw new Error(`Failed to load flagged guests: ${flaggedResult.error.message}`);
+    }
+
+    const latestRun = auditRunResult.data as AuditRun | null;
+    const flaggedGuests = (flaggedResult.data ?? []) as HomeGuest[];
+    const status = subscriptionResult.data?.status as string | undefined;
+    const planName = workspace.plan_type.charAt(0).toUpperCase() + workspace.plan_type.slice(1);
+    const schedule = getAuditSchedule(workspace);
+
+    const guests: AppHomeGuestRow[] = flaggedGuests.map(guest => ({
+      guestId: guest.slack_user_id,
+      costPerSeatMonthly: guest.estimated_cost_monthly,
+      note: describeGuest(guest),
+    }));
+
+    return buildAppHomeBlocks({
+      planLabel: status && workspace.plan_type !== 'free' ? `${planName} (${status})` : planName,
+      backgroundAuditsEnabled: PLAN_LIMITS[workspace.plan_type].canRunCron,
+      auditSchedule: schedule && describeAuditSchedule(schedule),
+      latestRun: latestRun && {
+        guestCount: latestRun.workspace_guest_count,
+        inactiveCount: latestRun.workspace_inactive_count,
+        exemptCount: latestRun.workspace_exempt_count,
+        estimatedWasteMonthly: latestRun.workspace_estimated_waste,
+        auditedAt: latestRun.created_at,
+      },
+      guests,
+      totalFlagged: flaggedResult.count ?? guests.length,
+      canDeactivate: canDeactivateViaScim(workspace),
+      dashboardUrl: new URL('/dashboard', env.APP_URL).toString(),
+    });
+  }
+
+  private async fetchWorkspace(workspaceId: string): Promise<HomeWorkspace | null> {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('id, bot_access_token, installed_by, alert_recipients, plan_type, supports_user_deactivation, granted_scopes, audit_timezone, audit_day_of_week, audit_hour')
+      .eq('id', workspaceId)
+      .single();
+
+    if (error) {
+      logger.error('Failed to load workspace for App Home', { workspaceId }, error);
+      return null;
+    }
+
+    return data as HomeWorkspace;
+  }
+}
+
+export const appHomeService = new AppHomeService();
@@ -0,0 +1,385 @@
+/**
+ * AuditJobService — the audit_jobs queue behind scheduled audits.
+ *
+ * One job per workspace. A worker claims a job with a lease, snapshots the
+ * guest list and the signals' workspace-wide data on the first slice, then
+ * scores guests in chunks and moves the cursor after each one. Jobs that
+ * run out of time are released for the next worker; failed slices, and
+ * slices whose worker died holding the lease, are retried with exponential
+ * backoff up to AUDIT_JOBS.MAX_ATTEMPTS. Scoring itself lives in
+ * AuditService.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { AUDIT_JOBS, AUDIT_JOB_STATUS } from '@/config/constants';
+import type { AuditJob, AuditJobGuest, AuditRunSlackCalls, GuestExemption, GuestSignalResults } from '@/types/database.types';
+import type { SlackUser } from '@/types/slack.types';
+
+export interface SnapshotExemptGuest {
+  guest: SlackUser;
+  exemption: Pick<GuestExemption, 'id' | 'rule_type'>;
+}
+
+export interface ScoredJobGuest {
+  guest: SlackUser;
+  score: number;
+  source: string;
+  signals: GuestSignalResults;
+}
+
+/** Keeps only the typed fields — users.list members carry far more */
+function toGuestSnapshot(guest: SlackUser): SlackUser {
+  return {
+    id: guest.id,
+    name: guest.name,
+    real_name: guest.real_name,
+    deleted: guest.deleted,
+    is_bot: guest.is_bot,
+    is_restricted: guest.is_restricted,
+    is_ultra_restricted: guest.is_ultra_restricted,
+    updated: guest.updated,
+    expiration_ts: guest.expiration_ts,
+    profile: {
+      display_name: guest.profile.display_name,
+      real_name: guest.profile.real_name,
+      email: guest.profile.email,
+      image_72: guest.profile.image_72,
+    },
+  };
+}
+
+function toErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export class AuditJobService {
+  /**
+   * Queues a job for each workspace that doesn't already have an open one.
+   * `manual` jobs run under the plan's manual-scan rules. Returns the number
+   * of jobs created.
+   */
+  async enqueue(workspaceIds: string[], manual = false): Promise<number> {
+    if (workspaceIds.length === 0) return 0;
+
+    const { data, error } = await supabase.rpc('enqueue_audit_jobs', {
+      p_workspace_ids: workspaceIds,
+      p_manual: manual,
+    });
+    if (error) {
+      throw new Error(`Failed to enqueue audit jobs: ${error.message}`);
+    }
+
+    return (data as number | null) ?? 0;
+  }
+
+  /**
+   * Hands jobs whose worker died holding the lease back to the queue, with
+   * the same backoff and attempt limit as fail(). Returns the jobs that hit
+   * MAX_ATTEMPTS and were marked failed. Failures are logged — the leases
+   * are expired again on the next call.
+   */
+  async expireLeases(): Promise<AuditJob[]> {
+    const { data, error } = await supabase.rpc('expire_audit_job_leases', {
+      p_max_attempts: AUDIT_JOBS.MAX_ATTEMPTS,
+      p_retry_base_seconds: AUDIT_JOBS.RETRY_BASE_SECONDS,
+    });
+
+    if (error) {
+      logger.error('Failed to expire audit job leases', {}, error);
+      return [];
+    }
+
+    const abandoned: AuditJob[] = [];
+    for (const job of (data ?? []) as AuditJob[]) {
+      if (job.status === AUDIT_JOB_STATUS.FAILED) {
+        logger.error('Audit job abandoned after repeated timeouts', { jobId: job.id, workspaceId: job.workspace_id, attempts: job.attempts });
+        await this.deleteSnapshot(job.id);
+        abandoned.push(job);
+      } else {
+        logger.warn('Audit job timed out and will be retried', { jobId: job.id, workspaceId: job.workspace_id, attempts: job.attempts, retryAt: job.run_after });
+      }
+    }
+
+    return abandoned;
+  }
+
+  /** Leases up to `limit` due pending jobs */
+  async claim(limit: number): Promise<AuditJob[]> {
+    const { data, error } = await supabase.rpc('claim_audit_jobs', {
+      p_limit: limit,
+      p_lease_seconds: AUDIT_JOBS.LEASE_SECONDS,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim audit jobs: ${error.message}`);
+    }
+
+    return (data ?? []) as AuditJob[];
+  }
+
+  /** Number of jobs still pending or running */
+  async countOpen(): Promise<number> {
+    const { count, error } = await supabase
+      .from('audit_jobs')
+      .select('id', { count: 'exact', head: true })
+      .in('status', [AUDIT_JOB_STATUS.PENDING, AUDIT_JOB_STATUS.RUNNING]);
+
+    if (error) {
+      logger.warn('Failed to count open audit jobs', {}, error);
+      return 0;
+    }
+
+    return count ?? 0;
+  }
+
+  /**
+   * Stores the guest list the job will work through. Auditable guests get
+   * positions in list order; exempt guests are stored with their rule and
+   * never scored. Written before guest_count, so a worker that dies here
+   * simply snapshots again — replacing whatever it had written.
+   */
+  async saveSnapshot(
+    jobId: string,
+    auditableGuests: SlackUser[],
+    exemptGuests: SnapshotExemptGuest[]
+  ): Promise<void> {
+    await this.deleteSnapshot(jobId);
+
+    // Batches must have identical keys — PostgREST nulls out keys missing from a row
+    const rows = [
+      ...auditableGuests.map((guest, position) => ({
+        job_id: jobId,
+        slack_user_id: guest.id,
+        position,
+        guest: toGuestSnapshot(guest),
+        exemption_id: null,
+        exemption_rule_type: null,
+      })),
+      ...exemptGuests.map(({ guest, exemption }) => ({
+        job_id: jobId,
+        slack_user_id: guest.id,
+        position: null,
+        guest: toGuestSnapshot(guest),
+        exemption_id: exemption.id,
+        exemption_rule_type: exemption.rule_type,
+      })),
+    ];
+
+    for (let i = 0; i < rows.length; i += AUDIT_JOBS.BATCH_SIZE) {
+      const { error } = await supabase
+        .from('audit_job_guests')
+        .upsert(rows.slice(i, i + AUDIT_JOBS.BATCH_SIZE), { onConflict: 'job_id,slack_user_id' });
+
+      if (error) {
+        throw new Error(`Failed to save audit job snapshot ${jobId}: ${error.message}`);
+      }
+    }
+
+    const { error } = await supabase
+      .from('audit_jobs')
+      .update({ guest_count: auditableGuests.length, cursor: 0, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to record audit job guest count ${jobId}: ${error.message}`);
+    }
+  }
+
+  /** The next `limit` auditable guests from `cursor`, in snapshot order */
+  async loadGuestsFrom(jobId: string, cursor: number, limit: number): Promise<SlackUser[]> {
+    const { data, error } = await supabase
+      .from('audit_job_guests')
+      .select('guest')
+      .eq('job_id', jobId)
+      .gte('position', cursor)
+      .order('position')
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load audit job guests ${jobId}: ${error.message}`);
+    }
+
+    return (data ?? []).map(row => row.guest as SlackUser);
+  }
+
+  /**
+   * Stores a chunk's scores, then moves the cursor past it, saves the run's
+   * Slack call counts and renews the lease. A worker that dies in between
+   * re-scores the chunk — harmless.
+   */
+  async checkpoint(
+    jobId: string,
+    scored: ScoredJobGuest[],
+    cursor: number,
+    slackCalls: AuditRunSlackCalls
+  ): Promise<void> {
+    if (scored.length > 0) {
+      const { error } = await supabase
+        .from('audit_job_guests')
+        .upsert(
+          scored.map((sg, i) => ({
+            job_id: jobId,
+            slack_user_id: sg.guest.id,
+            position: cursor - scored.length + i,
+            guest: toGuestSnapshot(sg.guest),
+            exemption_id: null,
+            exemption_rule_type: null,
+            score: sg.score,
+            source: sg.source,
+            signal_results: sg.signals,
+          })),
+          { onConflict: 'job_id,slack_user_id' }
+        );
+
+      if (error) {
+        throw new Error(`Failed to checkpoint audit job ${jobId}: ${error.message}`);
+      }
+    }
+
+    const { error } = await supabase
+      .from('audit_jobs')
+      .update({
+        cursor,
+        slack_calls: slackCalls,
+        locked_until: new Date(Date.now() + AUDIT_JOBS.LEASE_SECONDS * 1000).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to advance audit job cursor ${jobId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Stores what the signals loaded from workspace-wide data (e.g. the login
+   * history), so later slices reuse it instead of crawling Slack again.
+   */
+  async saveSignalData(jobId: string, signalData: Record<string, unknown>): Promise<void> {
+    const { error } = await supabase
+      .from('audit_jobs')
+      .update({ signal_data: signalData, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to save signal data for audit job ${jobId}: ${error.message}`);
+    }
+  }
+
+  /** Every guest in the job's snapshot, scored or exempt */
+  async loadSnapshot(jobId: string): Promise<AuditJobGuest[]> {
+    const guests: AuditJobGuest[] = [];
+
+    for (let from = 0; ; from += AUDIT_JOBS.BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('audit_job_guests')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('position', { nullsFirst: false })
+        .order('slack_user_id')
+        .range(from, from + AUDIT_JOBS.BATCH_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load audit job snapshot ${jobId}: ${error.message}`);
+      }
+
+      const rows = (data ?? []) as AuditJobGuest[];
+      guests.push(...rows.map(row => ({ ...row, score: row.score === null ? null : Number(row.score) })));
+
+      if (rows.length < AUDIT_JOBS.BATCH_SIZE) break;
+    }
+
+    return guests;
+  }
+
+  /** Out of time — hands the job back to the queue to resume from its cursor */
+  async release(jobId: string, slackCalls: AuditRunSlackCalls): Promise<void> {
+    const { error } = await supabase
+      .from('audit_jobs')
+      .update({
+        status: AUDIT_JOB_STATUS.PENDING,
+        slack_calls: slackCalls,
+        locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      // The lease expires on its own; the job is retried with backoff then
+      logger.error('Failed to release audit job', { jobId }, error);
+    }
+  }
+
+  async complete(jobId: string, summary: object): Promise<void> {
+    const { error } = await supabase
+      .from('audit_jobs')
+      .update({
+        status: AUDIT_JOB_STATUS.COMPLETED,
+        summary,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      logger.error('Failed to mark audit job completed', { jobId }, error);
+    }
+
+    await this.deleteSnapshot(jobId);
+  }
+
+  /**
+   * Records a failed slice. The job is retried after RETRY_BASE_SECONDS ×
+   * 2^(attempts - 1), resuming from its cursor, until MAX_ATTEMPTS — then
+   * it is marked failed and the workspace waits for the next scheduled audit.
+   * Returns true when the job was abandoned.
+   */
+  async fail(job: AuditJob, err: unknown): Promise<boolean> {
+    // Slices whose worker timed out were counted when their lease expired
+    const attempts = Math.min(job.attempts + 1, AUDIT_JOBS.MAX_ATTEMPTS);
+    const exhausted = attempts >= AUDIT_JOBS.MAX_ATTEMPTS;
+    const retryAt = new Date(Date.now() + AUDIT_JOBS.RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1));
+
+    const { error } = await supabase
+      .from('audit_jobs')
+      .update({
+        status: exhausted ? AUDIT_JOB_STATUS.FAILED : AUDIT_JOB_STATUS.PENDING,
+        attempts,
+        last_error: toErrorMessage(err).slice(0, 500),
+        run_after: exhausted ? job.run_after : retryAt.toISOString(),
+        locked_until: null,
+        completed_at: exhausted ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id);
+
+    if (error) {
+      logger.error('Failed to record audit job failure', { jobId: job.id }, error);
+    }
+
+    if (exhausted) {
+      logger.error('Audit job abandoned after repeated failures', { jobId: job.id, workspaceId: job.workspace_id, attempts });
+      await this.deleteSnapshot(job.id);
+    } else {
+      logger.warn('Audit job will be retried', { jobId: job.id, workspaceId: job.workspace_id, attempts, retryAt: retryAt.toISOString() });
+    }
+
+    return exhausted;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  private async deleteSnapshot(jobId: string): Promise<void> {
+    const { error } = await supabase.from('audit_job_guests').delete().eq('job_id', jobId);
+
+    if (error) {
+      logger.warn('Failed to delete audit job snapshot', { jobId }, error);
+    }
+  }
+}
+
+export const auditJobService = new AuditJobService();
@@ -0,0 +1,98 @@
+/**
+ * AuditRunService — the audit_runs history and workspace_usage counters.
+ *
+ * Every audit records one run. Succeeded and partial runs carry the guest
+ * counts (and have guest_observations); skipped and failed runs record why
+ * they stopped. All of them carry timing, Slack API usage and DM delivery,
+ * which is what the dashboard's run history shows.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { AUDIT_RUNS, AUDIT_RUN_STATUS, COMPLETED_AUDIT_RUN_STATUSES } from '@/config/constants';
+import type { AuditRun, AuditRunInsert } from '@/types/database.types';
+
+export class AuditRunService {
+  /** Inserts a run. Returns its id, or null when the insert failed (logged). */
+  async record(run: AuditRunInsert): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('audit_runs')
+      .insert({ ...run, error_message: run.error_message?.slice(0, AUDIT_RUNS.MAX_ERROR_LENGTH) ?? null })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      logger.error('Failed to record audit run', { workspaceId: run.workspace_id, status: run.status }, error);
+      return null;
+    }
+
+    return data.id as string;
+  }
+
+  /** Downgrades a recorded run to partial — for steps that fail after it is written */
+  async markPartial(runId: string, errorMessage: string): Promise<void> {
+    const { error } = await supabase
+      .from('audit_runs')
+      .update({
+        status: AUDIT_RUN_STATUS.PARTIAL,
+        error_message: errorMessage.slice(0, AUDIT_RUNS.MAX_ERROR_LENGTH),
+      })
+      .eq('id', runId);
+
+    if (error) {
+      logger.error('Failed to mark audit run partial', { runId }, error);
+    }
+  }
+
+  /**
+   * Updates workspace_usage after a completed run: last_scan_at, the run's
+   * duration, and the running total of alert DMs sent.
+   */
+  async recordUsage(workspaceId: string, runtimeMs: number, alertsSent: number): Promise<void> {
+    const { error } = await supabase.rpc('record_audit_usage', {
+      p_workspace_id: workspaceId,
+      p_runtime_ms: runtimeMs,
+      p_alerts_sent: alertsSent,
+    });
+
+    if (error) {
+      logger.error('Failed to record audit usage', { workspaceId }, error);
+    }
+  }
+
+  /** The workspace's most recent succeeded or partial run — what the next run is compared with */
+  async getLatestCompleted(workspaceId: string): Promise<Pick<AuditRun, 'id' | 'created_at'> | null> {
+    const { data, error } = await supabase
+      .from('audit_runs')
+      .select('id, created_at')
+      .eq('workspace_id', workspaceId)
+      .in('status', COMPLETED_AUDIT_RUN_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load latest audit run for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /** The workspace's most recent runs of any status, newest first */
+  async listRecent(workspaceId: string, limit: number = AUDIT_RUNS.HISTORY_LIMIT): Promise<AuditRun[]> {
+    const { data, error } = await supabase
+      .from('audit_runs')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load audit runs for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    return (data ?? []) as AuditRun[];
+  }
+}
+
+export const auditRunService = new AuditRunService();
@@ -0,0 +1,232 @@
+/**
+ * AuditScheduleService — when each workspace's background audit runs.
+ *
+ * Frequency is a plan entitlement (PLAN_LIMITS.auditFrequency); the hour,
+ * and the weekday on weekly plans, are chosen per workspace in its own
+ * timezone. Until a workspace picks its own, the hour and weekday come
+ * from a hash of its ID, so defaults spread over the week instead of all
+ * landing on one tick. The audit cron ticks hourly and queues every
+ * workspace whose most recent scheduled slot is newer than its last queued
+ * audit, so a missed tick is caught up on the next one.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { PLAN_LIMITS } from '@/lib/subscription';
+import { AUDIT_SCHEDULE, WORKSPACE_EVENT_TYPE } from '@/config/constants';
+import type { AuditFrequency } from '@/lib/subscription';
+import type { Workspace } from '@/types/database.types';
+
+export interface AuditSchedule {
+  frequency: AuditFrequency;
+  timezone: string;
+  /** 0 = Sunday … 6 = Saturday; ignored for daily audits */
+  dayOfWeek: number;
+  hour: number;
+}
+
+export interface AuditScheduleInput {
+  timezone: string;
+  dayOfWeek: number;
+  hour: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const localPartFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Default weekday and hour for a workspace that hasn't chosen them: stable
+ * per workspace, and spread evenly across the week's hourly ticks.
+ */
+export function getDefaultAuditSlot(workspaceId: string): { dayOfWeek: number; hour: number } {
+  // FNV-1a — cheap, and well mixed even for IDs that differ by one character
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < workspaceId.length; i++) {
+    hash = Math.imul(hash ^ workspaceId.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  const slot = hash % (7 * 24);
+  return { dayOfWeek: Math.floor(slot / 24), hour: slot % 24 };
+}
+
+/** Weekday and hour of `date` in `timezone` */
+function getLocalParts(date: Date, timezone: string): { dayOfWeek: number; hour: number } {
+  let formatter = localPartFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: isValidTimezone(timezone) ? timezone : AUDIT_SCHEDULE.DEFAULT_TIMEZONE,
+      weekday: 'short',
+      hour: 'numeric',
+      hourCycle: 'h23',
+    });
+    localPartFormatters.set(timezone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(parts.find(p => p.type === 'weekday')?.value ?? ''),
+    hour: Number(parts.find(p => p.type === 'hour')?.value),
+  };
+}
+
+/**
+ * True when `date` starts the scheduled hour. Around DST changes: when the
+ * clocks go forward past the hour, the next hour stands in for it — even
+ * when the skipped hour is midnight; when they go back and the hour
+ * repeats, only its first occurrence counts.
+ */
+function isScheduledHour(schedule: AuditSchedule, date: Date): boolean {
+  const local = getLocalParts(date, schedule.timezone);
+  if (schedule.frequency === 'weekly' && local.dayOfWeek !== schedule.dayOfWeek) return false;
+
+  const previousHour = getLocalParts(new Date(date.getTime() - HOUR_MS), schedule.timezone).hour;
+  if (local.hour === schedule.hour) return previousHour !== schedule.hour;
+
+  // Hours the clock jumped over since the previous tick, counted around midnight
+  const skipped = (local.hour - previousHour + 24) % 24;
+  const untilScheduled = (schedule.hour - previousHour + 24) % 24;
+  return untilScheduled > 0 && untilScheduled < skipped;
+}
+
+/** The workspace's schedule, or null when its plan has no background audits */
+export function getAuditSchedule(
+  workspace: Pick<Workspace, 'id' | 'plan_type' | 'audit_timezone' | 'audit_day_of_week' | 'audit_hour'>
+): AuditSchedule | null {
+  const frequency = PLAN_LIMITS[workspace.plan_type].auditFrequency;
+  if (!frequency) return null;
+
+  const fallback = getDefaultAuditSlot(workspace.id);
+  return {
+    frequency,
+    timezone: workspace.audit_timezone ?? AUDIT_SCHEDULE.DEFAULT_TIMEZONE,
+    dayOfWeek: workspace.audit_day_of_week ?? fallback.dayOfWeek,
+    hour: workspace.audit_hour ?? fallback.hour,
+  };
+}
+
+/**
+ * Start of the most recent scheduled slot at or before `now`. Slots begin
+ * on whole UTC hours — the cron's tick — so half-hour timezones run at :30
+ * local time.
+ */
+export function getLastScheduledSlot(schedule: AuditSchedule, now = new Date()): Date | null {
+  const currentHour = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS;
+  for (let i = 0; i <= AUDIT_SCHEDULE.SEARCH_HOURS; i++) {
+    const slot = new Date(currentHour - i * HOUR_MS);
+    if (isScheduledHour(schedule, slot)) return slot;
+  }
+  return null;
+}
+
+/** Start of the next scheduled slot after `now` */
+export function getNextScheduledSlot(schedule: AuditSchedule, now = new Date()): Date | null {
+  const currentHour = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS;
+  for (let i = 1; i <= AUDIT_SCHEDULE.SEARCH_HOURS; i++) {
+    const slot = new Date(currentHour + i * HOUR_MS);
+    if (isScheduledHour(schedule, slot)) return slot;
+  }
+  return null;
+}
+
+/**
+ * True when a scheduled slot has passed since the workspace was last
+ * queued. A workspace never queued before is due straight away, so the
+ * first audit doesn't wait up to a week after subscribing.
+ */
+export function isAuditDue(
+  workspace: Pick<
+    Workspace,
+    'id' | 'plan_type' | 'audit_timezone' | 'audit_day_of_week' | 'audit_hour' | 'last_scheduled_audit_at'
+  >,
+  now = new Date()
+): boolean {
+  const schedule = getAuditSchedule(workspace);
+  if (!schedule) return false;
+  if (!workspace.last_scheduled_audit_at) return true;
+
+  const lastSlot = getLastScheduledSlot(schedule, now);
+  return lastSlot !== null && new Date(workspace.last_scheduled_audit_at) < lastSlot;
+}
+
+/** e.g. "Weekly on Sunday at 09:00 (Europe/Paris)" */
+export function describeAuditSchedule(schedule: AuditSchedule): string {
+  const time = `${String(schedule.hour).padStart(2, '0')}:00 (${schedule.timezone})`;
+  return schedule.frequency === 'daily'
+    ? `Daily at ${time}`
+    : `Weekly on ${WEEKDAY_NAMES[schedule.dayOfWeek]} at ${time}`;
+}
+
+/** e.g. "Sun, Oct 25, 09:00" in the schedule's timezone */
+export function formatScheduledSlot(slot: Date, schedule: AuditSchedule): string {
+  return slot.toLocaleString('en-US', {
+    timeZone: isValidTimezone(schedule.timezone) ? schedule.timezone : AUDIT_SCHEDULE.DEFAULT_TIMEZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+}
+
+export class AuditScheduleService {
+  /** Saves the workspace's audit hour, weekday and timezone. */
+  async saveSchedule(workspaceId: string, input: AuditScheduleInput): Promise<void> {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({
+        audit_timezone: input.timezone,
+        audit_day_of_week: input.dayOfWeek,
+        audit_hour: input.hour,
+      })
+      .eq('id', workspaceId);
+
+    if (error) {
+      throw new Error(`Failed to save audit schedule for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    const { error: eventError } = await supabase.from('events').insert({
+      workspace_id: workspaceId,
+      type: WORKSPACE_EVENT_TYPE.AUDIT_SCHEDULE_UPDATED,
+      payload: {
+        audit_timezone: input.timezone,
+        audit_day_of_week: input.dayOfWeek,
+        audit_hour: input.hour,
+      },
+    });
+
+    if (eventError) {
+      logger.error('Failed to log event', { workspaceId, type: WORKSPACE_EVENT_TYPE.AUDIT_SCHEDULE_UPDATED }, eventError);
+    }
+  }
+
+  /** Records that the scheduler queued these workspaces' audits at `at`. */
+  async markScheduled(workspaceIds: string[], at: Date): Promise<void> {
+    // IDs travel in the query string — batches keep the URL short
+    for (let i = 0; i < workspaceIds.length; i += AUDIT_SCHEDULE.UPDATE_BATCH_SIZE) {
+      const batch = workspaceIds.slice(i, i + AUDIT_SCHEDULE.UPDATE_BATCH_SIZE);
+      const { error } = await supabase
+        .from('workspaces')
+        .update({ last_scheduled_audit_at: at.toISOString() })
+        .in('id', batch);
+
+      if (error) {
+        // They are queued again on the next tick — an extra audit, never a missed one
+        logger.error('Failed to record scheduled audits', { count: batch.length }, error);
+      }
+    }
+  }
+}
+
+export const auditScheduleService = new AuditScheduleService();
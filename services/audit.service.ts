@@ -13,89 +13,475 @@
  */
 
 import { supabase } from '@/lib/db';
-import { decrypt, encrypt } from '@/lib/encryption';
-import {
-  getGuests,
-  getLastMessageTs,
-  getUserPresence,
-  sendDirectMessage,
-  buildInactiveGuestBlocks,
-  refreshSlackToken,
-} from '@/lib/slack';
+import { getUser, getWorkspaceRoster } from '@/lib/slack';
+import { countSlackCalls, createSlackCallStats } from '@/lib/slack-rate-limiter';
+import { describeLastActivity, getLastSeenAt } from '@/lib/activity';
 import { logger } from '@/lib/logger';
-import { canRunBackgroundAudit } from '@/lib/subscription';
+import {
+  canRunBackgroundAudit,
+  canRunManualScan,
+  canSendAlerts,
+  checkGuestLimit,
+} from '@/lib/subscription';
+import { policyService, resolveHistoryCoverage } from '@/services/policy.service';
+import { exemptionService, findMatchingExemption } from '@/services/exemption.service';
+import { alertService } from '@/services/alert.service';
+import { escalationService } from '@/services/escalation.service';
+import { diffRunStatuses, guestHistoryService } from '@/services/guest-history.service';
+import { getGraceEndsAt, guestJoinService } from '@/services/guest-join.service';
+import {
+  getExpirationIssue,
+  guestExpirationService,
+  toGuestExpiration,
+} from '@/services/guest-expiration.service';
+import { guestActivityService } from '@/services/guest-activity.service';
+import { guestSponsorService } from '@/services/guest-sponsor.service';
+import { workspaceTokenService } from '@/services/workspace-token.service';
+import { auditJobService } from '@/services/audit-job.service';
+import { auditRunService } from '@/services/audit-run.service';
+import { auditScheduleService, isAuditDue } from '@/services/audit-schedule.service';
+import {
+  ACTIVITY_SIGNALS,
+  emptySignalResults,
+  getEnabledSignals,
+} from '@/services/activity-signals/registry';
 import {
   AUDIT,
+  AUDIT_JOBS,
+  AUDIT_PREVIEW,
+  AUDIT_RUN_STATUS,
   BILLING,
   GUEST_ACTION,
-  WORKSPACE_EVENT_TYPE,
 } from '@/config/constants';
-import type { Workspace, GuestAuditUpsert, AuditRunInsert } from '@/types/database.types';
+import type { EffectiveAuditPolicy } from '@/services/policy.service';
+import type { SignalContext, SignalData } from '@/services/activity-signals/types';
+import type { SlackCallStats } from '@/lib/slack-rate-limiter';
+import type { GuestAlert } from '@/services/alert.service';
+import type {
+  AuditJob,
+  Workspace,
+  GuestAuditUpsert,
+  AuditRunStatus,
+  GuestExemption,
+  GuestSignalResults,
+  GuestObservationInsert,
+  ActivitySignalId,
+  AuditRunChanges,
+  GuestObservationStatus,
+} from '@/types/database.types';
 import type { SlackUser } from '@/types/slack.types';
-import type { AuditRunResult } from '@/types/api.types';
+import type {
+  AuditPreview,
+  AuditPreviewAlert,
+  AuditPreviewGuest,
+  AuditRunResult,
+} from '@/types/api.types';
 
 interface ScoredGuest {
   guest: SlackUser;
   score: number;
   /** Which signals were checked — recorded in guest_audits.last_seen_source */
   source: string;
+  /** Recorded in guest_audits.signal_results */
+  signals: GuestSignalResults;
+}
+
+interface ExemptGuest {
+  guest: SlackUser;
+  exemption: Pick<GuestExemption, 'id' | 'rule_type'>;
+}
+
+/** When and how an audit started — recorded on its audit_runs row */
+interface RunContext {
+  startedAt: number;
+  manual: boolean;
+  /** Slack calls made by the run — carried across slices for queued jobs */
+  slackCalls: SlackCallStats;
+}
+
+interface AuditWorkspaceOptions {
+  /**
+   * On-demand audit (slash command / dashboard). Runs on any plan once
+   * canRunManualScan allows it; DMs are only sent where canSendAlerts allows.
+   */
+  manual?: boolean;
+  /** Preview only — guests aren't registered for event tracking */
+  dryRun?: boolean;
+}
+
+export interface WorkspaceAuditSummary {
+  guestCount: number;
+  flagged: number;
+  exempt: number;
+  /** Monthly cost of inactive multi-channel guests in USD */
+  estimatedWaste: number;
+  /** Set when plan limits stopped the audit before scoring */
+  skippedReason?: string;
+  /** Slack API calls made by this audit, per method, across every slice of a queued job */
+  slackCalls?: SlackCallStats;
+}
+
+export type ManualAuditResult =
+  | { ok: true; summary: WorkspaceAuditSummary }
+  | { ok: false; reason: string };
+
+/** `queued` is false when the workspace already had an audit in progress */
+export type QueuedAuditResult =
+  | { ok: true; queued: boolean }
+  | { ok: false; reason: string };
+
+export type AuditPreviewResult =
+  | { ok: true; preview: AuditPreview }
+  | { ok: false; reason: string };
+
+interface PreviewAuditOptions {
+  /** From the dashboard — throttled by AUDIT_PREVIEW, apart from manual scans */
+  manual?: boolean;
+}
+
+export interface SignalBreakdown {
+  signal: ActivitySignalId;
+  enabled: boolean;
+  weight: number;
+  /** True when the signal fired inside the activity window */
+  matched: boolean;
+  /** Human-readable evidence, e.g. "last message Oct 2, 2026" */
+  detail: string;
 }
 
-/** Run an array of async tasks with bounded concurrency. */
+export interface GuestScoreBreakdown {
+  guest: SlackUser;
+  score: number;
+  minActiveScore: number;
+  activityWindowDays: number;
+  signals: SignalBreakdown[];
+  /** Unix seconds of the most recent activity seen by any signal, if known */
+  lastActivityAt: number | null;
+}
+
+/**
+ * Run an array of async tasks with bounded concurrency. No batch starts
+ * after `stopAt` (epoch ms) — the results then cover only the tasks run.
+ */
 async function withConcurrency<T>(
   tasks: Array<() => Promise<T>>,
-  limit: number
+  limit: number,
+  stopAt: number = Infinity
 ): Promise<T[]> {
   const results: T[] = [];
   for (let i = 0; i < tasks.length; i += limit) {
+    if (Date.now() >= stopAt) break;
     const batch = tasks.slice(i, i + limit).map(fn => fn());
     results.push(...(await Promise.all(batch)));
   }
   return results;
 }
 
+const DEFAULT_SKIP_REASON = 'Plan limits prevent this audit.';
+
+function toErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** A queued job's run, carried on from the slices before this one */
+function toJobRunContext(job: AuditJob): RunContext {
+  return {
+    startedAt: new Date(job.started_at ?? job.created_at).getTime(),
+    manual: job.manual,
+    slackCalls: createSlackCallStats(job.slack_calls),
+  };
+}
+
+/** A scored guest's guest_observations status */
+function observedStatus(
+  sg: ScoredGuest,
+  graceGuestIds: Set<string>,
+  policy: EffectiveAuditPolicy
+): GuestObservationStatus {
+  if (sg.score >= policy.minActiveScore) return 'active';
+  return graceGuestIds.has(sg.guest.id) ? 'grace' : 'inactive';
+}
+
 export class AuditService {
   /**
-   * Audits all workspaces with an active or trialing subscription.
-   * Returns a summary of workspaces audited and guests flagged.
+   * Scheduler tick: queues an audit job for every active paid workspace
+   * whose scheduled slot has come (see audit-schedule.service), then works
+   * through the queue like the audit worker does. Jobs that don't finish
+   * inside the time budget resume on the next worker run from their last
+   * checkpoint.
    */
-  async auditAllActiveWorkspaces(): Promise<AuditRunResult> {
+  async auditDueWorkspaces(): Promise<AuditRunResult> {
+    const now = new Date();
     const workspaces = await this.fetchActiveWorkspaces();
+    const dueIds = workspaces.filter(ws => isAuditDue(ws, now)).map(ws => ws.id);
 
-    if (workspaces.length === 0) {
-      logger.info('No active workspaces to audit');
-      return { audited: 0, flagged: 0 };
-    }
+    const queued = await auditJobService.enqueue(dueIds);
+    await auditScheduleService.markScheduled(dueIds, now);
+    logger.info('Starting audit', { workspaceCount: workspaces.length, due: dueIds.length, queued });
 
-    logger.info('Starting audit', { workspaceCount: workspaces.length });
+    return this.processAuditJobs();
+  }
 
+  /**
+   * Claims due audit jobs WORKSPACE_BATCH_SIZE at a time and runs them in
+   * parallel until the queue is empty or budgetMs has passed. Returns the
+   * workspaces whose audit completed during this call and the jobs still open.
+   */
+  async processAuditJobs(budgetMs: number = AUDIT_JOBS.WORKER_BUDGET_MS): Promise<AuditRunResult> {
+    const deadline = Date.now() + budgetMs;
     let totalAudited = 0;
     let totalFlagged = 0;
 
-    // Process in batches to limit concurrent DB connections and Slack API calls
-    for (let i = 0; i < workspaces.length; i += AUDIT.WORKSPACE_BATCH_SIZE) {
-      const batch = workspaces.slice(i, i + AUDIT.WORKSPACE_BATCH_SIZE);
-      const results = await Promise.allSettled(
-        batch.map(ws => this.auditWorkspace(ws))
-      );
+    // Jobs whose worker died back off; those out of attempts are failed runs
+    for (const job of await auditJobService.expireLeases()) {
+      await this.recordUnscoredRun(job.workspace_id, AUDIT_RUN_STATUS.FAILED, job.last_error ?? 'Worker timed out', job.guest_count ?? 0, toJobRunContext(job));
+    }
 
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
+    // Bounded batches limit concurrent DB connections and Slack API calls
+    while (Date.now() < deadline) {
+      const jobs = await auditJobService.claim(AUDIT.WORKSPACE_BATCH_SIZE);
+      if (jobs.length === 0) break;
+
+      // runAuditJob never throws — failures are recorded on the job for retry
+      const summaries = await Promise.all(jobs.map(job => this.runAuditJob(job, deadline)));
+      for (const summary of summaries) {
+        if (summary) {
           totalAudited++;
-          totalFlagged += result.value.flagged;
+          totalFlagged += summary.flagged;
         }
-        // Individual workspace errors are logged inside auditWorkspace
       }
     }
 
-    logger.info('Audit completed', { audited: totalAudited, flagged: totalFlagged });
-    return { audited: totalAudited, flagged: totalFlagged };
+    const pending = await auditJobService.countOpen();
+    logger.info('Audit completed', { audited: totalAudited, flagged: totalFlagged, pending });
+    return { audited: totalAudited, flagged: totalFlagged, pending };
+  }
+
+  /**
+   * Runs an on-demand audit for one workspace, subject to canRunManualScan.
+   */
+  async runManualAudit(workspaceId: string): Promise<ManualAuditResult> {
+    const claimed = await this.claimManualScan(workspaceId);
+    if (!claimed.ok) return claimed;
+
+    const summary = await this.auditWorkspace(claimed.workspace, { manual: true });
+    return summary.skippedReason
+      ? { ok: false, reason: summary.skippedReason }
+      : { ok: true, summary };
+  }
+
+  /**
+   * Queues an on-demand audit for one workspace, subject to canRunManualScan.
+   * The audit worker runs it in time-boxed slices like a scheduled audit.
+   */
+  async queueManualAudit(workspaceId: string): Promise<QueuedAuditResult> {
+    const claimed = await this.claimManualScan(workspaceId);
+    if (!claimed.ok) return claimed;
+
+    const queued = await auditJobService.enqueue([workspaceId], true);
+    logger.info('Manual audit queued', { workspaceId, queued: queued > 0 });
+    return { ok: true, queued: queued > 0 };
+  }
+
+  /**
+   * Dry run: scores the workspace's guests against its current policy and
+   * reports what an audit would flag, clear and alert on. Nothing is written
+   * to guest_audits, audit_runs or guest_observations and no one is messaged.
+   *
+   * Dashboard previews (`manual`) have their own throttle and leave the
+   * manual-scan allowance and workspace_usage alone; the internal route
+   * previews any active workspace without a throttle.
+   */
+  async previewAudit(workspaceId: string, options: PreviewAuditOptions = {}): Promise<AuditPreviewResult> {
+    let workspace: Workspace;
+    if (options.manual) {
+      const claimed = await this.claimPreview(workspaceId);
+      if (!claimed.ok) return claimed;
+      workspace = claimed.workspace;
+    } else {
+      const { data, error } = await supabase.from('workspaces').select('*').eq('id', workspaceId).single();
+      if (error || !data || !data.is_active) {
+        return { ok: false, reason: 'Workspace not found or inactive.' };
+      }
+      workspace = data as Workspace;
+    }
+
+    const token = await workspaceTokenService.getAccessToken(workspace);
+    const slackCalls = createSlackCallStats();
+
+    return countSlackCalls(slackCalls, async (): Promise<AuditPreviewResult> => {
+      const prepared = await this.prepareGuests(workspace, token, { manual: true, dryRun: true });
+      if ('skipped' in prepared) {
+        return { ok: false, reason: prepared.skipped.skippedReason ?? DEFAULT_SKIP_REASON };
+      }
+
+      const policy = await policyService.getPolicy(workspace.id);
+      const context = this.buildSignalContext(workspace, token, policy);
+      const { data: signalData } = await this.loadSignalData(context);
+      const score = await this.prepareScoring(context, signalData);
+      const scoredGuests = await score(prepared.auditableGuests);
+      const preview = await this.buildPreview(workspace, policy, scoredGuests, prepared.exemptGuests);
+
+      logger.info('Audit preview complete', {
+        workspaceId: workspace.id,
+        guests: preview.guestCount,
+        wouldFlag: preview.wouldFlag.length,
+        wouldClear: preview.wouldClear.length,
+        wouldAlert: preview.wouldAlert.length,
+        slackCalls,
+      });
+
+      return { ok: true, preview };
+    });
+  }
+
+  /**
+   * Scores one guest live against the workspace policy, evaluating every
+   * enabled signal (no short-circuit) so the result explains the score.
+   * Signals that read workspace-wide data aren't prepared for one guest —
+   * their evidence comes from the guest's last audit.
+   * Returns null when the user doesn't exist or isn't a guest.
+   */
+  async explainGuestScore(workspaceId: string, guestId: string): Promise<GuestScoreBreakdown | null> {
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .select('*')
+      .eq('id', workspaceId)
+      .single();
+
+    if (error || !workspace) {
+      throw new Error(`Failed to load workspace ${workspaceId}: ${error?.message ?? 'not found'}`);
+    }
+
+    const token = await workspaceTokenService.getAccessToken(workspace as Workspace);
+    const guest = await getUser(token, guestId);
+    if (!guest || !(guest.is_restricted || guest.is_ultra_restricted)) {
+      return null;
+    }
+
+    const [policy, lastAuditResult] = await Promise.all([
+      policyService.getPolicy(workspaceId),
+      supabase
+        .from('guest_audits')
+        .select('signal_results')
+        .eq('workspace_id', workspaceId)
+        .eq('slack_user_id', guestId)
+        .maybeSingle(),
+    ]);
+    const context = this.buildSignalContext(workspace as Workspace, token, policy);
+    const lastAuditResults = lastAuditResult.data?.signal_results ?? emptySignalResults(guest);
+    const enabled = new Set(policy.enabledSignals);
+
+    const signals: SignalBreakdown[] = [];
+    const activityTimestamps: number[] = [];
+    for (const signal of ACTIVITY_SIGNALS) {
+      const breakdown = { signal: signal.id, enabled: enabled.has(signal.id), weight: policy.signalWeights[signal.id] };
+      if (!breakdown.enabled) {
+        signals.push({ ...breakdown, matched: false, detail: 'not checked' });
+        continue;
+      }
+
+      const evidence = signal.fromLastAudit
+        ? signal.fromLastAudit(lastAuditResults, context.cutoff)
+        : await (await signal.prepare(context))(guest);
+      signals.push({ ...breakdown, matched: evidence.matched, detail: evidence.detail });
+      if (evidence.lastActivityAt) activityTimestamps.push(evidence.lastActivityAt);
+    }
+
+    const score = signals
+      .filter(s => s.enabled && s.matched)
+      .reduce((sum, s) => sum + s.weight, 0);
+
+    return {
+      guest,
+      score,
+      minActiveScore: policy.minActiveScore,
+      activityWindowDays: policy.activityWindowDays,
+      signals,
+      lastActivityAt: activityTimestamps.length > 0 ? Math.max(...activityTimestamps) : null,
+    };
   }
 
   // ---------------------------------------------------------------------------
   // Private methods
   // ---------------------------------------------------------------------------
 
+  /**
+   * Loads the workspace and applies canRunManualScan. Records the scan in
+   * workspace_usage before it runs so concurrent requests are throttled too.
+   */
+  private async claimManualScan(
+    workspaceId: string
+  ): Promise<{ ok: true; workspace: Workspace } | { ok: false; reason: string }> {
+    const [workspaceResult, usageResult] = await Promise.all([
+      supabase.from('workspaces').select('*').eq('id', workspaceId).single(),
+      supabase.from('workspace_usage').select('scans_this_week, last_scan_at').eq('workspace_id', workspaceId).maybeSingle(),
+    ]);
+
+    const workspace = workspaceResult.data as Workspace | null;
+    if (workspaceResult.error || !workspace || !workspace.is_active) {
+      return { ok: false, reason: 'Workspace not found or inactive.' };
+    }
+
+    const { allowed, reason } = canRunManualScan(workspace.plan_type, usageResult.data?.last_scan_at ?? null);
+    if (!allowed) {
+      return { ok: false, reason: reason ?? 'Manual scans are not available on this plan.' };
+    }
+
+    const { error: usageError } = await supabase
+      .from('workspace_usage')
+      .upsert({
+        workspace_id: workspaceId,
+        last_scan_at: new Date().toISOString(),
+        scans_this_week: (usageResult.data?.scans_this_week ?? 0) + 1,
+      }, { onConflict: 'workspace_id' });
+
+    if (usageError) {
+      logger.error('Failed to record manual scan usage', { workspaceId }, usageError);
+    }
+
+    return { ok: true, workspace };
+  }
+
+  /**
+   * Claims a dashboard preview: stamps last_audit_preview_at only if the
+   * last preview is older than AUDIT_PREVIEW.MIN_MINUTES_BETWEEN, so
+   * concurrent requests can't both pass.
+   */
+  private async claimPreview(
+    workspaceId: string
+  ): Promise<{ ok: true; workspace: Workspace } | { ok: false; reason: string }> {
+    const now = Date.now();
+    const threshold = new Date(now - AUDIT_PREVIEW.MIN_MINUTES_BETWEEN * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .update({ last_audit_preview_at: new Date(now).toISOString() })
+      .eq('id', workspaceId)
+      .eq('is_active', true)
+      .or(`last_audit_preview_at.is.null,last_audit_preview_at.lt.${threshold}`)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to claim audit preview for workspace ${workspaceId}: ${error.message}`);
+    }
+    if (data) return { ok: true, workspace: data as Workspace };
+
+    const { data: existing } = await supabase
+      .from('workspaces')
+      .select('is_active')
+      .eq('id', workspaceId)
+      .maybeSingle();
+    if (!existing?.is_active) {
+      return { ok: false, reason: 'Workspace not found or inactive.' };
+    }
+    return {
+      ok: false,
+      reason: `A preview ran in the last ${AUDIT_PREVIEW.MIN_MINUTES_BETWEEN} minutes. Please wait a few minutes and try again.`,
+    };
+  }
+
   private async fetchActiveWorkspaces(): Promise<Workspace[]> {
     const { data, error } = await supabase
       .from('workspaces')
@@ -110,179 +496,799 @@ export class AuditService {
     return data ?? [];
   }
 
-  private async auditWorkspace(workspace: Workspace): Promise<{ flagged: number }> {
-    const startedAt = Date.now();
-    logger.info('Auditing workspace', { workspaceId: workspace.id, teamName: workspace.team_name });
+  /**
+   * Audits one workspace start to finish in this request — used for manual
+   * audits, which an admin is waiting on. Scheduled audits go through
+   * runAuditJob instead.
+   */
+  private async auditWorkspace(
+    workspace: Workspace,
+    options: AuditWorkspaceOptions = {}
+  ): Promise<WorkspaceAuditSummary> {
+    const run: RunContext = { startedAt: Date.now(), manual: !!options.manual, slackCalls: createSlackCallStats() };
+    logger.info('Auditing workspace', { workspaceId: workspace.id, teamName: workspace.team_name, manual: run.manual });
 
-    try {
-      let token = decrypt(workspace.access_token);
-
-      if (workspace.refresh_token && workspace.token_expires_at) {
-        const expiresAt = new Date(workspace.token_expires_at).getTime();
-        // If it expires in less than 5 minutes, refresh
-        if (Date.now() > expiresAt - 5 * 60 * 1000) {
-          logger.info('Refreshing Slack token', { workspaceId: workspace.id });
-          const newTokens = await refreshSlackToken(decrypt(workspace.refresh_token));
-
-          token = newTokens.access_token;
-
-          const newExpiresAt = new Date(Date.now() + newTokens.expires_in * 1000).toISOString();
-          await supabase.from('workspaces').update({
-            access_token: encrypt(newTokens.access_token),
-            refresh_token: encrypt(newTokens.refresh_token),
-            token_expires_at: newExpiresAt,
-          }).eq('id', workspace.id);
+    return countSlackCalls(run.slackCalls, async () => {
+      try {
+        const token = await workspaceTokenService.getAccessToken(workspace);
+
+        const prepared = await this.prepareGuests(workspace, token, options);
+        if ('skipped' in prepared) {
+          const { skippedReason, guestCount } = prepared.skipped;
+          await this.recordUnscoredRun(workspace.id, AUDIT_RUN_STATUS.SKIPPED, skippedReason ?? DEFAULT_SKIP_REASON, guestCount, run);
+          return prepared.skipped;
         }
+
+        const policy = await policyService.getPolicy(workspace.id);
+        const context = this.buildSignalContext(workspace, token, policy);
+        const { data: signalData } = await this.loadSignalData(context);
+        const score = await this.prepareScoring(context, signalData);
+        const scoredGuests = await score(prepared.auditableGuests);
+
+        return await this.finishAudit(workspace, token, policy, scoredGuests, prepared.exemptGuests, run);
+      } catch (err) {
+        logger.error('Workspace audit failed', {
+          workspaceId: workspace.id,
+          teamName: workspace.team_name,
+        }, err);
+        await this.recordUnscoredRun(workspace.id, AUDIT_RUN_STATUS.FAILED, toErrorMessage(err), 0, run);
+        throw err;
       }
+    });
+  }
+
+  /**
+   * Runs one slice of a queued audit. The first slice snapshots the guest
+   * list; then workspace-wide signal data is loaded, over several slices
+   * if it is large, and stored on the job. Slices then score guests from
+   * the job's cursor in CHECKPOINT_SIZE chunks, checkpointing after each,
+   * until all are scored or the deadline passes — signals stop between
+   * Slack calls then, and the unfinished guests are scored next slice.
+   * Returns the summary once the audit is finished, null when the job was
+   * handed back to the queue or failed.
+   */
+  private async runAuditJob(job: AuditJob, deadline: number): Promise<WorkspaceAuditSummary | null> {
+    const logContext = { jobId: job.id, workspaceId: job.workspace_id, cursor: job.cursor, attempts: job.attempts };
+    logger.info('Running audit job', logContext);
 
-      const guests = await getGuests(token);
-      const costPerSeat = workspace.estimated_seat_cost ?? BILLING.DEFAULT_SEAT_COST_USD;
+    const run = toJobRunContext(job);
+    return countSlackCalls(run.slackCalls, async () => {
+      try {
+        const { data: workspace, error } = await supabase
+          .from('workspaces')
+          .select('*')
+          .eq('id', job.workspace_id)
+          .single();
 
-      const { allowed, reason } = canRunBackgroundAudit(workspace.plan_type, guests.length);
-      if (!allowed) {
-        logger.warn('Skipping workspace audit, plan limits exceeded', { workspaceId: workspace.id, reason });
-        return { flagged: 0 };
+        if (error || !workspace) {
+          throw new Error(`Failed to load workspace ${job.workspace_id}: ${error?.message ?? 'not found'}`);
+        }
+
+        const token = await workspaceTokenService.getAccessToken(workspace as Workspace);
+
+        let guestCount = job.guest_count;
+        if (guestCount === null) {
+          const prepared = await this.prepareGuests(workspace as Workspace, token, { manual: job.manual });
+          if ('skipped' in prepared) {
+            const { skippedReason, guestCount: listed } = prepared.skipped;
+            await this.recordUnscoredRun(job.workspace_id, AUDIT_RUN_STATUS.SKIPPED, skippedReason ?? DEFAULT_SKIP_REASON, listed, run);
+            await auditJobService.complete(job.id, prepared.skipped);
+            return prepared.skipped;
+          }
+
+          await auditJobService.saveSnapshot(job.id, prepared.auditableGuests, prepared.exemptGuests);
+          guestCount = prepared.auditableGuests.length;
+        }
+
+        const policy = await policyService.getPolicy(job.workspace_id);
+        const context = this.buildSignalContext(workspace as Workspace, token, policy, deadline);
+
+        // Loaded by the first slices; later ones only load signals enabled since
+        const signalData = await this.loadSignalData(context, job.signal_data ?? {}, true);
+        if (signalData.changed) {
+          await auditJobService.saveSignalData(job.id, signalData.data);
+        }
+        if (!signalData.done) {
+          await auditJobService.release(job.id, run.slackCalls);
+          logger.info('Audit job paused while loading signal data', logContext);
+          return null;
+        }
+        const score = await this.prepareScoring(context, signalData.data);
+
+        let cursor = job.cursor;
+        while (cursor < guestCount) {
+          if (Date.now() >= deadline) {
+            await auditJobService.release(job.id, run.slackCalls);
+            logger.info('Audit job paused at checkpoint', { ...logContext, cursor, guestCount });
+            return null;
+          }
+
+          const chunk = await auditJobService.loadGuestsFrom(job.id, cursor, AUDIT_JOBS.CHECKPOINT_SIZE);
+          if (chunk.length === 0) break;
+
+          // Stops early at the deadline; the rest of the chunk is scored next slice
+          const scored = await score(chunk);
+          cursor += scored.length;
+          await auditJobService.checkpoint(job.id, scored, cursor, run.slackCalls);
+        }
+
+        const snapshot = await auditJobService.loadSnapshot(job.id);
+        const scoredGuests: ScoredGuest[] = snapshot
+          .filter(row => row.score !== null && row.signal_results)
+          .map(row => ({ guest: row.guest, score: row.score!, source: row.source ?? '', signals: row.signal_results! }));
+        const exemptGuests: ExemptGuest[] = snapshot
+          .filter(row => row.exemption_id && row.exemption_rule_type)
+          .map(row => ({ guest: row.guest, exemption: { id: row.exemption_id!, rule_type: row.exemption_rule_type! } }));
+
+        // Not checkpointed: a worker that dies while finishing re-runs this step
+        const summary = await this.finishAudit(workspace as Workspace, token, policy, scoredGuests, exemptGuests, run);
+        await auditJobService.complete(job.id, summary);
+        return summary;
+      } catch (err) {
+        logger.error('Audit job failed', logContext, err);
+        // Retried slices aren't runs yet — only an abandoned job is recorded as failed
+        if (await auditJobService.fail(job, err)) {
+          await this.recordUnscoredRun(job.workspace_id, AUDIT_RUN_STATUS.FAILED, toErrorMessage(err), job.guest_count ?? 0, run);
+        }
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Lists the workspace's guests, applies plan limits and sets exempted
+   * guests aside. Returns a skipped summary when plan limits stop the audit.
+   * Also marks guests orphaned whose sponsor users.list shows as deactivated.
+   */
+  private async prepareGuests(
+    workspace: Workspace,
+    token: string,
+    options: AuditWorkspaceOptions
+  ): Promise<{ auditableGuests: SlackUser[]; exemptGuests: ExemptGuest[] } | { skipped: WorkspaceAuditSummary }> {
+    const { guests, deactivatedUserIds } = await getWorkspaceRoster(token);
+
+    // Manual scans are gated by canRunManualScan upstream — only the guest cap applies here
+    const { allowed, reason } = options.manual
+      ? checkGuestLimit(workspace.plan_type, guests.length)
+      : canRunBackgroundAudit(workspace.plan_type, guests.length);
+    if (!allowed) {
+      logger.warn('Skipping workspace audit, plan limits exceeded', { workspaceId: workspace.id, reason });
+      return {
+        skipped: { guestCount: guests.length, flagged: 0, exempt: 0, estimatedWaste: 0, skippedReason: reason },
+      };
+    }
+
+    const [exemptionRules] = await Promise.all([
+      exemptionService.getActiveRules(workspace.id),
+      // Message / reaction events are only tracked for guests registered here
+      options.dryRun ? null : guestActivityService.ensureGuests(workspace.id, guests.map(g => g.id)),
+      // Catches sponsors whose user_change event was missed
+      options.dryRun ? null : guestSponsorService.detectOrphans(workspace.id, deactivatedUserIds),
+    ]);
+
+    // Exempted guests are set aside before scoring — no API calls, no flag, no DM
+    const exemptGuests: ExemptGuest[] = [];
+    const auditableGuests: SlackUser[] = [];
+    for (const guest of guests) {
+      const exemption = findMatchingExemption(guest, exemptionRules);
+      if (exemption) {
+        exemptGuests.push({ guest, exemption });
+      } else {
+        auditableGuests.push(guest);
       }
+    }
 
-      // Score all guests concurrently
-      const scoredGuests = await this.scoreGuests(token, guests);
+    return { auditableGuests, exemptGuests };
+  }
+
+  /**
+   * Records the scored guests: flags and clears guest_audits, records
+   * account expirations, sends alerts, and writes the audit run with its
+   * per-guest observations, diagnostics and changes since the previous run.
+   * A run whose DMs or writes partly failed is recorded as partial with
+   * what went wrong.
+   */
+  private async finishAudit(
+    workspace: Workspace,
+    token: string,
+    policy: EffectiveAuditPolicy,
+    scoredGuests: ScoredGuest[],
+    exemptGuests: ExemptGuest[],
+    run: RunContext
+  ): Promise<WorkspaceAuditSummary> {
+    const guestCount = scoredGuests.length + exemptGuests.length;
+    const guestIds = [...scoredGuests.map(sg => sg.guest.id), ...exemptGuests.map(eg => eg.guest.id)];
+    const costPerSeat = workspace.estimated_seat_cost ?? BILLING.DEFAULT_SEAT_COST_USD;
+    const [snoozedGuestIds, joinDates] = await Promise.all([
+      this.fetchSnoozedGuestIds(workspace.id),
+      guestJoinService.resolveJoinDates(workspace, guestIds),
+    ]);
 
-      const inactiveGuests = scoredGuests.filter(sg => sg.score < AUDIT.MIN_ACTIVE_SCORE);
-      const activeGuests = scoredGuests.filter(sg => sg.score >= AUDIT.MIN_ACTIVE_SCORE);
+    const { activeGuests, inactiveGuests, graceGuests } = this.classifyGuests(scoredGuests, policy, joinDates);
+    const graceGuestIds = new Set(graceGuests.map(sg => sg.guest.id));
 
-      // Batch DB operations
-      await Promise.all([
-        this.flagGuests(workspace.id, inactiveGuests, costPerSeat),
-        this.clearActiveGuests(workspace.id, activeGuests.map(sg => sg.guest.id)),
-      ]);
+    // Diffed before this run is recorded, so the latest completed run is the previous one
+    const changes = await this.computeChanges(workspace.id, scoredGuests, exemptGuests, graceGuestIds, policy);
 
-      // Fetch sponsors for all inactive guests in one batch query.
-      // sponsor = null is expected when Slack didn't fire invite_requested — not an error.
-      const sponsorMap = await this.fetchSponsors(
+    // Batch DB operations
+    const problems: string[] = [];
+    const checkedAt = new Date().toISOString();
+    const expirations = [
+      ...scoredGuests.map(sg => toGuestExpiration(workspace.id, sg.guest, false, checkedAt)),
+      ...exemptGuests.map(eg => toGuestExpiration(workspace.id, eg.guest, true, checkedAt)),
+    ];
+
+    // Guests in their grace period are cleared like active ones — a flag from before can't stand
+    const unflaggedGuestIds = [...activeGuests, ...graceGuests].map(sg => sg.guest.id);
+    const [flagged, cleared, exemptRecorded, expirationsRecorded] = await Promise.all([
+      this.flagGuests(workspace.id, inactiveGuests, costPerSeat, snoozedGuestIds),
+      this.clearActiveGuests(workspace.id, unflaggedGuestIds, snoozedGuestIds),
+      this.recordExemptGuests(workspace.id, exemptGuests, costPerSeat),
+      guestExpirationService.recordExpirations(workspace.id, expirations),
+      escalationService.clearEscalations(
         workspace.id,
-        inactiveGuests.map(sg => sg.guest.id)
+        [...unflaggedGuestIds, ...exemptGuests.map(eg => eg.guest.id)]
+      ),
+    ]);
+    if (!flagged || !cleared || !exemptRecorded || !expirationsRecorded) {
+      problems.push('some guest results could not be saved');
+    }
+
+    // Snoozed guests stay flagged but are never re-alerted until the snooze expires
+    const guestsToAlert = inactiveGuests.filter(sg => !snoozedGuestIds.has(sg.guest.id));
+
+    // Fetch sponsors for all inactive guests in one batch query.
+    // sponsor = null is expected when Slack didn't fire invite_requested — not an error.
+    const sponsorMap = await this.fetchSponsors(
+      workspace.id,
+      guestsToAlert.map(sg => sg.guest.id)
+    );
+
+    const expirationIssues = expirations.filter(e => getExpirationIssue(e, policy.maxGuestExpirationDays));
+
+    // Per-guest DMs or a single digest, depending on the workspace's alert mode.
+    // Guests failing the expiration policy get one summary DM of their own, as
+    // do guests still orphaned by a departed sponsor — each when the list has
+    // someone new, or as a periodic reminder.
+    // Free-plan manual scans update the dashboard but never DM.
+    const dms = { sent: 0, failed: 0 };
+    if (canSendAlerts(workspace.plan_type, guestCount)) {
+      const alerts = this.buildAlerts(guestsToAlert, sponsorMap, costPerSeat);
+      if (changes) {
+        const newlyInactive = new Set(changes.newlyInactive);
+        const invited = new Set(changes.invited);
+        for (const alert of alerts) {
+          alert.change = newlyInactive.has(alert.guestId)
+            ? 'newly_inactive'
+            : invited.has(alert.guestId) ? 'invited' : 'still_inactive';
+        }
+      }
+
+      // With sponsor escalation on, sponsored guests go to their sponsor first
+      const { adminAlerts, sponsorDms } = await escalationService.routeAlerts(
+        workspace,
+        alerts,
+        policy.activityWindowDays
       );
+      const adminDms = await alertService.sendAlerts(
+        token,
+        workspace,
+        adminAlerts,
+        policy.activityWindowDays,
+        changes
+      );
+      dms.sent = sponsorDms.sent + adminDms.sent;
+      dms.failed = sponsorDms.failed + adminDms.failed;
+
+      // Expiration alerts repeat only when a guest starts failing, or as a periodic reminder
+      const failingGuestIds = expirationIssues.map(e => e.slack_user_id);
+      if (
+        policy.maxGuestExpirationDays !== null
+        && await guestExpirationService.isAlertDue(workspace.id, failingGuestIds)
+      ) {
+        const expirationDms = await alertService.sendExpirationAlert(
+          token,
+          workspace,
+          expirationIssues.map(e => ({ guestId: e.slack_user_id, expiresAt: e.expires_at })),
+          policy.maxGuestExpirationDays
+        );
+        dms.sent += expirationDms.sent;
+        dms.failed += expirationDms.failed;
+        if (expirationDms.sent > 0) {
+          await guestExpirationService.markAlerted(workspace.id, failingGuestIds);
+        }
+      }
+
+      // Likewise for orphaned guests: new ones, or a periodic reminder
+      const orphanedGuests = await guestSponsorService.listOrphansDue(workspace.id, guestIds);
+      const orphanDms = await alertService.sendOrphanAlert(token, workspace, orphanedGuests);
+      dms.sent += orphanDms.sent;
+      dms.failed += orphanDms.failed;
+      if (orphanDms.sent > 0) {
+        await guestSponsorService.markOrphansAlerted(workspace.id, orphanedGuests.map(g => g.guestId));
+      }
+    }
+    if (dms.failed > 0) {
+      problems.push(`${dms.failed} of ${dms.sent + dms.failed} DMs failed`);
+    }
+
+    const paidInactiveGuests = inactiveGuests.filter(sg => sg.guest.is_restricted && !sg.guest.is_ultra_restricted);
+    const estimatedWaste = paidInactiveGuests.length * costPerSeat;
+
+    // Record audit snapshot
+    const completedAt = Date.now();
+    const durationMs = completedAt - run.startedAt;
+    const slackCalls = createSlackCallStats(run.slackCalls);
+    const auditRunId = await auditRunService.record({
+      workspace_id: workspace.id,
+      workspace_guest_count: guestCount,
+      workspace_inactive_count: inactiveGuests.length,
+      workspace_exempt_count: exemptGuests.length,
+      workspace_estimated_waste: estimatedWaste,
+      status: problems.length > 0 ? AUDIT_RUN_STATUS.PARTIAL : AUDIT_RUN_STATUS.SUCCEEDED,
+      started_at: new Date(run.startedAt).toISOString(),
+      completed_at: new Date(completedAt).toISOString(),
+      duration_ms: durationMs,
+      error_message: problems.length > 0 ? problems.join('; ') : null,
+      manual: run.manual,
+      slack_calls: slackCalls,
+      dms_sent: dms.sent,
+      dms_failed: dms.failed,
+      changes,
+    });
 
-      // Send DM alerts in parallel (failures isolated per guest)
-      await Promise.allSettled(
-        inactiveGuests.map(sg => {
-          const isMultiChannel = sg.guest.is_restricted && !sg.guest.is_ultra_restricted;
-          const actualSeatCost = isMultiChannel ? costPerSeat : 0;
-          return this.sendInactiveAlert(
-            token,
-            workspace,
-            sg.guest.id,
-            actualSeatCost,
-            sponsorMap.get(sg.guest.id) ?? null
-          );
-        })
+    if (!auditRunId) {
+      logger.error('Skipping guest history — audit run was not recorded', { workspaceId: workspace.id });
+    } else {
+      const historyRecorded = await guestHistoryService.recordObservations(
+        workspace.id,
+        this.buildObservations(workspace.id, auditRunId, scoredGuests, exemptGuests, graceGuestIds, policy, costPerSeat)
       );
+      if (!historyRecorded) {
+        problems.push('guest history could not be saved');
+        await auditRunService.markPartial(auditRunId, problems.join('; '));
+      }
+    }
 
-      const paidInactiveGuests = inactiveGuests.filter(sg => sg.guest.is_restricted && !sg.guest.is_ultra_restricted);
+    await auditRunService.recordUsage(workspace.id, durationMs, dms.sent);
 
-      // Record audit snapshot
-      const runData: AuditRunInsert = {
-        workspace_id: workspace.id,
-        workspace_guest_count: scoredGuests.length,
-        workspace_inactive_count: inactiveGuests.length,
-        workspace_estimated_waste: paidInactiveGuests.length * costPerSeat,
-      };
-      await supabase.from('audit_runs').insert(runData);
+    logger.info('Workspace audit complete', {
+      workspaceId: workspace.id,
+      guests: guestCount,
+      inactive: inactiveGuests.length,
+      snoozed: inactiveGuests.length - guestsToAlert.length,
+      exempt: exemptGuests.length,
+      inGrace: graceGuests.length,
+      expirationIssues: expirationIssues.length,
+      durationMs,
+      dms,
+      problems,
+      slackCalls,
+      changes: changes && {
+        newlyInactive: changes.newlyInactive.length,
+        reactivated: changes.reactivated.length,
+        removed: changes.removed.length,
+        invited: changes.invited.length,
+      },
+    });
 
-      const durationMs = Date.now() - startedAt;
-      logger.info('Workspace audit complete', {
-        workspaceId: workspace.id,
-        guests: guests.length,
-        inactive: inactiveGuests.length,
-        durationMs,
-      });
+    return {
+      guestCount,
+      flagged: inactiveGuests.length,
+      exempt: exemptGuests.length,
+      estimatedWaste,
+      slackCalls,
+    };
+  }
 
-      return { flagged: inactiveGuests.length };
+  /**
+   * Diffs this run's guest statuses against the previous completed run.
+   * Null on a workspace's first audit, or when the previous run can't be
+   * read (logged) — the audit goes on without a "What changed" section.
+   */
+  private async computeChanges(
+    workspaceId: string,
+    scoredGuests: ScoredGuest[],
+    exemptGuests: ExemptGuest[],
+    graceGuestIds: Set<string>,
+    policy: EffectiveAuditPolicy
+  ): Promise<AuditRunChanges | null> {
+    try {
+      const previousRun = await auditRunService.getLatestCompleted(workspaceId);
+      if (!previousRun) return null;
+
+      const previous = await guestHistoryService.getRunStatuses(previousRun.id);
+      const current = new Map<string, GuestObservationStatus>();
+      for (const sg of scoredGuests) {
+        current.set(sg.guest.id, observedStatus(sg, graceGuestIds, policy));
+      }
+      for (const { guest } of exemptGuests) {
+        current.set(guest.id, 'exempt');
+      }
+
+      return {
+        previousRunId: previousRun.id,
+        previousRunAt: previousRun.created_at,
+        ...diffRunStatuses(previous, current),
+      };
     } catch (err) {
-      logger.error('Workspace audit failed', {
-        workspaceId: workspace.id,
-        teamName: workspace.team_name,
-      }, err);
-      throw err;
+      logger.error('Failed to compute changes since the previous audit', { workspaceId }, err);
+      return null;
     }
   }
 
+  /** Records a run that stopped before scoring — skipped by plan limits, or failed */
+  private async recordUnscoredRun(
+    workspaceId: string,
+    status: Extract<AuditRunStatus, 'skipped' | 'failed'>,
+    errorMessage: string,
+    guestCount: number,
+    run: RunContext
+  ): Promise<void> {
+    const completedAt = Date.now();
+
+    await auditRunService.record({
+      workspace_id: workspaceId,
+      workspace_guest_count: guestCount,
+      workspace_inactive_count: 0,
+      workspace_exempt_count: 0,
+      workspace_estimated_waste: 0,
+      status,
+      started_at: new Date(run.startedAt).toISOString(),
+      completed_at: new Date(completedAt).toISOString(),
+      duration_ms: completedAt - run.startedAt,
+      error_message: errorMessage,
+      manual: run.manual,
+      slack_calls: run.slackCalls,
+      dms_sent: 0,
+      dms_failed: 0,
+    });
+  }
+
   /**
-   * Scores each guest for inactivity using a 3-signal lazy evaluation strategy.
-   *
-   * Signals (in order of cost, cheapest first):
-   *   1. Profile update  (+1.0) — free, already in users.list response
-   *   2. Presence active (+0.5) — cheap, 1 API call per guest
-   *   3. Last message    (+3.0) — expensive, 1-3 API calls per guest; last resort
-   *
-   * Short-circuits as soon as score >= MIN_ACTIVE_SCORE to avoid unnecessary
-   * API calls. Processes guests in batches of GUEST_SCORING_CONCURRENCY to
-   * prevent request floods on large workspaces.
+   * What finishAudit would do with these scores — the guests it would flag,
+   * clear and alert on — worked out with reads only.
    */
-  private async scoreGuests(token: string, guests: SlackUser[]): Promise<ScoredGuest[]> {
-    const cutoff = Math.floor(Date.now() / 1000) - AUDIT.ACTIVITY_WINDOW_SECONDS;
+  private async buildPreview(
+    workspace: Workspace,
+    policy: EffectiveAuditPolicy,
+    scoredGuests: ScoredGuest[],
+    exemptGuests: ExemptGuest[]
+  ): Promise<AuditPreview> {
+    const guestCount = scoredGuests.length + exemptGuests.length;
+    const costPerSeat = workspace.estimated_seat_cost ?? BILLING.DEFAULT_SEAT_COST_USD;
+    const [snoozedGuestIds, flaggedGuestIds, joinDates] = await Promise.all([
+      this.fetchSnoozedGuestIds(workspace.id),
+      this.fetchFlaggedGuestIds(workspace.id),
+      guestJoinService.resolveJoinDates(
+        workspace,
+        [...scoredGuests.map(sg => sg.guest.id), ...exemptGuests.map(eg => eg.guest.id)],
+        { dryRun: true }
+      ),
+    ]);
 
-    const tasks = guests.map(guest => async (): Promise<ScoredGuest> => {
-      let score = 0;
+    const { activeGuests, inactiveGuests, graceGuests } = this.classifyGuests(scoredGuests, policy, joinDates);
+    const guestsToAlert = inactiveGuests.filter(sg => !snoozedGuestIds.has(sg.guest.id));
 
-      // ── Signal 1: Profile update (FREE — already in users.list) ──────────
-      if (guest.updated && guest.updated > cutoff) {
-        score += AUDIT.SCORE_PROFILE_UPDATED;
-      }
+    const toPreviewGuest = (sg: ScoredGuest): AuditPreviewGuest => ({
+      guestId: sg.guest.id,
+      name: sg.guest.profile.real_name || sg.guest.name,
+      score: sg.score,
+      lastActivity: describeLastActivity(sg.signals),
+      costPerSeatMonthly: sg.guest.is_restricted && !sg.guest.is_ultra_restricted ? costPerSeat : 0,
+    });
 
-      // Short-circuit: profile alone crosses the threshold
-      if (score >= AUDIT.MIN_ACTIVE_SCORE) {
-        return { guest, score, source: 'profile_check' };
-      }
+    const alertsEnabled = canSendAlerts(workspace.plan_type, guestCount);
+    const wouldAlert: AuditPreviewAlert[] = [];
+    let awaitingSponsor = 0;
+    if (alertsEnabled) {
+      const sponsorMap = await this.fetchSponsors(workspace.id, guestsToAlert.map(sg => sg.guest.id));
+      const routing = await escalationService.planAlertRouting(
+        workspace,
+        this.buildAlerts(guestsToAlert, sponsorMap, costPerSeat)
+      );
 
-      // ── Signal 2: Current presence (CHEAP — 1 API call) ──────────────────
-      // Presence is unreliable alone (Slack keepalive, mobile background,
-      // bots) — it only contributes 0.5, so it cannot classify a guest as
-      // active by itself. Presence + profile is the only combo that reaches
-      // the threshold without a message check.
-      const presence = await getUserPresence(token, guest.id);
-      if (presence === 'active') {
-        score += AUDIT.SCORE_PRESENCE_ACTIVE;
+      const byId = new Map(guestsToAlert.map(sg => [sg.guest.id, sg]));
+      for (const [alerts, recipient] of [[routing.toAdmins, 'admins'], [routing.toSponsors, 'sponsor']] as const) {
+        wouldAlert.push(...alerts.map(alert => ({ ...toPreviewGuest(byId.get(alert.guestId)!), recipient })));
       }
+      awaitingSponsor = routing.held.length;
+    }
 
-      if (score >= AUDIT.MIN_ACTIVE_SCORE) {
-        return { guest, score, source: 'profile_presence_check' };
-      }
+    const paidInactiveGuests = inactiveGuests.filter(sg => sg.guest.is_restricted && !sg.guest.is_ultra_restricted);
+
+    return {
+      guestCount,
+      exempt: exemptGuests.length,
+      minActiveScore: policy.minActiveScore,
+      wouldFlag: inactiveGuests.map(toPreviewGuest),
+      wouldClear: [...activeGuests, ...graceGuests].filter(sg => flaggedGuestIds.has(sg.guest.id)).map(toPreviewGuest),
+      inGrace: graceGuests.map(sg => ({
+        ...toPreviewGuest(sg),
+        graceEndsAt: getGraceEndsAt(joinDates.get(sg.guest.id), policy.gracePeriodDays)!,
+      })),
+      wouldAlert,
+      snoozed: inactiveGuests.length - guestsToAlert.length,
+      awaitingSponsor,
+      alertsEnabled,
+      alertMode: workspace.alert_mode,
+      estimatedWaste: paidInactiveGuests.length * costPerSeat,
+    };
+  }
 
-      // ── Signal 3: Last message timestamp (EXPENSIVE — last resort) ────────
-      // Only reached for guests who haven't updated their profile AND aren't
-      // presence-active above the threshold. This is the most reliable signal
-      // but requires extra scopes (channels:read, channels:history).
-      const lastMsgTs = await getLastMessageTs(token, guest.id);
-      if (lastMsgTs !== null && lastMsgTs > cutoff) {
-        score += AUDIT.SCORE_LAST_MESSAGE;
+  /**
+   * Splits scored guests by the threshold. Guests below it who joined within
+   * the policy's grace period are set aside instead of flagged.
+   */
+  private classifyGuests(
+    scoredGuests: ScoredGuest[],
+    policy: EffectiveAuditPolicy,
+    joinDates: Map<string, string | null>
+  ): { activeGuests: ScoredGuest[]; inactiveGuests: ScoredGuest[]; graceGuests: ScoredGuest[] } {
+    const now = Date.now();
+    const activeGuests: ScoredGuest[] = [];
+    const inactiveGuests: ScoredGuest[] = [];
+    const graceGuests: ScoredGuest[] = [];
+
+    for (const sg of scoredGuests) {
+      if (sg.score >= policy.minActiveScore) {
+        activeGuests.push(sg);
+      } else if (getGraceEndsAt(joinDates.get(sg.guest.id), policy.gracePeriodDays, now)) {
+        graceGuests.push(sg);
+      } else {
+        inactiveGuests.push(sg);
       }
+    }
 
-      return { guest, score, source: 'profile_presence_message_check' };
+    return { activeGuests, inactiveGuests, graceGuests };
+  }
+
+  private buildAlerts(
+    guests: ScoredGuest[],
+    sponsorMap: Map<string, string>,
+    costPerSeat: number
+  ): GuestAlert[] {
+    return guests.map(sg => {
+      const isMultiChannel = sg.guest.is_restricted && !sg.guest.is_ultra_restricted;
+      return {
+        guestId: sg.guest.id,
+        costPerSeatMonthly: isMultiChannel ? costPerSeat : 0,
+        sponsorId: sponsorMap.get(sg.guest.id) ?? null,
+        lastActivity: describeLastActivity(sg.signals),
+        loginsChecked: !!sg.signals.login?.checked,
+      };
     });
+  }
+
+  /** Workspace-level inputs every signal provider receives */
+  private buildSignalContext(
+    workspace: Workspace,
+    token: string,
+    policy: EffectiveAuditPolicy,
+    deadline: number = Infinity
+  ): SignalContext {
+    return {
+      workspaceId: workspace.id,
+      token,
+      policy,
+      historyCoverage: resolveHistoryCoverage(policy, workspace.granted_scopes ?? null),
+      grantedScopes: workspace.granted_scopes ?? null,
+      cutoff: Math.floor(Date.now() / 1000) - policy.activityWindowDays * 24 * 60 * 60,
+      deadline,
+    };
+  }
+
+  /**
+   * Prepares the workspace's enabled activity signals and returns a scorer
+   * that walks them cheapest-first for each guest (see
+   * services/activity-signals). With the default policy:
+   *   1. Profile update  (+1.0) — free, already in users.list response
+   *   2. Event activity  (+3.0) — free, read from guest_activity up front
+   *   3. Presence active (+0.5) — cheap, 1 API call per guest
+   *   4. Last message    (+3.0) — expensive, 1 API call per conversation
+   *
+   * Short-circuits as soon as score >= minActiveScore to avoid unnecessary
+   * API calls. Processes guests in batches of GUEST_SCORING_CONCURRENCY to
+   * prevent request floods on large workspaces. Once context.deadline has
+   * passed no signal starts, and signals in flight stop between Slack calls;
+   * the scores returned are then the leading guests that finished in time.
+   */
+  private async prepareScoring(
+    context: SignalContext,
+    signalData: SignalData
+  ): Promise<(guests: SlackUser[]) => Promise<ScoredGuest[]>> {
+    const { signalWeights, minActiveScore, enabledSignals } = context.policy;
+
+    // Each provider loads its workspace-level data once, before any guest is scored
+    const evaluators = await Promise.all(
+      getEnabledSignals(enabledSignals).map(async signal => ({
+        signal,
+        evaluate: await signal.prepare(context, signalData[signal.id]),
+      }))
+    );
+
+    return async guests => {
+      const tasks = guests.map(guest => async (): Promise<ScoredGuest | null> => {
+        let score = 0;
+        const signals = emptySignalResults(guest);
+        const checked: string[] = [];
+
+        for (const { signal, evaluate } of evaluators) {
+          if (Date.now() >= context.deadline) return null;
+          const evidence = await evaluate(guest);
+          if (evidence.interrupted) return null;
+          Object.assign(signals, evidence.results);
+          checked.push(signal.id);
+          if (evidence.matched) {
+            score += signalWeights[signal.id];
+          }
+
+          if (score >= minActiveScore) break;
+        }
+
+        // Recorded in last_seen_source, e.g. "profile_presence_message_check"
+        return { guest, score, source: `${checked.join('_')}_check`, signals };
+      });
+
+      // Checkpoints move the cursor, so nothing after an unfinished guest is kept
+      const results = await withConcurrency(tasks, AUDIT.GUEST_SCORING_CONCURRENCY, context.deadline);
+      const unfinished = results.indexOf(null);
+      return (unfinished === -1 ? results : results.slice(0, unfinished)) as ScoredGuest[];
+    };
+  }
+
+  /**
+   * Runs load() for the enabled signals that crawl workspace-wide data,
+   * carrying on from `saved` (a queued job's earlier slices). A queued job
+   * calls each load() once per slice and gets done: false while any is
+   * unfinished; other audits call it until every load is done.
+   */
+  private async loadSignalData(
+    context: SignalContext,
+    saved: SignalData = {},
+    oncePerSlice = false
+  ): Promise<{ data: SignalData; done: boolean; changed: boolean }> {
+    const data: SignalData = { ...saved };
+    let done = true;
+    for (const signal of getEnabledSignals(context.policy.enabledSignals)) {
+      if (!signal.load) continue;
+
+      let result = await signal.load(context, data[signal.id]);
+      while (!result.done && !oncePerSlice) {
+        result = await signal.load(context, result.data);
+      }
+      data[signal.id] = result.data;
+      done &&= result.done;
+    }
 
-    return withConcurrency(tasks, AUDIT.GUEST_SCORING_CONCURRENCY);
+    // Complete data comes back as is
+    const changed = Object.keys(data).some(id => data[id as keyof SignalData] !== saved[id as keyof SignalData]);
+    return { data, done, changed };
   }
 
+  /**
+   * Upserts inactive guests as flagged. Returns false when a batch failed.
+   *
+   * Snoozed guests are written in a separate batch that omits action_taken
+   * and the snooze columns, so an admin's snooze survives re-flagging.
+   * Everyone else is reset to 'flagged' (clearing any expired snooze).
+   */
   private async flagGuests(
     workspaceId: string,
     guests: ScoredGuest[],
-    costPerSeat: number
-  ): Promise<void> {
-    if (guests.length === 0) return;
+    costPerSeat: number,
+    snoozedGuestIds: Set<string>
+  ): Promise<boolean> {
+    if (guests.length === 0) return true;
 
-    const records: GuestAuditUpsert[] = guests.map(sg => {
+    const toRecord = (sg: ScoredGuest): GuestAuditUpsert => {
       const isMultiChannel = sg.guest.is_restricted && !sg.guest.is_ultra_restricted;
       const actualMonthCost = isMultiChannel ? costPerSeat : 0;
 
       return {
         workspace_id: workspaceId,
         slack_user_id: sg.guest.id,
+        last_seen_at: getLastSeenAt(sg.signals),
         last_seen_source: sg.source,
+        activity_score: sg.score,
+        signal_results: sg.signals,
         estimated_cost_monthly: actualMonthCost,
         estimated_cost_yearly: actualMonthCost * 12,
         is_flagged: true,
+      };
+    };
+
+    // Batches must have identical keys — PostgREST nulls out keys missing from a row
+    const flaggedRecords: GuestAuditUpsert[] = guests
+      .filter(sg => !snoozedGuestIds.has(sg.guest.id))
+      .map(sg => ({
+        ...toRecord(sg),
         action_taken: GUEST_ACTION.FLAGGED,
+        exemption_id: null,
+        snoozed_at: null,
+        snoozed_until: null,
+        snoozed_by: null,
+      }));
+    const snoozedRecords: GuestAuditUpsert[] = guests
+      .filter(sg => snoozedGuestIds.has(sg.guest.id))
+      .map(toRecord);
+
+    let ok = true;
+    for (const records of [flaggedRecords, snoozedRecords]) {
+      if (records.length === 0) continue;
+
+      const { error } = await supabase
+        .from('guest_audits')
+        .upsert(records, { onConflict: 'workspace_id,slack_user_id' });
+
+      if (error) {
+        logger.error('Failed to flag guests in batch', { workspaceId, count: records.length }, error);
+        ok = false;
+      }
+    }
+
+    return ok;
+  }
+
+  /**
+   * Returns the Slack IDs of guests whose alerts are currently snoozed
+   * (snoozed_at set and snoozed_until either null = forever, or in the future).
+   */
+  private async fetchSnoozedGuestIds(workspaceId: string): Promise<Set<string>> {
+    const { data, error } = await supabase
+      .from('guest_audits')
+      .select('slack_user_id')
+      .eq('workspace_id', workspaceId)
+      .not('snoozed_at', 'is', null)
+      .or(`snoozed_until.is.null,snoozed_until.gt.${new Date().toISOString()}`);
+
+    if (error) {
+      // Failing open would re-alert on every snoozed guest — abort instead
+      throw new Error(`Failed to load snoozed guests for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    return new Set((data ?? []).map(row => row.slack_user_id as string));
+  }
+
+  /** Slack IDs of guests currently flagged in guest_audits */
+  private async fetchFlaggedGuestIds(workspaceId: string): Promise<Set<string>> {
+    const { data, error } = await supabase
+      .from('guest_audits')
+      .select('slack_user_id')
+      .eq('workspace_id', workspaceId)
+      .eq('is_flagged', true);
+
+    if (error) {
+      throw new Error(`Failed to load flagged guests for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    return new Set((data ?? []).map(row => row.slack_user_id as string));
+  }
+
+  /**
+   * Records exempted guests in guest_audits (not flagged) so the dashboard
+   * can list them separately with the rule that matched. Returns false on failure.
+   */
+  private async recordExemptGuests(
+    workspaceId: string,
+    exemptGuests: ExemptGuest[],
+    costPerSeat: number
+  ): Promise<boolean> {
+    if (exemptGuests.length === 0) return true;
+
+    const records: GuestAuditUpsert[] = exemptGuests.map(({ guest, exemption }) => {
+      const isMultiChannel = guest.is_restricted && !guest.is_ultra_restricted;
+      const actualMonthCost = isMultiChannel ? costPerSeat : 0;
+
+      return {
+        workspace_id: workspaceId,
+        slack_user_id: guest.id,
+        last_seen_source: `exemption_${exemption.rule_type}`,
+        estimated_cost_monthly: actualMonthCost,
+        estimated_cost_yearly: actualMonthCost * 12,
+        is_flagged: false,
+        action_taken: GUEST_ACTION.EXEMPTED,
+        exemption_id: exemption.id,
       };
     });
 
@@ -291,31 +1297,98 @@ export class AuditService {
       .upsert(records, { onConflict: 'workspace_id,slack_user_id' });
 
     if (error) {
-      logger.error('Failed to flag guests in batch', { workspaceId, count: guests.length }, error);
+      logger.error('Failed to record exempt guests', { workspaceId, count: exemptGuests.length }, error);
+      return false;
     }
+
+    return true;
   }
 
+  /**
+   * Removes guests who are active again. Snoozed guests keep their row
+   * (unflagged) so a "forever" snooze still applies if they go quiet later.
+   * Returns false when a write failed.
+   */
   private async clearActiveGuests(
     workspaceId: string,
-    activeGuestIds: string[]
-  ): Promise<void> {
-    if (activeGuestIds.length === 0) return;
+    activeGuestIds: string[],
+    snoozedGuestIds: Set<string>
+  ): Promise<boolean> {
+    if (activeGuestIds.length === 0) return true;
 
-    const { error } = await supabase
-      .from('guest_audits')
-      .delete()
-      .eq('workspace_id', workspaceId)
-      .in('slack_user_id', activeGuestIds);
+    let ok = true;
+    const toDelete = activeGuestIds.filter(id => !snoozedGuestIds.has(id));
+    const toUnflag = activeGuestIds.filter(id => snoozedGuestIds.has(id));
 
-    if (error) {
-      logger.error('Failed to clear active guests', { workspaceId }, error);
+    if (toDelete.length > 0) {
+      const { error } = await supabase
+        .from('guest_audits')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .in('slack_user_id', toDelete);
+
+      if (error) {
+        logger.error('Failed to clear active guests', { workspaceId }, error);
+        ok = false;
+      }
     }
+
+    if (toUnflag.length > 0) {
+      const { error } = await supabase
+        .from('guest_audits')
+        .update({ is_flagged: false })
+        .eq('workspace_id', workspaceId)
+        .in('slack_user_id', toUnflag);
+
+      if (error) {
+        logger.error('Failed to unflag active snoozed guests', { workspaceId }, error);
+        ok = false;
+      }
+    }
+
+    return ok;
+  }
+
+  /** One guest_observations row per guest in this run */
+  private buildObservations(
+    workspaceId: string,
+    auditRunId: string,
+    scoredGuests: ScoredGuest[],
+    exemptGuests: ExemptGuest[],
+    graceGuestIds: Set<string>,
+    policy: EffectiveAuditPolicy,
+    costPerSeat: number
+  ): GuestObservationInsert[] {
+    const seatCost = (guest: SlackUser) =>
+      guest.is_restricted && !guest.is_ultra_restricted ? costPerSeat : 0;
+
+    return [
+      ...scoredGuests.map(sg => ({
+        workspace_id: workspaceId,
+        audit_run_id: auditRunId,
+        slack_user_id: sg.guest.id,
+        status: observedStatus(sg, graceGuestIds, policy),
+        activity_score: sg.score,
+        estimated_cost_monthly: seatCost(sg.guest),
+        last_seen_at: getLastSeenAt(sg.signals),
+      })),
+      ...exemptGuests.map(({ guest }) => ({
+        workspace_id: workspaceId,
+        audit_run_id: auditRunId,
+        slack_user_id: guest.id,
+        status: 'exempt' as const,
+        activity_score: null,
+        estimated_cost_monthly: seatCost(guest),
+        last_seen_at: null,
+      })),
+    ];
   }
 
   /**
    * Returns a map of guestSlackId → sponsorSlackId for the given guest IDs.
    * Guests with no captured sponsor are absent from the map (sponsor unknown).
    * A missing sponsor is normal — Slack doesn't always fire invite_requested.
+   * Orphaned guests are absent too: their sponsor has left and can't be asked.
    */
   private async fetchSponsors(
     workspaceId: string,
@@ -327,7 +1400,8 @@ export class AuditService {
       .from('guest_sponsors')
       .select('guest_user_id, sponsor_user_id')
       .eq('workspace_id', workspaceId)
-      .in('guest_user_id', guestSlackIds);
+      .in('guest_user_id', guestSlackIds)
+      .is('orphaned_at', null);
 
     if (error) {
       logger.warn('Failed to fetch guest sponsors — DMs will omit sponsor info', { workspaceId }, error);
@@ -338,47 +1412,6 @@ export class AuditService {
       (data ?? []).map(row => [row.guest_user_id as string, row.sponsor_user_id as string])
     );
   }
-
-  private async sendInactiveAlert(
-    token: string,
-    workspace: Workspace,
-    guestId: string,
-    costPerSeat: number,
-    sponsorId: string | null
-  ): Promise<void> {
-    try {
-      const blocks = buildInactiveGuestBlocks(guestId, costPerSeat, sponsorId);
-      const recipients = workspace.alert_recipients && workspace.alert_recipients.length > 0
-        ? workspace.alert_recipients
-        : [workspace.installed_by];
-
-      const dmResults = await Promise.allSettled(
-        recipients.map(async (adminId) => {
-          await sendDirectMessage(token, adminId, blocks, `Inactive guest <@${guestId}> detected`);
-
-          await supabase.from('events').insert({
-            workspace_id: workspace.id,
-            type: WORKSPACE_EVENT_TYPE.DM_ALERT_SENT,
-            payload: { guest_id: guestId, admin_id: adminId, sponsor_id: sponsorId },
-          });
-        })
-      );
-
-      // Log any per-recipient failures so they are visible in the monitoring dashboard
-      for (let i = 0; i < dmResults.length; i++) {
-        const result = dmResults[i];
-        if (result.status === 'rejected') {
-          logger.error('Failed to send DM alert to recipient', {
-            workspaceId: workspace.id,
-            guestId,
-            adminId: recipients[i],
-          }, result.reason);
-        }
-      }
-    } catch (err) {
-      logger.error('Failed to send DM alerts', { workspaceId: workspace.id, guestId }, err);
-    }
-  }
 }
 
 export const auditService = new AuditService();
@@ -0,0 +1,433 @@
+/**
+ * EscalationService — sponsor-first handling of inactive guests.
+ *
+ * When a workspace enables sponsor escalation, an inactive guest whose
+ * sponsor is known is first raised with that sponsor (Keep / Remove).
+ * Admins are alerted only when:
+ *   - the sponsor picks Remove, or
+ *   - the sponsor hasn't answered within sponsor_escalation_days
+ *     (processed by the /api/internal/escalations cron).
+ *
+ * Keep snoozes the guest's alerts for SPONSOR_ESCALATION.KEEP_SNOOZE_DAYS;
+ * once the snooze expires the sponsor is asked again.
+ *
+ * Sponsors are DMed by the app's bot, not the installing admin — installs
+ * that predate the bot token alert admins directly.
+ */
+
+import { supabase } from '@/lib/db';
+import { decrypt } from '@/lib/encryption';
+import { logger } from '@/lib/logger';
+import { describeLastActivity } from '@/lib/activity';
+import { PLAN_LIMITS } from '@/lib/subscription';
+import { sendDirectMessage, buildSponsorCheckBlocks } from '@/lib/slack';
+import { alertService } from '@/services/alert.service';
+import { policyService } from '@/services/policy.service';
+import { workspaceTokenService } from '@/services/workspace-token.service';
+import {
+  ESCALATION_STATUS,
+  SPONSOR_ESCALATION,
+  WORKSPACE_EVENT_TYPE,
+} from '@/config/constants';
+import type { DmDeliveryStats, GuestAlert } from '@/services/alert.service';
+import type {
+  GuestEscalation,
+  GuestEscalationUpsert,
+  GuestSignalResults,
+  Workspace,
+} from '@/types/database.types';
+
+export type SponsorDecision = 'keep' | 'remove';
+
+export type SponsorResponseResult =
+  | { ok: true }
+  | { ok: false; error: string };
+
+/** Where each of an audit's alerts goes under sponsor escalation */
+export interface AlertRouting {
+  toAdmins: GuestAlert[];
+  toSponsors: GuestAlert[];
+  /** Awaiting a sponsor's answer — not alerted again yet */
+  held: GuestAlert[];
+}
+
+type EscalationReason = 'no_response' | 'sponsor_remove';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class EscalationService {
+  /**
+   * Decides where an audit's alerts would go, without messaging anyone.
+   *
+   * Sponsored guests without an open escalation are for their sponsor;
+   * guests still awaiting an answer are held back; everyone else is for
+   * admins. Without a bot token there's no one to ask sponsors — all
+   * alerts are for admins.
+   */
+  async planAlertRouting(workspace: Workspace, alerts: GuestAlert[]): Promise<AlertRouting> {
+    if (!workspace.sponsor_escalation_enabled || !workspace.bot_access_token) {
+      return { toAdmins: alerts, toSponsors: [], held: [] };
+    }
+
+    const sponsored = alerts.filter(alert => alert.sponsorId !== null);
+    if (sponsored.length === 0) {
+      return { toAdmins: alerts, toSponsors: [], held: [] };
+    }
+
+    const escalations = await this.fetchEscalations(
+      workspace.id,
+      sponsored.map(alert => alert.guestId)
+    );
+
+    const routing: AlertRouting = {
+      toAdmins: alerts.filter(alert => alert.sponsorId === null),
+      toSponsors: [],
+      held: [],
+    };
+
+    for (const alert of sponsored) {
+      const escalation = escalations.get(alert.guestId);
+
+      if (escalation?.status === ESCALATION_STATUS.ESCALATED) {
+        routing.toAdmins.push(alert);
+      } else if (escalation?.status === ESCALATION_STATUS.AWAITING_SPONSOR) {
+        // The escalation cron alerts admins once it's overdue
+        routing.held.push(alert);
+      } else {
+        // No escalation yet, or the sponsor kept the guest and the snooze ran out
+        routing.toSponsors.push(alert);
+      }
+    }
+
+    return routing;
+  }
+
+  /**
+   * Splits an audit's alerts between sponsors and admins, asking each
+   * sponsor per planAlertRouting. Returns the alerts that should go to
+   * admins now, and how the sponsor DMs fared.
+   */
+  async routeAlerts(
+    workspace: Workspace,
+    alerts: GuestAlert[],
+    activityWindowDays: number
+  ): Promise<{ adminAlerts: GuestAlert[]; sponsorDms: DmDeliveryStats }> {
+    const { toAdmins, toSponsors } = await this.planAlertRouting(workspace, alerts);
+    if (toSponsors.length === 0) {
+      return { adminAlerts: toAdmins, sponsorDms: { sent: 0, failed: 0 } };
+    }
+
+    // planAlertRouting only picks sponsors when the workspace has a bot token
+    const botToken = decrypt(workspace.bot_access_token as string);
+    const asked = await Promise.all(
+      toSponsors.map(alert => this.askSponsor(botToken, workspace, alert, activityWindowDays))
+    );
+
+    // A sponsor we couldn't reach (e.g. deactivated) can't answer — go straight to admins
+    toSponsors.forEach((alert, i) => {
+      if (!asked[i]) toAdmins.push(alert);
+    });
+
+    const sent = asked.filter(Boolean).length;
+    return { adminAlerts: toAdmins, sponsorDms: { sent, failed: asked.length - sent } };
+  }
+
+  /**
+   * Escalates every overdue escalation to its workspace's admins.
+   * Called by the /api/internal/escalations cron.
+   */
+  async processDueEscalations(): Promise<{ escalated: number }> {
+    const { data, error } = await supabase
+      .from('guest_escalations')
+      .select('workspace_id, guest_user_id')
+      .eq('status', ESCALATION_STATUS.AWAITING_SPONSOR)
+      .lte('escalate_after', new Date().toISOString());
+
+    if (error) {
+      throw new Error(`Failed to fetch due escalations: ${error.message}`);
+    }
+
+    const byWorkspace = new Map<string, string[]>();
+    for (const row of data ?? []) {
+      const guestIds = byWorkspace.get(row.workspace_id) ?? [];
+      guestIds.push(row.guest_user_id);
+      byWorkspace.set(row.workspace_id, guestIds);
+    }
+
+    let escalated = 0;
+    for (const [workspaceId, guestIds] of byWorkspace) {
+      try {
+        escalated += await this.escalate(workspaceId, guestIds, 'no_response');
+      } catch (err) {
+        logger.error('Failed to escalate overdue guests', { workspaceId, count: guestIds.length }, err);
+      }
+    }
+
+    logger.info('Escalation run completed', { workspaces: byWorkspace.size, escalated });
+    return { escalated };
+  }
+
+  /**
+   * Records a sponsor's Keep / Remove answer. Only the asked sponsor can
+   * answer, and only while the escalation is still open.
+   */
+  async recordSponsorResponse(
+    workspaceId: string,
+    guestId: string,
+    responderId: string,
+    decision: SponsorDecision
+  ): Promise<SponsorResponseResult> {
+    const { data: escalation } = await supabase
+      .from('guest_escalations')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('guest_user_id', guestId)
+      .maybeSingle();
+
+    if (!escalation) {
+      return { ok: false, error: 'This request is no longer open.' };
+    }
+
+    if (escalation.sponsor_user_id !== responderId) {
+      return { ok: false, error: `Only <@${escalation.sponsor_user_id}> can answer this request.` };
+    }
+
+    if (escalation.status !== ESCALATION_STATUS.AWAITING_SPONSOR) {
+      return { ok: false, error: 'This request was already answered or sent to your admins.' };
+    }
+
+    const now = new Date();
+
+    if (decision === 'keep') {
+      const snoozedUntil = new Date(now.getTime() + SPONSOR_ESCALATION.KEEP_SNOOZE_DAYS * DAY_MS);
+
+      await Promise.all([
+        this.updateStatus(workspaceId, [guestId], {
+          status: ESCALATION_STATUS.KEPT,
+          responded_at: now.toISOString(),
+        }),
+        supabase
+          .from('guest_audits')
+          .update({
+            snoozed_at: now.toISOString(),
+            snoozed_until: snoozedUntil.toISOString(),
+            snoozed_by: responderId,
+          })
+          .eq('workspace_id', workspaceId)
+          .eq('slack_user_id', guestId),
+        this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.SPONSOR_KEPT_GUEST, {
+          guest_id: guestId,
+          sponsor_id: responderId,
+          snoozed_until: snoozedUntil.toISOString(),
+        }),
+      ]);
+
+      logger.info('Sponsor kept guest', { workspaceId, guestId, sponsorId: responderId });
+      return { ok: true };
+    }
+
+    await this.updateStatus(workspaceId, [guestId], { responded_at: now.toISOString() });
+    await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.SPONSOR_REQUESTED_REMOVAL, {
+      guest_id: guestId,
+      sponsor_id: responderId,
+    });
+    await this.escalate(workspaceId, [guestId], 'sponsor_remove');
+
+    return { ok: true };
+  }
+
+  /** Forgets escalations for guests who are active or exempt again. */
+  async clearEscalations(workspaceId: string, guestIds: string[]): Promise<void> {
+    if (guestIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('guest_escalations')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .in('guest_user_id', guestIds);
+
+    if (error) {
+      logger.error('Failed to clear guest escalations', { workspaceId }, error);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  /** DMs the sponsor as the bot and opens the escalation. Returns false if the DM failed. */
+  private async askSponsor(
+    botToken: string,
+    workspace: Workspace,
+    alert: GuestAlert,
+    activityWindowDays: number
+  ): Promise<boolean> {
+    const sponsorId = alert.sponsorId as string;
+    const escalationDays = workspace.sponsor_escalation_days ?? SPONSOR_ESCALATION.DEFAULT_DAYS;
+
+    try {
+      const blocks = buildSponsorCheckBlocks(alert.guestId, activityWindowDays, escalationDays);
+      await sendDirectMessage(botToken, sponsorId, blocks, `Does <@${alert.guestId}> still need access?`);
+    } catch (err) {
+      logger.warn('Failed to DM sponsor — alerting admins instead', {
+        workspaceId: workspace.id,
+        guestId: alert.guestId,
+        sponsorId,
+      }, err);
+      return false;
+    }
+
+    const now = new Date();
+    const record: GuestEscalationUpsert = {
+      workspace_id: workspace.id,
+      guest_user_id: alert.guestId,
+      sponsor_user_id: sponsorId,
+      status: ESCALATION_STATUS.AWAITING_SPONSOR,
+      sponsor_asked_at: now.toISOString(),
+      escalate_after: new Date(now.getTime() + escalationDays * DAY_MS).toISOString(),
+      responded_at: null,
+      escalated_at: null,
+    };
+
+    const { error } = await supabase
+      .from('guest_escalations')
+      .upsert(record, { onConflict: 'workspace_id,guest_user_id' });
+
+    if (error) {
+      logger.error('Failed to record guest escalation', { workspaceId: workspace.id, guestId: alert.guestId }, error);
+    }
+
+    await this.logEvent(workspace.id, WORKSPACE_EVENT_TYPE.SPONSOR_CHECK_SENT, {
+      guest_id: alert.guestId,
+      sponsor_id: sponsorId,
+      escalate_after: record.escalate_after,
+    });
+
+    return true;
+  }
+
+  /**
+   * Marks the escalations as escalated and alerts the workspace's admins
+   * about the guests that are still flagged and not snoozed. Nothing is
+   * marked while the workspace is inactive or its plan can't send alerts —
+   * the escalations stay open and are picked up by a later cron run.
+   * Returns how many escalations were marked.
+   */
+  private async escalate(
+    workspaceId: string,
+    guestIds: string[],
+    reason: EscalationReason
+  ): Promise<number> {
+    const { data } = await supabase
+      .from('workspaces')
+      .select('*')
+      .eq('id', workspaceId)
+      .single();
+
+    const workspace = data as Workspace | null;
+    if (!workspace || !workspace.is_active || !PLAN_LIMITS[workspace.plan_type].canSendAlerts) {
+      logger.warn('Skipping escalation for inactive or free workspace', { workspaceId, count: guestIds.length, reason });
+      return 0;
+    }
+
+    const now = new Date().toISOString();
+
+    await this.updateStatus(workspaceId, guestIds, {
+      status: ESCALATION_STATUS.ESCALATED,
+      escalated_at: now,
+    });
+    await Promise.all(
+      guestIds.map(guestId =>
+        this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.GUEST_ESCALATED, { guest_id: guestId, reason })
+      )
+    );
+
+    const [auditsResult, sponsorsResult, policy] = await Promise.all([
+      supabase
+        .from('guest_audits')
+        .select('slack_user_id, estimated_cost_monthly, signal_results')
+        .eq('workspace_id', workspaceId)
+        .eq('is_flagged', true)
+        .in('slack_user_id', guestIds)
+        .or(`snoozed_at.is.null,snoozed_until.lte.${now}`),
+      supabase
+        .from('guest_sponsors')
+        .select('guest_user_id, sponsor_user_id')
+        .eq('workspace_id', workspaceId)
+        .in('guest_user_id', guestIds),
+      policyService.getPolicy(workspaceId),
+    ]);
+
+    const sponsors = new Map(
+      (sponsorsResult.data ?? []).map(row => [row.guest_user_id as string, row.sponsor_user_id as string])
+    );
+    const alerts: GuestAlert[] = (auditsResult.data ?? []).map(row => {
+      const signals = row.signal_results as GuestSignalResults | null;
+      return {
+        guestId: row.slack_user_id as string,
+        costPerSeatMonthly: Number(row.estimated_cost_monthly),
+        sponsorId: sponsors.get(row.slack_user_id as string) ?? null,
+        lastActivity: describeLastActivity(signals),
+        loginsChecked: !!signals?.login?.checked,
+      };
+    });
+
+    if (alerts.length > 0) {
+      const token = await workspaceTokenService.getAccessToken(workspace);
+      await alertService.sendAlerts(token, workspace, alerts, policy.activityWindowDays);
+      logger.info('Guests escalated to admins', { workspaceId, count: alerts.length, reason });
+    }
+
+    return guestIds.length;
+  }
+
+  private async fetchEscalations(
+    workspaceId: string,
+    guestIds: string[]
+  ): Promise<Map<string, GuestEscalation>> {
+    const { data, error } = await supabase
+      .from('guest_escalations')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .in('guest_user_id', guestIds);
+
+    if (error) {
+      // Without escalation state we could re-ask sponsors every audit — abort instead
+      throw new Error(`Failed to load guest escalations for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    return new Map((data ?? []).map(row => [row.guest_user_id as string, row as GuestEscalation]));
+  }
+
+  private async updateStatus(
+    workspaceId: string,
+    guestIds: string[],
+    fields: Partial<Pick<GuestEscalation, 'status' | 'responded_at' | 'escalated_at'>>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('guest_escalations')
+      .update(fields)
+      .eq('workspace_id', workspaceId)
+      .in('guest_user_id', guestIds);
+
+    if (error) {
+      logger.error('Failed to update guest escalations', { workspaceId, fields }, error);
+    }
+  }
+
+  private async logEvent(
+    workspaceId: string,
+    type: string,
+    payload: Record<string, unknown>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('events')
+      .insert({ workspace_id: workspaceId, type, payload });
+
+    if (error) {
+      logger.error('Failed to log event', { workspaceId, type }, error);
+    }
+  }
+}
+
+export const escalationService = new EscalationService();
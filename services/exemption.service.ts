@@ -0,0 +1,223 @@
+/**
+ * ExemptionService — per-workspace guest exemption rules.
+ *
+ * A rule exempts either one Slack user ID or every guest whose email is on a
+ * given domain, optionally until an expiry date. AuditService consults the
+ * active rules before scoring, so exempted guests are never flagged, never
+ * alerted and cost no Slack API calls. Domain rules need the
+ * users:read.email scope — installs without it get no guest emails.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { EXEMPTION_RULE_TYPE, SLACK_API, WORKSPACE_EVENT_TYPE } from '@/config/constants';
+import type { ExemptionRuleType, GuestExemption, GuestExemptionInsert, Workspace } from '@/types/database.types';
+import type { SlackUser } from '@/types/slack.types';
+
+export interface NewExemptionRule {
+  ruleType: ExemptionRuleType;
+  value: string;
+  /** ISO date or timestamp; null = never expires */
+  expiresAt: string | null;
+  reason: string | null;
+  /** Slack user ID of the creator, null when created from the dashboard */
+  createdBy: string | null;
+}
+
+export type ExemptionResult =
+  /** emailScopeMissing: a domain rule was saved, but the install can't read emails to match it */
+  | { ok: true; rule: GuestExemption; emailScopeMissing: boolean }
+  | { ok: false; error: string };
+
+const SLACK_USER_ID_PATTERN = /^[UW][A-Z0-9]{2,}$/;
+const EMAIL_DOMAIN_PATTERN = /^(?=.{3,253}$)([a-z0-9-]+\.)+[a-z]{2,}$/;
+
+/** Normalizes user input: uppercase user IDs, lowercase domains without "@". */
+function normalizeValue(ruleType: ExemptionRuleType, value: string): string {
+  const trimmed = value.trim();
+  return ruleType === EXEMPTION_RULE_TYPE.USER
+    ? trimmed.toUpperCase()
+    : trimmed.toLowerCase().replace(/^@/, '');
+}
+
+function validateRule(rule: NewExemptionRule): string | null {
+  if (rule.ruleType === EXEMPTION_RULE_TYPE.USER && !SLACK_USER_ID_PATTERN.test(rule.value)) {
+    return `"${rule.value}" is not a valid Slack user ID (e.g. U0123ABCD).`;
+  }
+
+  if (rule.ruleType === EXEMPTION_RULE_TYPE.EMAIL_DOMAIN && !EMAIL_DOMAIN_PATTERN.test(rule.value)) {
+    return `"${rule.value}" is not a valid email domain (e.g. contractor.com).`;
+  }
+
+  if (rule.expiresAt !== null) {
+    const expiresAt = new Date(rule.expiresAt).getTime();
+    if (isNaN(expiresAt)) {
+      return 'Expiry date is not a valid date.';
+    }
+    if (expiresAt <= Date.now()) {
+      return 'Expiry date must be in the future.';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * True when the install can read guest emails, so email-domain rules can
+ * match. Installs without recorded scopes predate the email scope.
+ */
+export function canMatchEmailDomains(workspace: Pick<Workspace, 'granted_scopes'>): boolean {
+  return !!workspace.granted_scopes?.includes(SLACK_API.EMAIL_USER_SCOPE);
+}
+
+/**
+ * Returns the first active rule that matches the guest, or null.
+ * User-ID rules win over domain rules so the most specific reason is shown.
+ */
+export function findMatchingExemption(
+  guest: SlackUser,
+  rules: GuestExemption[]
+): GuestExemption | null {
+  const userRule = rules.find(
+    r => r.rule_type === EXEMPTION_RULE_TYPE.USER && r.value === guest.id
+  );
+  if (userRule) return userRule;
+
+  const email = guest.profile?.email?.toLowerCase();
+  if (!email) return null;
+
+  const domain = email.slice(email.lastIndexOf('@') + 1);
+  return rules.find(
+    r => r.rule_type === EXEMPTION_RULE_TYPE.EMAIL_DOMAIN && r.value === domain
+  ) ?? null;
+}
+
+export class ExemptionService {
+  /** All rules for a workspace, newest first — including expired ones. */
+  async listRules(workspaceId: string): Promise<GuestExemption[]> {
+    const { data, error } = await supabase
+      .from('guest_exemptions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list exemption rules for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    return (data ?? []) as GuestExemption[];
+  }
+
+  /** Rules that have not expired yet. Used by the audit before scoring. */
+  async getActiveRules(workspaceId: string): Promise<GuestExemption[]> {
+    const { data, error } = await supabase
+      .from('guest_exemptions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+    if (error) {
+      // Failing open would alert on guests the admin explicitly exempted —
+      // abort this workspace's audit instead.
+      throw new Error(`Failed to load exemption rules for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    return (data ?? []) as GuestExemption[];
+  }
+
+  async createRule(workspaceId: string, input: NewExemptionRule): Promise<ExemptionResult> {
+    const rule: NewExemptionRule = { ...input, value: normalizeValue(input.ruleType, input.value) };
+
+    const validationError = validateRule(rule);
+    if (validationError) {
+      return { ok: false, error: validationError };
+    }
+
+    const record: GuestExemptionInsert = {
+      workspace_id: workspaceId,
+      rule_type: rule.ruleType,
+      value: rule.value,
+      expires_at: rule.expiresAt ? new Date(rule.expiresAt).toISOString() : null,
+      reason: rule.reason?.trim() || null,
+      created_by: rule.createdBy,
+    };
+
+    // Re-adding an existing rule updates its expiry and reason
+    const { data, error } = await supabase
+      .from('guest_exemptions')
+      .upsert(record, { onConflict: 'workspace_id,rule_type,value' })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save exemption rule for workspace ${workspaceId}: ${error?.message ?? 'no row returned'}`);
+    }
+
+    await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.EXEMPTION_CREATED, {
+      rule_type: record.rule_type,
+      value: record.value,
+      expires_at: record.expires_at,
+      created_by: record.created_by,
+    });
+
+    logger.info('Exemption rule saved', { workspaceId, ruleType: record.rule_type, value: record.value });
+    const emailScopeMissing =
+      record.rule_type === EXEMPTION_RULE_TYPE.EMAIL_DOMAIN && !(await this.hasEmailScope(workspaceId));
+    return { ok: true, rule: data as GuestExemption, emailScopeMissing };
+  }
+
+  async deleteRule(workspaceId: string, ruleId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('guest_exemptions')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', ruleId)
+      .select('rule_type, value');
+
+    if (error) {
+      throw new Error(`Failed to delete exemption rule ${ruleId}: ${error.message}`);
+    }
+
+    if (data && data.length > 0) {
+      await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.EXEMPTION_DELETED, {
+        rule_type: data[0].rule_type,
+        value: data[0].value,
+      });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  /** A failed read is logged and assumed granted — the rule is saved either way */
+  private async hasEmailScope(workspaceId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('granted_scopes')
+      .eq('id', workspaceId)
+      .maybeSingle();
+
+    if (error || !data) {
+      logger.error('Failed to load granted scopes', { workspaceId }, error);
+      return true;
+    }
+    return canMatchEmailDomains(data as Pick<Workspace, 'granted_scopes'>);
+  }
+
+  private async logEvent(
+    workspaceId: string,
+    type: string,
+    payload: Record<string, unknown>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('events')
+      .insert({ workspace_id: workspaceId, type, payload });
+
+    if (error) {
+      logger.error('Failed to log event', { workspaceId, type }, error);
+    }
+  }
+}
+
+export const exemptionService = new ExemptionService();
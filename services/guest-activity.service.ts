@@ -0,0 +1,177 @@
+/**
+ * GuestActivityService — real-time guest activity from the Slack Events API.
+ *
+ * Message, reaction and guest-made profile-change events update
+ * guest_activity as they arrive; the audit reads it as the event_activity
+ * signal, so guests
+ * seen recently never cost a presence or history API call. Writes go through
+ * the record_guest_activity RPC, which throttles them to one per guest per
+ * GUEST_ACTIVITY.WRITE_THROTTLE_SECONDS.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { GUEST_ACTIVITY } from '@/config/constants';
+import type { GuestActivity, GuestActivityType, GuestProfileSnapshot } from '@/types/database.types';
+import type { SlackUser } from '@/types/slack.types';
+
+export interface LastGuestActivity {
+  /** Unix seconds */
+  at: number;
+  type: GuestActivityType;
+}
+
+function toProfileSnapshot(user: SlackUser): GuestProfileSnapshot {
+  return {
+    display_name: user.profile.display_name ?? '',
+    real_name: user.profile.real_name ?? '',
+    title: user.profile.title ?? '',
+    avatar_hash: user.profile.avatar_hash ?? '',
+    status_text: user.profile.status_text ?? '',
+    status_emoji: user.profile.status_emoji ?? '',
+  };
+}
+
+/**
+ * True when the guest edited their own profile. A status that was cleared
+ * doesn't count — Slack clears expiring statuses on its own.
+ */
+function isGuestProfileEdit(previous: GuestProfileSnapshot, next: GuestProfileSnapshot): boolean {
+  const profileEdited =
+    previous.display_name !== next.display_name ||
+    previous.real_name !== next.real_name ||
+    previous.title !== next.title ||
+    previous.avatar_hash !== next.avatar_hash;
+  const statusSet =
+    (next.status_text !== '' || next.status_emoji !== '') &&
+    (previous.status_text !== next.status_text || previous.status_emoji !== next.status_emoji);
+
+  return profileEdited || statusSet;
+}
+
+export class GuestActivityService {
+  /**
+   * Records one activity event. With create = false (messages, reactions)
+   * only guests already in guest_activity are updated — the event alone
+   * doesn't say whether the author is a guest. Failures are logged only.
+   */
+  async recordActivity(
+    workspaceId: string,
+    slackUserId: string,
+    activityAt: Date,
+    activityType: GuestActivityType,
+    create: boolean
+  ): Promise<void> {
+    const { error } = await supabase.rpc('record_guest_activity', {
+      p_workspace_id: workspaceId,
+      p_slack_user_id: slackUserId,
+      p_activity_at: activityAt.toISOString(),
+      p_activity_type: activityType,
+      p_create: create,
+      p_min_interval_seconds: GUEST_ACTIVITY.WRITE_THROTTLE_SECONDS,
+    });
+
+    if (error) {
+      logger.error('Failed to record guest activity', { workspaceId, slackUserId, activityType }, error);
+    }
+  }
+
+  /**
+   * Handles a user_change or team_join carrying a guest's user object:
+   * registers the guest, stores their profile and records a profile_update
+   * when it differs from the stored one in a way only the guest could have
+   * made. user_change also fires for admin edits (account type,
+   * expiration), and the first event seen only stores the profile.
+   * Failures are logged only.
+   */
+  async recordProfileChange(workspaceId: string, user: SlackUser, activityAt: Date): Promise<void> {
+    const { data, error: readError } = await supabase
+      .from('guest_activity')
+      .select('profile_snapshot')
+      .eq('workspace_id', workspaceId)
+      .eq('slack_user_id', user.id)
+      .maybeSingle();
+
+    if (readError) {
+      logger.error('Failed to load guest profile', { workspaceId, slackUserId: user.id }, readError);
+      return;
+    }
+
+    const previous = (data as Pick<GuestActivity, 'profile_snapshot'> | null)?.profile_snapshot ?? null;
+    const next = toProfileSnapshot(user);
+
+    const { error } = await supabase
+      .from('guest_activity')
+      .upsert(
+        { workspace_id: workspaceId, slack_user_id: user.id, profile_snapshot: next },
+        { onConflict: 'workspace_id,slack_user_id' }
+      );
+
+    if (error) {
+      logger.error('Failed to store guest profile', { workspaceId, slackUserId: user.id }, error);
+      return;
+    }
+
+    if (previous && isGuestProfileEdit(previous, next)) {
+      await this.recordActivity(workspaceId, user.id, activityAt, 'profile_update', true);
+    }
+  }
+
+  /**
+   * Registers the audit's guest list so later message and reaction events
+   * are tracked for them. Existing rows are left untouched.
+   */
+  async ensureGuests(workspaceId: string, guestIds: string[]): Promise<void> {
+    for (let i = 0; i < guestIds.length; i += GUEST_ACTIVITY.BATCH_SIZE) {
+      const rows = guestIds
+        .slice(i, i + GUEST_ACTIVITY.BATCH_SIZE)
+        .map(id => ({ workspace_id: workspaceId, slack_user_id: id }));
+
+      const { error } = await supabase
+        .from('guest_activity')
+        .upsert(rows, { onConflict: 'workspace_id,slack_user_id', ignoreDuplicates: true });
+
+      if (error) {
+        logger.error('Failed to register guests for activity tracking', { workspaceId, count: rows.length }, error);
+      }
+    }
+  }
+
+  /**
+   * Returns guestSlackId → newest activity for every guest with one.
+   * A failed read degrades to an empty map — the audit falls back to polling.
+   */
+  async getLastActivity(workspaceId: string): Promise<Map<string, LastGuestActivity>> {
+    const activity = new Map<string, LastGuestActivity>();
+
+    for (let from = 0; ; from += GUEST_ACTIVITY.BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('guest_activity')
+        .select('slack_user_id, last_activity_at, last_activity_type')
+        .eq('workspace_id', workspaceId)
+        .not('last_activity_at', 'is', null)
+        .order('slack_user_id')
+        .range(from, from + GUEST_ACTIVITY.BATCH_SIZE - 1);
+
+      if (error) {
+        logger.warn('Failed to load guest activity — scoring without events', { workspaceId }, error);
+        return new Map();
+      }
+
+      const rows = (data ?? []) as Pick<GuestActivity, 'slack_user_id' | 'last_activity_at' | 'last_activity_type'>[];
+      for (const row of rows) {
+        if (!row.last_activity_at || !row.last_activity_type) continue;
+        activity.set(row.slack_user_id, {
+          at: Math.floor(new Date(row.last_activity_at).getTime() / 1000),
+          type: row.last_activity_type,
+        });
+      }
+
+      if (rows.length < GUEST_ACTIVITY.BATCH_SIZE) break;
+    }
+
+    return activity;
+  }
+}
+
+export const guestActivityService = new GuestActivityService();
@@ -0,0 +1,197 @@
+/**
+ * GuestExpirationService — guest account expirations and the expiration policy.
+ *
+ * Every completed audit records each listed guest's expiration (expiration_ts
+ * from users.list, null when none is set) in guest_expirations. When the
+ * workspace policy sets max_guest_expiration_days, multi-channel guests
+ * without an expiration or expiring further out than that are reported to
+ * admins — when a guest starts failing, then every ALERT_REMINDER_DAYS while
+ * any still do. The dashboard also lists guests expiring soon.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { GUEST_EXPIRATION } from '@/config/constants';
+import type { GuestExpiration, GuestExpirationUpsert } from '@/types/database.types';
+import type { SlackUser } from '@/types/slack.types';
+
+/** Why a guest fails the expiration policy */
+export type ExpirationIssue = 'missing' | 'too_far';
+
+export interface ExpirationOverview {
+  /** Expiring within GUEST_EXPIRATION.EXPIRING_SOON_DAYS, soonest first */
+  expiringSoon: GuestExpiration[];
+  expiringSoonCount: number;
+  /** Multi-channel guests failing the policy; empty when the check is off */
+  violations: GuestExpiration[];
+  violationCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A listed guest's guest_expirations row */
+export function toGuestExpiration(
+  workspaceId: string,
+  guest: SlackUser,
+  exempt: boolean,
+  checkedAt: string
+): GuestExpirationUpsert {
+  return {
+    workspace_id: workspaceId,
+    slack_user_id: guest.id,
+    expires_at: guest.expiration_ts ? new Date(guest.expiration_ts * 1000).toISOString() : null,
+    multi_channel: guest.is_restricted && !guest.is_ultra_restricted,
+    exempt,
+    checked_at: checkedAt,
+  };
+}
+
+/**
+ * Checks a guest against the expiration policy. Single-channel and exempt
+ * guests always pass, as does everyone when the check is off (maxDays null).
+ */
+export function getExpirationIssue(
+  expiration: Pick<GuestExpiration, 'expires_at' | 'multi_channel' | 'exempt'>,
+  maxDays: number | null,
+  now: number = Date.now()
+): ExpirationIssue | null {
+  if (maxDays === null || !expiration.multi_channel || expiration.exempt) return null;
+  if (!expiration.expires_at) return 'missing';
+  return new Date(expiration.expires_at).getTime() > now + maxDays * DAY_MS ? 'too_far' : null;
+}
+
+export class GuestExpirationService {
+  /**
+   * Replaces the workspace's expirations with this audit's guest list.
+   * Failures are logged, never thrown; returns false when a write failed.
+   */
+  async recordExpirations(workspaceId: string, expirations: GuestExpirationUpsert[]): Promise<boolean> {
+    let ok = true;
+    const checkedAt = expirations[0]?.checked_at ?? new Date().toISOString();
+
+    for (let i = 0; i < expirations.length; i += GUEST_EXPIRATION.BATCH_SIZE) {
+      const batch = expirations.slice(i, i + GUEST_EXPIRATION.BATCH_SIZE);
+      const { error } = await supabase
+        .from('guest_expirations')
+        .upsert(batch, { onConflict: 'workspace_id,slack_user_id' });
+
+      if (error) {
+        logger.error('Failed to record guest expirations', { workspaceId, count: batch.length }, error);
+        ok = false;
+      }
+    }
+
+    // Guests this audit didn't list have left the workspace (or stopped being guests)
+    const { error } = await supabase
+      .from('guest_expirations')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .lt('checked_at', checkedAt);
+
+    if (error) {
+      logger.error('Failed to remove stale guest expirations', { workspaceId }, error);
+      ok = false;
+    }
+
+    return ok;
+  }
+
+  /**
+   * Whether admins should hear about these guests failing the policy now:
+   * one of them wasn't in an alert yet, or the last alert listing them is
+   * ALERT_REMINDER_DAYS old. Guests alerted on before who now pass lose
+   * their marker, so failing again is news. A failed read counts as due.
+   */
+  async isAlertDue(workspaceId: string, failingGuestIds: string[]): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('guest_expirations')
+      .select('slack_user_id, alerted_at')
+      .eq('workspace_id', workspaceId)
+      .not('alerted_at', 'is', null);
+
+    if (error) {
+      logger.warn('Failed to load expiration alert markers — alerting anyway', { workspaceId }, error);
+      return failingGuestIds.length > 0;
+    }
+
+    const alertedAt = new Map((data ?? []).map(row => [row.slack_user_id as string, row.alerted_at as string]));
+    const failing = new Set(failingGuestIds);
+    const passing = [...alertedAt.keys()].filter(id => !failing.has(id));
+    if (passing.length > 0) {
+      await this.setAlertedAt(workspaceId, passing, null);
+    }
+
+    const remindBefore = Date.now() - GUEST_EXPIRATION.ALERT_REMINDER_DAYS * DAY_MS;
+    return failingGuestIds.some(id => {
+      const at = alertedAt.get(id);
+      return !at || new Date(at).getTime() <= remindBefore;
+    });
+  }
+
+  /** Records that an expiration alert just listed these guests. Failures are logged only. */
+  async markAlerted(workspaceId: string, guestIds: string[]): Promise<void> {
+    await this.setAlertedAt(workspaceId, guestIds, new Date().toISOString());
+  }
+
+  /** The dashboard's expiring-soon and policy-violation lists, each capped at LIST_LIMIT */
+  async getOverview(workspaceId: string, maxDays: number | null): Promise<ExpirationOverview> {
+    const now = Date.now();
+    const soonUntil = new Date(now + GUEST_EXPIRATION.EXPIRING_SOON_DAYS * DAY_MS).toISOString();
+
+    const expiringSoonQuery = supabase
+      .from('guest_expirations')
+      .select('*', { count: 'exact' })
+      .eq('workspace_id', workspaceId)
+      .gt('expires_at', new Date(now).toISOString())
+      .lte('expires_at', soonUntil)
+      .order('expires_at', { ascending: true })
+      .limit(GUEST_EXPIRATION.LIST_LIMIT);
+
+    const violationsQuery = maxDays === null
+      ? null
+      : supabase
+        .from('guest_expirations')
+        .select('*', { count: 'exact' })
+        .eq('workspace_id', workspaceId)
+        .eq('multi_channel', true)
+        .eq('exempt', false)
+        .or(`expires_at.is.null,expires_at.gt."${new Date(now + maxDays * DAY_MS).toISOString()}"`)
+        .order('expires_at', { ascending: false, nullsFirst: true })
+        .limit(GUEST_EXPIRATION.LIST_LIMIT);
+
+    const [expiringSoon, violations] = await Promise.all([expiringSoonQuery, violationsQuery]);
+
+    if (expiringSoon.error || violations?.error) {
+      const message = (expiringSoon.error ?? violations?.error)!.message;
+      throw new Error(`Failed to load guest expirations for workspace ${workspaceId}: ${message}`);
+    }
+
+    return {
+      expiringSoon: (expiringSoon.data ?? []) as GuestExpiration[],
+      expiringSoonCount: expiringSoon.count ?? 0,
+      violations: (violations?.data ?? []) as GuestExpiration[],
+      violationCount: violations?.count ?? 0,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  private async setAlertedAt(workspaceId: string, guestIds: string[], alertedAt: string | null): Promise<void> {
+    for (let i = 0; i < guestIds.length; i += GUEST_EXPIRATION.BATCH_SIZE) {
+      const batch = guestIds.slice(i, i + GUEST_EXPIRATION.BATCH_SIZE);
+      const { error } = await supabase
+        .from('guest_expirations')
+        .update({ alerted_at: alertedAt })
+        .eq('workspace_id', workspaceId)
+        .in('slack_user_id', batch);
+
+      if (error) {
+        logger.error('Failed to update expiration alert markers', { workspaceId, count: batch.length }, error);
+      }
+    }
+  }
+}
+
+export const guestExpirationService = new GuestExpirationService();
@@ -0,0 +1,148 @@
+/**
+ * GuestHistoryService — append-only per-guest activity history.
+ *
+ * Every audit run records one guest_observations row per guest (active,
+ * inactive, exempt or grace). The guest timeline page reads them back to
+ * show how long a guest has been inactive and how often they flip between
+ * states.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { GUEST_HISTORY } from '@/config/constants';
+import type {
+  AuditRunChanges,
+  GuestObservation,
+  GuestObservationInsert,
+  GuestObservationStatus,
+} from '@/types/database.types';
+
+export interface GuestTimeline {
+  /** Newest first, at most GUEST_HISTORY.TIMELINE_LIMIT */
+  observations: GuestObservation[];
+  /** Start of the current inactive streak; null when the latest observation isn't inactive */
+  inactiveSince: string | null;
+  /** Consecutive inactive observations in the current streak */
+  inactiveStreak: number;
+  /** Number of active ↔ inactive changes across the observations (exempt and grace runs are skipped) */
+  flips: number;
+}
+
+/**
+ * Derives streak and flip counts from observations sorted newest first.
+ */
+function summarizeObservations(observations: GuestObservation[]): Omit<GuestTimeline, 'observations'> {
+  let inactiveStreak = 0;
+  for (const observation of observations) {
+    if (observation.status !== 'inactive') break;
+    inactiveStreak++;
+  }
+
+  const scored = observations.filter(o => o.status === 'active' || o.status === 'inactive');
+  let flips = 0;
+  for (let i = 1; i < scored.length; i++) {
+    if (scored[i].status !== scored[i - 1].status) flips++;
+  }
+
+  return {
+    inactiveSince: inactiveStreak > 0 ? observations[inactiveStreak - 1].observed_at : null,
+    inactiveStreak,
+    flips,
+  };
+}
+
+/**
+ * Compares two runs' guest statuses (slack_user_id → status). Guests present
+ * in only one run are invited or removed; the rest change only on crossing
+ * between inactive and active / exempt / grace.
+ */
+export function diffRunStatuses(
+  previous: Map<string, GuestObservationStatus>,
+  current: Map<string, GuestObservationStatus>
+): Omit<AuditRunChanges, 'previousRunId' | 'previousRunAt'> {
+  const changes = { newlyInactive: [] as string[], reactivated: [] as string[], removed: [] as string[], invited: [] as string[] };
+
+  for (const [guestId, status] of current) {
+    const before = previous.get(guestId);
+    if (!before) {
+      changes.invited.push(guestId);
+    } else if (status === 'inactive' && before !== 'inactive') {
+      changes.newlyInactive.push(guestId);
+    } else if (status === 'active' && before === 'inactive') {
+      changes.reactivated.push(guestId);
+    }
+  }
+
+  for (const guestId of previous.keys()) {
+    if (!current.has(guestId)) changes.removed.push(guestId);
+  }
+
+  return changes;
+}
+
+export class GuestHistoryService {
+  /**
+   * Appends one audit run's observations. Failures are logged, never thrown —
+   * history must not fail the audit that produced it. Returns false when a
+   * batch failed.
+   */
+  async recordObservations(workspaceId: string, observations: GuestObservationInsert[]): Promise<boolean> {
+    let ok = true;
+    for (let i = 0; i < observations.length; i += GUEST_HISTORY.INSERT_BATCH_SIZE) {
+      const batch = observations.slice(i, i + GUEST_HISTORY.INSERT_BATCH_SIZE);
+      const { error } = await supabase.from('guest_observations').insert(batch);
+
+      if (error) {
+        logger.error('Failed to record guest observations', { workspaceId, count: batch.length }, error);
+        ok = false;
+      }
+    }
+
+    return ok;
+  }
+
+  /** Every guest's status in one audit run */
+  async getRunStatuses(auditRunId: string): Promise<Map<string, GuestObservationStatus>> {
+    const statuses = new Map<string, GuestObservationStatus>();
+
+    for (let from = 0; ; from += GUEST_HISTORY.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('guest_observations')
+        .select('slack_user_id, status')
+        .eq('audit_run_id', auditRunId)
+        .order('slack_user_id')
+        .range(from, from + GUEST_HISTORY.PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load observations for audit run ${auditRunId}: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        statuses.set(row.slack_user_id as string, row.status as GuestObservationStatus);
+      }
+
+      if ((data ?? []).length < GUEST_HISTORY.PAGE_SIZE) break;
+    }
+
+    return statuses;
+  }
+
+  async getTimeline(workspaceId: string, guestId: string): Promise<GuestTimeline> {
+    const { data, error } = await supabase
+      .from('guest_observations')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('slack_user_id', guestId)
+      .order('observed_at', { ascending: false })
+      .limit(GUEST_HISTORY.TIMELINE_LIMIT);
+
+    if (error) {
+      throw new Error(`Failed to load guest timeline for ${guestId}: ${error.message}`);
+    }
+
+    const observations = (data ?? []) as GuestObservation[];
+    return { observations, ...summarizeObservations(observations) };
+  }
+}
+
+export const guestHistoryService = new GuestHistoryService();
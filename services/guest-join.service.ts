@@ -0,0 +1,191 @@
+/**
+ * GuestJoinService — when each guest joined the workspace.
+ *
+ * team_join events record the exact join time. The audit backfills every
+ * other guest it lists: at the time it first saw them, or with an unknown
+ * date (null) for guests already present when it first registered the
+ * workspace's roster (workspaces.guest_roster_registered_at). Inactive
+ * guests aren't flagged during the policy's grace period after joining.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { GUEST_JOINS } from '@/config/constants';
+import type { GuestJoin, GuestJoinInsert, Workspace } from '@/types/database.types';
+
+export interface GraceGuest {
+  slackUserId: string;
+  joinedAt: string;
+  graceEndsAt: string;
+}
+
+/** End of the guest's grace period, or null when they are past it (or their join date is unknown) */
+export function getGraceEndsAt(
+  joinedAt: string | null | undefined,
+  gracePeriodDays: number,
+  now: number = Date.now()
+): string | null {
+  if (!joinedAt || gracePeriodDays <= 0) return null;
+
+  const endsAt = new Date(joinedAt).getTime() + gracePeriodDays * 24 * 60 * 60 * 1000;
+  return endsAt > now ? new Date(endsAt).toISOString() : null;
+}
+
+export class GuestJoinService {
+  /** Records a team_join. Overwrites a backfilled date — the event is exact. Failures are logged only. */
+  async recordJoin(workspaceId: string, slackUserId: string, joinedAt: Date): Promise<void> {
+    const row: GuestJoinInsert = {
+      workspace_id: workspaceId,
+      slack_user_id: slackUserId,
+      joined_at: joinedAt.toISOString(),
+      source: 'team_join',
+    };
+
+    const { error } = await supabase
+      .from('guest_joins')
+      .upsert(row, { onConflict: 'workspace_id,slack_user_id' });
+
+    if (error) {
+      logger.error('Failed to record guest join', { workspaceId, slackUserId }, error);
+    }
+  }
+
+  /**
+   * Returns guestSlackId → join date (null when unknown) for the listed
+   * guests, backfilling those without a row. The first complete backfill
+   * registers the workspace's roster. With dryRun the backfill is computed
+   * but not written. A failed read degrades to an empty map — no guest gets
+   * a grace period, the audit still runs.
+   */
+  async resolveJoinDates(
+    workspace: Pick<Workspace, 'id' | 'guest_roster_registered_at'>,
+    guestIds: string[],
+    options: { dryRun?: boolean } = {}
+  ): Promise<Map<string, string | null>> {
+    const workspaceId = workspace.id;
+    let joins: Pick<GuestJoin, 'slack_user_id' | 'joined_at'>[];
+    try {
+      joins = await this.loadJoins(workspaceId);
+    } catch (err) {
+      logger.error('Failed to load guest join dates — no grace periods this run', { workspaceId }, err);
+      return new Map();
+    }
+
+    const joinDates = new Map(joins.map(join => [join.slack_user_id, join.joined_at]));
+
+    // Until the audit has registered the roster once, unseen guests predate tracking
+    const rosterRegistered = workspace.guest_roster_registered_at !== null;
+    const firstSeenAt = rosterRegistered ? new Date().toISOString() : null;
+
+    const newRows: GuestJoinInsert[] = guestIds
+      .filter(id => !joinDates.has(id))
+      .map(id => ({ workspace_id: workspaceId, slack_user_id: id, joined_at: firstSeenAt, source: 'audit' }));
+
+    for (const row of newRows) {
+      joinDates.set(row.slack_user_id, row.joined_at);
+    }
+
+    if (!options.dryRun) {
+      const inserted = await this.insertJoins(workspaceId, newRows);
+      // A partial backfill isn't a baseline — the next audit backfills the rest as unknown
+      if (inserted && !rosterRegistered) {
+        await this.markRosterRegistered(workspaceId);
+      }
+    }
+
+    return joinDates;
+  }
+
+  /** Guests who joined within the last gracePeriodDays, newest first */
+  async listInGrace(workspaceId: string, gracePeriodDays: number): Promise<GraceGuest[]> {
+    if (gracePeriodDays <= 0) return [];
+
+    const since = new Date(Date.now() - gracePeriodDays * 24 * 60 * 60 * 1000).toISOString();
+    const guests: GraceGuest[] = [];
+
+    for (let from = 0; ; from += GUEST_JOINS.BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('guest_joins')
+        .select('slack_user_id, joined_at')
+        .eq('workspace_id', workspaceId)
+        .gt('joined_at', since)
+        .order('joined_at', { ascending: false })
+        .order('slack_user_id')
+        .range(from, from + GUEST_JOINS.BATCH_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load guests in grace period for workspace ${workspaceId}: ${error.message}`);
+      }
+
+      guests.push(...(data ?? []).map(row => ({
+        slackUserId: row.slack_user_id as string,
+        joinedAt: row.joined_at as string,
+        graceEndsAt: getGraceEndsAt(row.joined_at as string, gracePeriodDays)!,
+      })));
+      if ((data ?? []).length < GUEST_JOINS.BATCH_SIZE) break;
+    }
+
+    return guests;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  private async loadJoins(workspaceId: string): Promise<Pick<GuestJoin, 'slack_user_id' | 'joined_at'>[]> {
+    const joins: Pick<GuestJoin, 'slack_user_id' | 'joined_at'>[] = [];
+
+    for (let from = 0; ; from += GUEST_JOINS.BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('guest_joins')
+        .select('slack_user_id, joined_at')
+        .eq('workspace_id', workspaceId)
+        .order('slack_user_id')
+        .range(from, from + GUEST_JOINS.BATCH_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load guest join dates for workspace ${workspaceId}: ${error.message}`);
+      }
+
+      joins.push(...((data ?? []) as Pick<GuestJoin, 'slack_user_id' | 'joined_at'>[]));
+      if ((data ?? []).length < GUEST_JOINS.BATCH_SIZE) break;
+    }
+
+    return joins;
+  }
+
+  /**
+   * Existing rows are left untouched — a team_join that raced the audit wins.
+   * Returns false when a batch failed.
+   */
+  private async insertJoins(workspaceId: string, rows: GuestJoinInsert[]): Promise<boolean> {
+    let ok = true;
+    for (let i = 0; i < rows.length; i += GUEST_JOINS.BATCH_SIZE) {
+      const batch = rows.slice(i, i + GUEST_JOINS.BATCH_SIZE);
+      const { error } = await supabase
+        .from('guest_joins')
+        .upsert(batch, { onConflict: 'workspace_id,slack_user_id', ignoreDuplicates: true });
+
+      if (error) {
+        logger.error('Failed to backfill guest join dates', { workspaceId, count: batch.length }, error);
+        ok = false;
+      }
+    }
+    return ok;
+  }
+
+  /** Failures are logged only — the next audit registers the roster again */
+  private async markRosterRegistered(workspaceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ guest_roster_registered_at: new Date().toISOString() })
+      .eq('id', workspaceId)
+      .is('guest_roster_registered_at', null);
+
+    if (error) {
+      logger.error('Failed to record guest roster baseline', { workspaceId }, error);
+    }
+  }
+}
+
+export const guestJoinService = new GuestJoinService();
@@ -0,0 +1,284 @@
+/**
+ * GuestSponsorService — guests whose sponsor has left the workspace.
+ *
+ * guest_sponsors records who invited each guest (invite_requested). When a
+ * sponsor is deactivated — seen in a user_change event, or found deactivated
+ * in users.list by an audit — their guests are marked orphaned and admins
+ * are DMed the list, with a picker to reassign each guest's sponsor. Audits
+ * repeat the list when it has new guests, or every
+ * ORPHAN_ALERT_REMINDER_DAYS while any remain. Orphaned sponsors are left
+ * out of sponsor escalation.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { getUser } from '@/lib/slack';
+import { PLAN_LIMITS } from '@/lib/subscription';
+import { alertService } from '@/services/alert.service';
+import { escalationService } from '@/services/escalation.service';
+import { workspaceTokenService } from '@/services/workspace-token.service';
+import { GUEST_SPONSORS, WORKSPACE_EVENT_TYPE } from '@/config/constants';
+import type { OrphanedGuestRow } from '@/lib/slack';
+import type { GuestSponsor, GuestSponsorUpsert, Workspace } from '@/types/database.types';
+
+export type ReassignSponsorResult =
+  | { ok: true }
+  | { ok: false; error: string };
+
+type SponsorRow = Pick<GuestSponsor, 'guest_user_id' | 'sponsor_user_id'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toOrphanedGuestRow(row: SponsorRow): OrphanedGuestRow {
+  return { guestId: row.guest_user_id, formerSponsorId: row.sponsor_user_id };
+}
+
+export class GuestSponsorService {
+  /**
+   * A member was deactivated (user_change with deleted: true). Marks the
+   * guests they sponsored as orphaned and alerts admins right away.
+   * Failures are logged, never thrown.
+   */
+  async handleSponsorDeactivated(workspaceId: string, sponsorId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('guest_sponsors')
+      .update({ orphaned_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('sponsor_user_id', sponsorId)
+      .is('orphaned_at', null)
+      .select('guest_user_id, sponsor_user_id');
+
+    if (error) {
+      logger.error('Failed to mark guests orphaned', { workspaceId, sponsorId }, error);
+      return;
+    }
+
+    const orphaned = (data ?? []) as SponsorRow[];
+    if (orphaned.length === 0) return;
+
+    await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.SPONSOR_DEPARTED, {
+      sponsor_id: sponsorId,
+      guest_ids: orphaned.map(row => row.guest_user_id),
+      source: 'user_change',
+    });
+
+    const { data: workspace } = await supabase
+      .from('workspaces')
+      .select('*')
+      .eq('id', workspaceId)
+      .single();
+
+    if (!workspace || !workspace.is_active || !PLAN_LIMITS[(workspace as Workspace).plan_type].canSendAlerts) {
+      logger.info('Guests orphaned — no alert for inactive or free workspace', { workspaceId, sponsorId });
+      return;
+    }
+
+    try {
+      const token = await workspaceTokenService.getAccessToken(workspace as Workspace);
+      const dms = await alertService.sendOrphanAlert(token, workspace as Workspace, orphaned.map(toOrphanedGuestRow));
+      if (dms.sent > 0) {
+        await this.markOrphansAlerted(workspaceId, orphaned.map(row => row.guest_user_id));
+      }
+    } catch (err) {
+      logger.error('Failed to alert admins about orphaned guests', { workspaceId, sponsorId }, err);
+    }
+
+    logger.info('Sponsor deactivated, guests orphaned', { workspaceId, sponsorId, guests: orphaned.length });
+  }
+
+  /**
+   * Audit cross-check against users.list: marks guests orphaned whose sponsor
+   * is deactivated, catching departures whose event never arrived. Returns
+   * how many guests were newly orphaned; failed writes are logged, not counted.
+   */
+  async detectOrphans(workspaceId: string, deactivatedUserIds: Set<string>): Promise<number> {
+    if (deactivatedUserIds.size === 0) return 0;
+
+    let sponsored: SponsorRow[];
+    try {
+      sponsored = await this.loadSponsored(workspaceId);
+    } catch (err) {
+      logger.error('Failed to cross-check guest sponsors', { workspaceId }, err);
+      return 0;
+    }
+
+    const orphaned = sponsored.filter(row => deactivatedUserIds.has(row.sponsor_user_id));
+    const orphanedAt = new Date().toISOString();
+    const marked: SponsorRow[] = [];
+
+    for (let i = 0; i < orphaned.length; i += GUEST_SPONSORS.BATCH_SIZE) {
+      const batch = orphaned.slice(i, i + GUEST_SPONSORS.BATCH_SIZE);
+      const { error } = await supabase
+        .from('guest_sponsors')
+        .update({ orphaned_at: orphanedAt })
+        .eq('workspace_id', workspaceId)
+        .in('guest_user_id', batch.map(row => row.guest_user_id))
+        .is('orphaned_at', null);
+
+      if (error) {
+        logger.error('Failed to mark guests orphaned', { workspaceId, count: batch.length }, error);
+      } else {
+        marked.push(...batch);
+      }
+    }
+
+    if (marked.length > 0) {
+      await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.SPONSOR_DEPARTED, {
+        sponsor_ids: [...new Set(marked.map(row => row.sponsor_user_id))],
+        guest_ids: marked.map(row => row.guest_user_id),
+        source: 'audit',
+      });
+    }
+
+    return marked.length;
+  }
+
+  /**
+   * The given guests that are still orphaned, longest-orphaned first — but
+   * only when admins are due to hear about them: one wasn't in an alert yet,
+   * or the last alert listing them is ORPHAN_ALERT_REMINDER_DAYS old.
+   * Otherwise, or when the read fails (logged), returns none.
+   */
+  async listOrphansDue(workspaceId: string, guestIds: string[]): Promise<OrphanedGuestRow[]> {
+    if (guestIds.length === 0) return [];
+
+    const orphaned: Array<SponsorRow & Pick<GuestSponsor, 'orphaned_at' | 'orphan_alerted_at'>> = [];
+    for (let i = 0; i < guestIds.length; i += GUEST_SPONSORS.BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('guest_sponsors')
+        .select('guest_user_id, sponsor_user_id, orphaned_at, orphan_alerted_at')
+        .eq('workspace_id', workspaceId)
+        .in('guest_user_id', guestIds.slice(i, i + GUEST_SPONSORS.BATCH_SIZE))
+        .not('orphaned_at', 'is', null);
+
+      if (error) {
+        logger.warn('Failed to load orphaned guests', { workspaceId }, error);
+        return [];
+      }
+
+      orphaned.push(...((data ?? []) as typeof orphaned));
+    }
+    orphaned.sort((a, b) => new Date(a.orphaned_at!).getTime() - new Date(b.orphaned_at!).getTime());
+
+    const remindBefore = Date.now() - GUEST_SPONSORS.ORPHAN_ALERT_REMINDER_DAYS * DAY_MS;
+    const due = orphaned.some(row =>
+      !row.orphan_alerted_at || new Date(row.orphan_alerted_at).getTime() <= remindBefore
+    );
+    return due ? orphaned.map(toOrphanedGuestRow) : [];
+  }
+
+  /** Records that an orphan alert just listed these guests. Failures are logged only. */
+  async markOrphansAlerted(workspaceId: string, guestIds: string[]): Promise<void> {
+    const alertedAt = new Date().toISOString();
+
+    for (let i = 0; i < guestIds.length; i += GUEST_SPONSORS.BATCH_SIZE) {
+      const batch = guestIds.slice(i, i + GUEST_SPONSORS.BATCH_SIZE);
+      const { error } = await supabase
+        .from('guest_sponsors')
+        .update({ orphan_alerted_at: alertedAt })
+        .eq('workspace_id', workspaceId)
+        .in('guest_user_id', batch);
+
+      if (error) {
+        logger.error('Failed to record orphan alert', { workspaceId, count: batch.length }, error);
+      }
+    }
+  }
+
+  /**
+   * Makes `sponsorId` the guest's sponsor and clears the orphan mark. The new
+   * sponsor must be an active full member. Any open sponsor check is dropped,
+   * so the next audit asks the new sponsor.
+   */
+  async reassignSponsor(
+    workspaceId: string,
+    token: string,
+    guestId: string,
+    sponsorId: string,
+    adminId: string
+  ): Promise<ReassignSponsorResult> {
+    const sponsor = await getUser(token, sponsorId);
+    if (!sponsor) {
+      return { ok: false, error: `Couldn't look up <@${sponsorId}> — try again.` };
+    }
+    if (sponsor.deleted) {
+      return { ok: false, error: `<@${sponsorId}> has been deactivated — pick someone else.` };
+    }
+    if (sponsor.is_bot || sponsor.is_restricted || sponsor.is_ultra_restricted) {
+      return { ok: false, error: `<@${sponsorId}> can't sponsor guests — pick a full member of the workspace.` };
+    }
+
+    const record: GuestSponsorUpsert = {
+      workspace_id: workspaceId,
+      guest_user_id: guestId,
+      sponsor_user_id: sponsorId,
+      captured_from_event: 'reassigned',
+      orphaned_at: null,
+      orphan_alerted_at: null,
+    };
+
+    const { error } = await supabase
+      .from('guest_sponsors')
+      .upsert(record, { onConflict: 'workspace_id,guest_user_id' });
+
+    if (error) {
+      logger.error('Failed to reassign guest sponsor', { workspaceId, guestId, sponsorId }, error);
+      return { ok: false, error: 'Something went wrong saving the new sponsor — try again.' };
+    }
+
+    await Promise.all([
+      escalationService.clearEscalations(workspaceId, [guestId]),
+      this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.SPONSOR_REASSIGNED, {
+        guest_id: guestId,
+        sponsor_id: sponsorId,
+        admin_id: adminId,
+      }),
+    ]);
+
+    return { ok: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  /** Every guest with a sponsor that isn't already orphaned */
+  private async loadSponsored(workspaceId: string): Promise<SponsorRow[]> {
+    const rows: SponsorRow[] = [];
+
+    for (let from = 0; ; from += GUEST_SPONSORS.BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('guest_sponsors')
+        .select('guest_user_id, sponsor_user_id')
+        .eq('workspace_id', workspaceId)
+        .is('orphaned_at', null)
+        .order('guest_user_id')
+        .range(from, from + GUEST_SPONSORS.BATCH_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load guest sponsors for workspace ${workspaceId}: ${error.message}`);
+      }
+
+      rows.push(...((data ?? []) as SponsorRow[]));
+      if ((data ?? []).length < GUEST_SPONSORS.BATCH_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  private async logEvent(
+    workspaceId: string,
+    type: string,
+    payload: Record<string, unknown>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('events')
+      .insert({ workspace_id: workspaceId, type, payload });
+
+    if (error) {
+      logger.error('Failed to log event', { workspaceId, type }, error);
+    }
+  }
+}
+
+export const guestSponsorService = new GuestSponsorService();
@@ -0,0 +1,128 @@
+/**
+ * OnboardingScanService — the quick scan behind the onboarding "AHA moment".
+ *
+ * Cheaper than a full audit and never writes guest data:
+ *   1. Profile updates (free — part of users.list) are checked for every guest
+ *   2. Presence is checked for up to ONBOARDING_SCAN.PRESENCE_SAMPLE_SIZE of
+ *      the remaining guests, picked at random from each tier (paid
+ *      multi-channel, free single-channel) in proportion to its size
+ *   3. When guests are left unchecked, each tier's sampled inactive rate is
+ *      extrapolated to that tier and the result is marked as an estimate
+ *
+ * Message history is never read here — the first full audit does that.
+ */
+
+import { getGuests, getUserPresence } from '@/lib/slack';
+import { logger } from '@/lib/logger';
+import { policyService } from '@/services/policy.service';
+import { workspaceTokenService } from '@/services/workspace-token.service';
+import { BILLING, ONBOARDING_SCAN } from '@/config/constants';
+import type { Workspace } from '@/types/database.types';
+import type { SlackUser } from '@/types/slack.types';
+import type { OnboardingScanResult } from '@/types/api.types';
+
+type ScanWorkspace = Pick<
+  Workspace,
+  'id' | 'access_token' | 'refresh_token' | 'token_expires_at' | 'estimated_seat_cost'
+>;
+
+function isPaidGuest(guest: SlackUser): boolean {
+  return !!guest.is_restricted && !guest.is_ultra_restricted;
+}
+
+/** Random `size` guests (Fisher–Yates) — not whichever ones Slack lists first */
+function pickRandom(guests: SlackUser[], size: number): SlackUser[] {
+  const shuffled = [...guests];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, size);
+}
+
+/** Splits the presence budget across tiers by size, checking at least one guest of each */
+function splitSampleSize(paid: number, free: number, budget: number): [number, number] {
+  if (paid + free <= budget) return [paid, free];
+
+  let paidSize = Math.round((budget * paid) / (paid + free));
+  if (paid > 0) paidSize = Math.max(1, paidSize);
+  if (free > 0) paidSize = Math.min(budget - 1, paidSize);
+  paidSize = Math.min(paid, paidSize);
+  return [paidSize, Math.min(free, budget - paidSize)];
+}
+
+export class OnboardingScanService {
+  async scan(workspace: ScanWorkspace): Promise<OnboardingScanResult> {
+    const token = await workspaceTokenService.getAccessToken(workspace);
+    const [guests, policy] = await Promise.all([
+      getGuests(token),
+      policyService.getPolicy(workspace.id),
+    ]);
+
+    const cutoff = Math.floor(Date.now() / 1000) - policy.activityWindowDays * 24 * 60 * 60;
+    const candidates = guests.filter(guest => !guest.updated || guest.updated <= cutoff);
+
+    // Paid and free guests are often inactive at different rates — sample and extrapolate each on its own
+    const paid = candidates.filter(isPaidGuest);
+    const free = candidates.filter(guest => !isPaidGuest(guest));
+    const [paidSize, freeSize] = splitSampleSize(paid.length, free.length, ONBOARDING_SCAN.PRESENCE_SAMPLE_SIZE);
+    const [paidTier, freeTier] = await Promise.all([
+      this.measureTier(token, paid, paidSize),
+      this.measureTier(token, free, freeSize),
+    ]);
+
+    const sampled = paidTier.sampled + freeTier.sampled;
+    const unsampled = candidates.length - sampled;
+    const inactivePaidGuests = paidTier.inactive;
+    const inactiveGuests = paidTier.inactive + freeTier.inactive;
+
+    const costPerSeat = Number(workspace.estimated_seat_cost ?? BILLING.DEFAULT_SEAT_COST_USD);
+
+    logger.info('Onboarding scan complete', {
+      workspaceId: workspace.id,
+      guests: guests.length,
+      sampled,
+      unsampled,
+      inactive: inactiveGuests,
+    });
+
+    return {
+      totalGuests: guests.length,
+      inactiveGuests,
+      monthlyWaste: inactivePaidGuests * costPerSeat,
+      profileActiveGuests: guests.length - candidates.length,
+      presenceSampledGuests: sampled,
+      isEstimate: unsampled > 0,
+      activityWindowDays: policy.activityWindowDays,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Checks presence for a random `size` of the tier's guests and extrapolates
+   * their inactive rate to the rest. `inactive` is measured when the whole
+   * tier was sampled.
+   */
+  private async measureTier(
+    token: string,
+    guests: SlackUser[],
+    size: number
+  ): Promise<{ sampled: number; inactive: number }> {
+    const sample = pickRandom(guests, size);
+    if (sample.length === 0) return { sampled: 0, inactive: 0 };
+
+    const presences = await Promise.all(sample.map(guest => getUserPresence(token, guest.id)));
+    const sampledInactive = presences.filter(presence => presence !== 'active').length;
+    const unsampled = guests.length - sample.length;
+
+    return {
+      sampled: sample.length,
+      inactive: sampledInactive + Math.round(unsampled * (sampledInactive / sample.length)),
+    };
+  }
+}
+
+export const onboardingScanService = new OnboardingScanService();
@@ -0,0 +1,238 @@
+/**
+ * PolicyService — per-workspace inactivity policy.
+ *
+ * Each workspace can tune the activity window, signal weights, the
+ * active/inactive threshold and which signals are evaluated. Workspaces
+ * without a saved policy get the global defaults from AUDIT, so the
+ * audit behaves exactly as it did before policies existed.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { ACTIVITY_SIGNAL, AUDIT, AUDIT_POLICY, HISTORY_CHANNEL_SCOPES } from '@/config/constants';
+import { ACTIVITY_SIGNALS } from '@/services/activity-signals/registry';
+import type { HistoryCoverage } from '@/lib/slack';
+import type {
+  ActivitySignalId,
+  AuditPolicy,
+  AuditPolicyUpsert,
+  HistoryChannelType,
+} from '@/types/database.types';
+
+/** A fully-resolved policy — every signal has a weight, defaults applied. */
+export interface EffectiveAuditPolicy {
+  activityWindowDays: number;
+  minActiveScore: number;
+  signalWeights: Record<ActivitySignalId, number>;
+  enabledSignals: ActivitySignalId[];
+  /** Conversation types the message signal reads */
+  historyChannelTypes: HistoryChannelType[];
+  historyIncludeShared: boolean;
+  /** Days after joining before an inactive guest is flagged; 0 = no grace period */
+  gracePeriodDays: number;
+  /**
+   * Multi-channel guests without an account expiration, or expiring further
+   * out than this many days, are reported to admins; null = check off
+   */
+  maxGuestExpirationDays: number | null;
+}
+
+export interface ResolvedHistoryCoverage {
+  /** What the message signal reads for this workspace */
+  coverage: HistoryCoverage;
+  /** Types the policy asks for but the install didn't grant scopes for */
+  uncoveredTypes: HistoryChannelType[];
+}
+
+export type PolicyValidationResult =
+  | { valid: true }
+  | { valid: false; errors: string[] };
+
+export const ALL_ACTIVITY_SIGNALS: ActivitySignalId[] = Object.values(ACTIVITY_SIGNAL);
+export const ALL_HISTORY_CHANNEL_TYPES = Object.keys(HISTORY_CHANNEL_SCOPES) as HistoryChannelType[];
+
+/** Scopes every install before scope tracking was granted */
+const LEGACY_GRANTED_SCOPES = HISTORY_CHANNEL_SCOPES.public_channel;
+
+export const DEFAULT_AUDIT_POLICY: EffectiveAuditPolicy = {
+  activityWindowDays: AUDIT.ACTIVITY_WINDOW_DAYS,
+  minActiveScore: AUDIT.MIN_ACTIVE_SCORE,
+  signalWeights: Object.fromEntries(
+    ACTIVITY_SIGNALS.map(signal => [signal.id, signal.defaultWeight])
+  ) as Record<ActivitySignalId, number>,
+  enabledSignals: ALL_ACTIVITY_SIGNALS,
+  historyChannelTypes: ['public_channel', 'private_channel'],
+  historyIncludeShared: true,
+  gracePeriodDays: AUDIT.GRACE_PERIOD_DAYS,
+  maxGuestExpirationDays: null,
+};
+
+/**
+ * Checks a policy for values the audit cannot work with.
+ * Returns every problem at once so the settings form can show them together.
+ */
+export function validateAuditPolicy(policy: EffectiveAuditPolicy): PolicyValidationResult {
+  const errors: string[] = [];
+
+  if (
+    !Number.isInteger(policy.activityWindowDays) ||
+    policy.activityWindowDays < AUDIT_POLICY.MIN_WINDOW_DAYS ||
+    policy.activityWindowDays > AUDIT_POLICY.MAX_WINDOW_DAYS
+  ) {
+    errors.push(
+      `Activity window must be a whole number of days between ${AUDIT_POLICY.MIN_WINDOW_DAYS} and ${AUDIT_POLICY.MAX_WINDOW_DAYS}.`
+    );
+  }
+
+  for (const signal of ALL_ACTIVITY_SIGNALS) {
+    const weight = policy.signalWeights[signal];
+    if (!Number.isFinite(weight) || weight < 0 || weight > AUDIT_POLICY.MAX_SCORE) {
+      errors.push(`Weight for the ${signal} signal must be between 0 and ${AUDIT_POLICY.MAX_SCORE}.`);
+    }
+  }
+
+  if (
+    !Number.isFinite(policy.minActiveScore) ||
+    policy.minActiveScore <= 0 ||
+    policy.minActiveScore > AUDIT_POLICY.MAX_SCORE
+  ) {
+    errors.push(`Threshold must be greater than 0 and at most ${AUDIT_POLICY.MAX_SCORE}.`);
+  }
+
+  if (
+    !Number.isInteger(policy.gracePeriodDays) ||
+    policy.gracePeriodDays < 0 ||
+    policy.gracePeriodDays > AUDIT_POLICY.MAX_GRACE_PERIOD_DAYS
+  ) {
+    errors.push(
+      `Grace period must be a whole number of days between 0 and ${AUDIT_POLICY.MAX_GRACE_PERIOD_DAYS}.`
+    );
+  }
+
+  if (
+    policy.maxGuestExpirationDays !== null &&
+    (!Number.isInteger(policy.maxGuestExpirationDays) ||
+      policy.maxGuestExpirationDays < 1 ||
+      policy.maxGuestExpirationDays > AUDIT_POLICY.MAX_GUEST_EXPIRATION_DAYS)
+  ) {
+    errors.push(
+      `Maximum guest expiration must be a whole number of days between 1 and ${AUDIT_POLICY.MAX_GUEST_EXPIRATION_DAYS}, or empty.`
+    );
+  }
+
+  if (policy.enabledSignals.length === 0) {
+    errors.push('At least one activity signal must be enabled.');
+  }
+
+  if (policy.enabledSignals.includes('message') && policy.historyChannelTypes.length === 0) {
+    errors.push('Choose at least one conversation type for the message signal.');
+  }
+
+  // A threshold no guest can reach would flag the entire workspace
+  const maxReachableScore = policy.enabledSignals.reduce(
+    (sum, signal) => sum + (policy.signalWeights[signal] ?? 0),
+    0
+  );
+  if (policy.enabledSignals.length > 0 && maxReachableScore < policy.minActiveScore) {
+    errors.push(
+      `Threshold (${policy.minActiveScore}) is higher than the combined weight of the enabled signals (${maxReachableScore}) — every guest would be flagged.`
+    );
+  }
+
+  return errors.length === 0 ? { valid: true } : { valid: false, errors };
+}
+
+/**
+ * Narrows the policy's conversation types to those the workspace granted
+ * read + history scopes for. Installs without recorded scopes are assumed to
+ * have the original public-channel scopes only.
+ */
+export function resolveHistoryCoverage(
+  policy: EffectiveAuditPolicy,
+  grantedScopes: string[] | null
+): ResolvedHistoryCoverage {
+  const granted = new Set<string>(grantedScopes ?? LEGACY_GRANTED_SCOPES);
+  const isGranted = (type: HistoryChannelType) =>
+    HISTORY_CHANNEL_SCOPES[type].every(scope => granted.has(scope));
+
+  return {
+    coverage: {
+      channelTypes: policy.historyChannelTypes.filter(isGranted),
+      includeShared: policy.historyIncludeShared,
+    },
+    uncoveredTypes: policy.historyChannelTypes.filter(type => !isGranted(type)),
+  };
+}
+
+function toEffectivePolicy(row: AuditPolicy): EffectiveAuditPolicy {
+  return {
+    activityWindowDays: row.activity_window_days,
+    minActiveScore: Number(row.min_active_score),
+    signalWeights: { ...DEFAULT_AUDIT_POLICY.signalWeights, ...row.signal_weights },
+    // Drop signals this version of the app no longer knows about
+    enabledSignals: (row.enabled_signals ?? []).filter(s => ALL_ACTIVITY_SIGNALS.includes(s)),
+    historyChannelTypes: (row.history_channel_types ?? DEFAULT_AUDIT_POLICY.historyChannelTypes)
+      .filter(t => ALL_HISTORY_CHANNEL_TYPES.includes(t)),
+    historyIncludeShared: row.history_include_shared ?? DEFAULT_AUDIT_POLICY.historyIncludeShared,
+    gracePeriodDays: row.grace_period_days ?? DEFAULT_AUDIT_POLICY.gracePeriodDays,
+    maxGuestExpirationDays: row.max_guest_expiration_days ?? null,
+  };
+}
+
+export class PolicyService {
+  /**
+   * Returns the workspace's policy, or the defaults when none is saved.
+   * Never throws — a DB failure falls back to defaults so audits still run.
+   */
+  async getPolicy(workspaceId: string): Promise<EffectiveAuditPolicy> {
+    const { data, error } = await supabase
+      .from('audit_policies')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to load audit policy — using defaults', { workspaceId }, error);
+      return DEFAULT_AUDIT_POLICY;
+    }
+
+    return data ? toEffectivePolicy(data as AuditPolicy) : DEFAULT_AUDIT_POLICY;
+  }
+
+  /**
+   * Validates and persists a workspace policy.
+   * Returns the validation result; nothing is written when invalid.
+   */
+  async savePolicy(workspaceId: string, policy: EffectiveAuditPolicy): Promise<PolicyValidationResult> {
+    const validation = validateAuditPolicy(policy);
+    if (!validation.valid) {
+      return validation;
+    }
+
+    const record: AuditPolicyUpsert = {
+      workspace_id: workspaceId,
+      activity_window_days: policy.activityWindowDays,
+      min_active_score: policy.minActiveScore,
+      signal_weights: policy.signalWeights,
+      enabled_signals: policy.enabledSignals,
+      history_channel_types: policy.historyChannelTypes,
+      history_include_shared: policy.historyIncludeShared,
+      grace_period_days: policy.gracePeriodDays,
+      max_guest_expiration_days: policy.maxGuestExpirationDays,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await supabase
+      .from('audit_policies')
+      .upsert(record, { onConflict: 'workspace_id' });
+
+    if (error) {
+      throw new Error(`Failed to save audit policy for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    logger.info('Audit policy updated', { workspaceId, ...record });
+    return validation;
+  }
+}
+
+export const policyService = new PolicyService();
@@ -6,10 +6,65 @@
  */
 
 import { supabase } from '@/lib/db';
+import { decrypt } from '@/lib/encryption';
+import { canDeactivateViaScim, deactivateUser } from '@/lib/slack';
 import { logger } from '@/lib/logger';
-import { GUEST_ACTION, SLACK_ACTION_ID, WORKSPACE_EVENT_TYPE } from '@/config/constants';
-import type { SlackBlockActionsPayload } from '@/types/slack.types';
-import type { GuestActionTaken } from '@/types/database.types';
+import { appHomeService } from '@/services/app-home.service';
+import { escalationService } from '@/services/escalation.service';
+import { guestSponsorService } from '@/services/guest-sponsor.service';
+import {
+  DEFAULT_SNOOZE_KEY,
+  DIGEST_BLOCK_ID_PREFIX,
+  GUEST_ACTION,
+  ORPHAN_BLOCK_ID_PREFIX,
+  SLACK_ACTION_ID,
+  SNOOZE_DURATION,
+  SPONSOR_ESCALATION,
+  WORKSPACE_EVENT_TYPE,
+} from '@/config/constants';
+import type { SlackBlockActionItem, SlackBlockActionsPayload } from '@/types/slack.types';
+import type { GuestActionTaken, Workspace } from '@/types/database.types';
+import type { SponsorDecision } from '@/services/escalation.service';
+
+type ActionWorkspace = Pick<Workspace, 'id' | 'access_token' | 'supports_user_deactivation' | 'granted_scopes'>;
+
+type SnoozeKey = keyof typeof SNOOZE_DURATION;
+
+interface SnoozeRequest {
+  guestId: string;
+  key: SnoozeKey;
+}
+
+/**
+ * Reads the guest and duration from a snooze menu selection
+ * (snooze_<key>_<guestId>) or from a legacy "Ignore" button (ignore_<guestId>).
+ */
+function parseSnoozeAction(action: SlackBlockActionItem): SnoozeRequest | null {
+  const selected = action.selected_option?.value;
+  if (selected) {
+    const match = /^snooze_([a-z0-9]+)_(.+)$/.exec(selected);
+    if (!match || !(match[1] in SNOOZE_DURATION)) return null;
+    return { key: match[1] as SnoozeKey, guestId: match[2] };
+  }
+
+  if (action.value?.startsWith('ignore_')) {
+    return { key: DEFAULT_SNOOZE_KEY, guestId: action.value.replace(/^ignore_/, '') };
+  }
+
+  return null;
+}
+
+/**
+ * Digest rows share one message — responding must not replace the whole digest
+ * with a single guest's confirmation.
+ */
+function shouldReplaceOriginal(action: SlackBlockActionItem): boolean {
+  return !action.block_id?.startsWith(DIGEST_BLOCK_ID_PREFIX);
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
 
 export class SlackActionService {
   /**
@@ -25,63 +80,222 @@ export class SlackActionService {
     for (const action of payload.actions) {
       switch (action.action_id) {
         case SLACK_ACTION_ID.DEACTIVATE_GUEST:
-          await this.handleDeactivate(workspace.id, action.value, payload);
+          await this.handleDeactivate(workspace, action, payload);
           break;
 
         case SLACK_ACTION_ID.IGNORE_GUEST:
-          await this.handleIgnore(workspace.id, action.value, payload);
+          await this.handleSnooze(workspace.id, action, payload);
+          break;
+
+        case SLACK_ACTION_ID.SPONSOR_KEEP_GUEST:
+          await this.handleSponsorResponse(workspace.id, action, payload, 'keep');
+          break;
+
+        case SLACK_ACTION_ID.SPONSOR_REMOVE_GUEST:
+          await this.handleSponsorResponse(workspace.id, action, payload, 'remove');
+          break;
+
+        case SLACK_ACTION_ID.REASSIGN_SPONSOR:
+          await this.handleReassignSponsor(workspace, action, payload);
+          break;
+
+        case SLACK_ACTION_ID.OPEN_DASHBOARD:
+          // Link button — Slack opens the URL client-side, nothing to do
           break;
 
         default:
           logger.warn('Unknown Slack action_id', { actionId: action.action_id });
       }
     }
+
+    // Actions from the App Home have no response_url — refresh the tab instead
+    if (payload.view?.type === 'home') {
+      await appHomeService.publishHome(workspace.id, payload.user.id);
+    }
   }
 
+  /**
+   * On Enterprise Grid, with the admin scope granted, the guest is
+   * deactivated through the SCIM API and their flag is cleared. Everywhere
+   * else — or when the API call fails — the click is recorded as deactivation
+   * intent and the admin is asked to finish the job manually.
+   */
   private async handleDeactivate(
-    workspaceId: string,
-    actionValue: string,
+    workspace: ActionWorkspace,
+    action: SlackBlockActionItem,
     payload: SlackBlockActionsPayload
   ): Promise<void> {
-    const guestId = actionValue.replace(/^deactivate_/, '');
+    const workspaceId = workspace.id;
+    const guestId = (action.value ?? '').replace(/^deactivate_/, '');
+    const replaceOriginal = shouldReplaceOriginal(action);
+
+    await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.DEACTIVATE_BUTTON_CLICKED, {
+      guest_id: guestId,
+      admin_id: payload.user.id,
+    });
 
-    await Promise.all([
-      this.updateGuestAction(workspaceId, guestId, GUEST_ACTION.DEACTIVATION_ACCEPTED),
-      this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.DEACTIVATE_BUTTON_CLICKED, {
+    let failureReason: string | null = null;
+
+    if (canDeactivateViaScim(workspace)) {
+      const result = await deactivateUser(decrypt(workspace.access_token), guestId);
+
+      if (result.ok) {
+        await Promise.all([
+          this.updateGuestAction(workspaceId, guestId, GUEST_ACTION.DEACTIVATED),
+          this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.GUEST_DEACTIVATED, {
+            guest_id: guestId,
+            admin_id: payload.user.id,
+          }),
+        ]);
+
+        await this.postResponseMessage(
+          payload.response_url,
+          `✅ <@${guestId}> has been deactivated. Their seat will no longer be billed.`,
+          replaceOriginal
+        );
+
+        logger.info('Guest deactivated via SCIM', { workspaceId, guestId, adminId: payload.user.id });
+        return;
+      }
+
+      failureReason = result.error ?? 'unknown error';
+      await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.GUEST_DEACTIVATION_FAILED, {
         guest_id: guestId,
         admin_id: payload.user.id,
-      }),
-    ]);
+        error: failureReason,
+      });
+    }
 
-    await this.postResponseMessage(
-      payload.response_url,
-      `✅ Action logged. Please manually deactivate <@${guestId}> in the Slack Admin panel.`
-    );
+    // Fallback: non-Grid workspace or SCIM failure — log intent only
+    await this.updateGuestAction(workspaceId, guestId, GUEST_ACTION.DEACTIVATION_ACCEPTED);
+
+    const text = failureReason
+      ? `⚠️ Automatic deactivation failed (${failureReason}). Action logged — please manually deactivate <@${guestId}> in the Slack Admin panel.`
+      : `✅ Action logged. Please manually deactivate <@${guestId}> in the Slack Admin panel.`;
+    await this.postResponseMessage(payload.response_url, text, replaceOriginal);
 
-    logger.info('Deactivation intent logged', { workspaceId, guestId, adminId: payload.user.id });
+    logger.info('Deactivation intent logged', {
+      workspaceId,
+      guestId,
+      adminId: payload.user.id,
+      deactivationError: failureReason,
+    });
   }
 
-  private async handleIgnore(
+  /**
+   * Snoozes alerts for a guest. The audit keeps the guest flagged but skips
+   * DMs and leaves the snooze untouched until it expires.
+   */
+  private async handleSnooze(
     workspaceId: string,
-    actionValue: string,
+    action: SlackBlockActionItem,
     payload: SlackBlockActionsPayload
   ): Promise<void> {
-    const guestId = actionValue.replace(/^ignore_/, '');
+    const request = parseSnoozeAction(action);
+    if (!request) {
+      logger.warn('Malformed snooze action', { workspaceId, value: action.value, selected: action.selected_option?.value });
+      return;
+    }
 
-    await Promise.all([
-      this.updateGuestAction(workspaceId, guestId, GUEST_ACTION.IGNORED_BY_ADMIN),
-      this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.IGNORE_BUTTON_CLICKED, {
-        guest_id: guestId,
-        admin_id: payload.user.id,
-      }),
-    ]);
+    const { guestId, key } = request;
+    const { days } = SNOOZE_DURATION[key];
+    const now = new Date();
+    const snoozedUntil = days === null ? null : new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const { error } = await supabase
+      .from('guest_audits')
+      .update({
+        action_taken: GUEST_ACTION.IGNORED_BY_ADMIN,
+        snoozed_at: now.toISOString(),
+        snoozed_until: snoozedUntil?.toISOString() ?? null,
+        snoozed_by: payload.user.id,
+      })
+      .eq('workspace_id', workspaceId)
+      .eq('slack_user_id', guestId);
+
+    if (error) {
+      logger.error('Failed to snooze guest', { workspaceId, guestId, key }, error);
+    }
+
+    await this.logEvent(workspaceId, WORKSPACE_EVENT_TYPE.IGNORE_BUTTON_CLICKED, {
+      guest_id: guestId,
+      admin_id: payload.user.id,
+      snooze_days: days,
+    });
+
+    const text = snoozedUntil
+      ? `Snoozed alerts for <@${guestId}> until ${formatDate(snoozedUntil)}. They stay on the dashboard as flagged but won't trigger DMs.`
+      : `Snoozed alerts for <@${guestId}> indefinitely. They stay on the dashboard as flagged but won't trigger DMs.`;
+    await this.postResponseMessage(payload.response_url, text, shouldReplaceOriginal(action));
+
+    logger.info('Guest alerts snoozed', { workspaceId, guestId, adminId: payload.user.id, snoozeDays: days });
+  }
+
+  /**
+   * A sponsor's answer to "does this guest still need access?". Keep snoozes
+   * the guest's alerts; Remove escalates the guest to the workspace's admins.
+   */
+  private async handleSponsorResponse(
+    workspaceId: string,
+    action: SlackBlockActionItem,
+    payload: SlackBlockActionsPayload,
+    decision: SponsorDecision
+  ): Promise<void> {
+    const guestId = (action.value ?? '').replace(/^(keep|remove)_/, '');
+    const result = await escalationService.recordSponsorResponse(
+      workspaceId,
+      guestId,
+      payload.user.id,
+      decision
+    );
+
+    if (!result.ok) {
+      await this.postResponseMessage(payload.response_url, result.error, false);
+      return;
+    }
 
-    await this.postResponseMessage(
-      payload.response_url,
-      `Ignored alert for <@${guestId}>. No further alerts will be sent for this guest until the next audit.`
+    const text = decision === 'keep'
+      ? `👍 Thanks — <@${guestId}> keeps their access. We won't ask again for ${SPONSOR_ESCALATION.KEEP_SNOOZE_DAYS} days.`
+      : `Thanks — your workspace admins have been asked to remove <@${guestId}>.`;
+    await this.postResponseMessage(payload.response_url, text);
+
+    logger.info('Sponsor responded to guest check', { workspaceId, guestId, sponsorId: payload.user.id, decision });
+  }
+
+  /**
+   * An admin picked a new sponsor for an orphaned guest. The alert lists
+   * several guests, so the confirmation never replaces it.
+   */
+  private async handleReassignSponsor(
+    workspace: ActionWorkspace,
+    action: SlackBlockActionItem,
+    payload: SlackBlockActionsPayload
+  ): Promise<void> {
+    const guestId = action.block_id?.startsWith(ORPHAN_BLOCK_ID_PREFIX)
+      ? action.block_id.slice(ORPHAN_BLOCK_ID_PREFIX.length)
+      : null;
+    if (!guestId || !action.selected_user) {
+      logger.warn('Malformed reassign sponsor action', { workspaceId: workspace.id, blockId: action.block_id });
+      return;
+    }
+
+    const sponsorId = action.selected_user;
+    const result = await guestSponsorService.reassignSponsor(
+      workspace.id,
+      decrypt(workspace.access_token),
+      guestId,
+      sponsorId,
+      payload.user.id
     );
 
-    logger.info('Guest alert ignored', { workspaceId, guestId, adminId: payload.user.id });
+    const text = result.ok
+      ? `✅ <@${sponsorId}> is now the sponsor for <@${guestId}>.`
+      : result.error;
+    await this.postResponseMessage(payload.response_url, text, false);
+
+    if (result.ok) {
+      logger.info('Guest sponsor reassigned', { workspaceId: workspace.id, guestId, sponsorId, adminId: payload.user.id });
+    }
   }
 
   private async updateGuestAction(
@@ -89,9 +303,14 @@ export class SlackActionService {
     guestId: string,
     action: GuestActionTaken
   ): Promise<void> {
+    // A deactivated guest drops out of users.list, so no later audit would clear the flag
+    const fields = action === GUEST_ACTION.DEACTIVATED
+      ? { action_taken: action, is_flagged: false }
+      : { action_taken: action };
+
     const { error } = await supabase
       .from('guest_audits')
-      .update({ action_taken: action })
+      .update(fields)
       .eq('workspace_id', workspaceId)
       .eq('slack_user_id', guestId);
 
@@ -114,22 +333,28 @@ export class SlackActionService {
     }
   }
 
-  private async resolveWorkspace(slackTeamId: string): Promise<{ id: string } | null> {
+  private async resolveWorkspace(slackTeamId: string): Promise<ActionWorkspace | null> {
     const { data } = await supabase
       .from('workspaces')
-      .select('id')
+      .select('id, access_token, supports_user_deactivation, granted_scopes')
       .eq('slack_workspace_id', slackTeamId)
       .single();
 
     return data;
   }
 
-  private async postResponseMessage(responseUrl: string, text: string): Promise<void> {
+  private async postResponseMessage(
+    responseUrl: string | undefined,
+    text: string,
+    replaceOriginal = true
+  ): Promise<void> {
+    if (!responseUrl) return;
+
     try {
       await fetch(responseUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ replace_original: true, text }),
+        body: JSON.stringify({ replace_original: replaceOriginal, text }),
       });
     } catch (err) {
       logger.error('Failed to post Slack response message', { responseUrl }, err);
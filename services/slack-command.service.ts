@@ -0,0 +1,257 @@
+/**
+ * SlackCommandService — handles the /guest-sentinel slash command.
+ *
+ * Subcommands:
+ *   scan            queue an on-demand audit (subject to canRunManualScan)
+ *   status          latest audit snapshot, plan and flagged count
+ *   guest @user     live score breakdown for one guest
+ *   exempt @user    add a user exemption rule (optional reason after the mention)
+ *
+ * Every response is ephemeral. Only alert recipients may use the command —
+ * guest data is never shown to other members.
+ */
+
+import { supabase } from '@/lib/db';
+import { logger } from '@/lib/logger';
+import { PLAN_LIMITS } from '@/lib/subscription';
+import { auditService } from '@/services/audit.service';
+import { exemptionService } from '@/services/exemption.service';
+import { getAlertRecipients } from '@/services/alert.service';
+import { describeAuditSchedule, getAuditSchedule } from '@/services/audit-schedule.service';
+import { COMPLETED_AUDIT_RUN_STATUSES, EXEMPTION_RULE_TYPE } from '@/config/constants';
+import type { AuditRun, Workspace } from '@/types/database.types';
+import type { SlackCommandResponse, SlackSlashCommandPayload } from '@/types/slack.types';
+
+type CommandWorkspace = Pick<
+  Workspace,
+  'id' | 'plan_type' | 'installed_by' | 'alert_recipients' | 'is_active' | 'audit_timezone' | 'audit_day_of_week' | 'audit_hour'
+>;
+
+export interface CommandResult {
+  /** Sent back synchronously — Slack requires a response within 3 seconds */
+  response: SlackCommandResponse;
+  /** Slow work to run after responding; posts its result to response_url */
+  deferred?: () => Promise<void>;
+}
+
+const USAGE =
+  '*Usage*\n' +
+  '• `/guest-sentinel scan` — queue an audit now\n' +
+  '• `/guest-sentinel status` — latest audit results\n' +
+  '• `/guest-sentinel guest @user` — why a guest is (in)active\n' +
+  '• `/guest-sentinel exempt @user [reason]` — never flag this guest';
+
+/** Accepts a Slack mention (<@U123|name>) or a bare user ID. */
+const USER_REFERENCE_PATTERN = /^<@([UW][A-Z0-9]+)(?:\|[^>]*)?>$|^([UW][A-Z0-9]+)$/;
+
+function ephemeral(text: string): CommandResult {
+  return { response: { response_type: 'ephemeral', text } };
+}
+
+function parseUserReference(arg: string | undefined): string | null {
+  if (!arg) return null;
+  const match = USER_REFERENCE_PATTERN.exec(arg.trim());
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+export class SlackCommandService {
+  async handleCommand(payload: SlackSlashCommandPayload): Promise<CommandResult> {
+    const workspace = await this.resolveWorkspace(payload.team_id);
+    if (!workspace || !workspace.is_active) {
+      return ephemeral('This workspace is not connected to Slack Guest Sentinel. Reinstall the app to continue.');
+    }
+
+    if (!getAlertRecipients(workspace).includes(payload.user_id)) {
+      return ephemeral('Only the admins who receive Guest Sentinel alerts can use this command.');
+    }
+
+    const [subcommand = '', ...args] = payload.text.trim().split(/\s+/);
+
+    switch (subcommand.toLowerCase()) {
+      case 'scan':
+        return this.handleScan(workspace);
+      case 'status':
+        return this.handleStatus(workspace);
+      case 'guest':
+        return this.handleGuest(workspace, args, payload);
+      case 'exempt':
+        return this.handleExempt(workspace, args, payload);
+      default:
+        return ephemeral(USAGE);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private methods
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Queues the audit for the audit worker — a full audit can outlast any
+   * single request. The admin checks back with `status`.
+   */
+  private async handleScan(workspace: CommandWorkspace): Promise<CommandResult> {
+    const result = await auditService.queueManualAudit(workspace.id);
+
+    if (!result.ok) {
+      return ephemeral(`:warning: Audit not run. ${result.reason}`);
+    }
+
+    return ephemeral(
+      result.queued
+        ? ':mag: Audit queued. It starts within a few minutes — check `/guest-sentinel status` for the results.'
+        : ':hourglass: An audit is already in progress. Check `/guest-sentinel status` for the results.'
+    );
+  }
+
+  private async handleStatus(workspace: CommandWorkspace): Promise<CommandResult> {
+    const [auditRunResult, flaggedResult] = await Promise.all([
+      supabase
+        .from('audit_runs')
+        .select('*')
+        .eq('workspace_id', workspace.id)
+        .in('status', COMPLETED_AUDIT_RUN_STATUSES)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('guest_audits')
+        .select('slack_user_id', { count: 'exact', head: true })
+        .eq('workspace_id', workspace.id)
+        .eq('is_flagged', true),
+    ]);
+
+    const run = auditRunResult.data as AuditRun | null;
+    const schedule = getAuditSchedule(workspace);
+    const planLine = PLAN_LIMITS[workspace.plan_type].canRunCron && schedule
+      ? `*Plan:* ${workspace.plan_type} · *Audits:* ${describeAuditSchedule(schedule)}`
+      : `*Plan:* ${workspace.plan_type} — background audits are paused`;
+
+    if (!run) {
+      return ephemeral(`${planLine}\nNo audit has run yet. Try \`/guest-sentinel scan\`.`);
+    }
+
+    return ephemeral(
+      `${planLine}\n` +
+      `*Last audit:* ${new Date(run.created_at).toUTCString()}\n` +
+      `${run.workspace_guest_count} guests · ${run.workspace_inactive_count} inactive · ` +
+      `${run.workspace_exempt_count} exempt · *$${run.workspace_estimated_waste}/month* estimated waste\n` +
+      `*Currently flagged:* ${flaggedResult.count ?? 0}`
+    );
+  }
+
+  private handleGuest(
+    workspace: CommandWorkspace,
+    args: string[],
+    payload: SlackSlashCommandPayload
+  ): CommandResult {
+    const guestId = parseUserReference(args[0]);
+    if (!guestId) {
+      return ephemeral('Mention the guest to look up, e.g. `/guest-sentinel guest @jane`.');
+    }
+
+    // Live scoring may need several Slack API calls — answer after responding
+    return {
+      response: { response_type: 'ephemeral', text: `Checking <@${guestId}>…` },
+      deferred: async () => {
+        try {
+          const [breakdown, auditResult] = await Promise.all([
+            auditService.explainGuestScore(workspace.id, guestId),
+            supabase
+              .from('guest_audits')
+              .select('is_flagged, last_seen_source, action_taken, updated_at')
+              .eq('workspace_id', workspace.id)
+              .eq('slack_user_id', guestId)
+              .maybeSingle(),
+          ]);
+
+          if (!breakdown) {
+            await this.postFollowUp(payload.response_url, `<@${guestId}> is not a guest in this workspace.`);
+            return;
+          }
+
+          const verdict = breakdown.score >= breakdown.minActiveScore ? 'active' : 'inactive';
+          const signalLines = breakdown.signals.map(s => {
+            const mark = !s.enabled ? ':white_circle:' : s.matched ? ':large_green_circle:' : ':red_circle:';
+            const points = s.enabled && s.matched ? `+${s.weight}` : '+0';
+            return `${mark} *${s.signal}* (${points}) — ${s.enabled ? s.detail : 'disabled in policy'}`;
+          });
+
+          const audit = auditResult.data;
+          const auditLine = audit
+            ? `*Last audit:* ${audit.is_flagged ? 'flagged' : 'not flagged'} via \`${audit.last_seen_source}\`` +
+              (audit.action_taken ? ` · ${audit.action_taken}` : '')
+            : '*Last audit:* not flagged';
+          const lastSignal = breakdown.lastActivityAt
+            ? new Date(breakdown.lastActivityAt * 1000).toUTCString()
+            : 'none found';
+
+          await this.postFollowUp(
+            payload.response_url,
+            `*<@${guestId}>* is *${verdict}* — score ${breakdown.score} / ${breakdown.minActiveScore} ` +
+            `over the last ${breakdown.activityWindowDays} days\n` +
+            `${signalLines.join('\n')}\n` +
+            `*Last signal:* ${lastSignal}\n` +
+            auditLine
+          );
+        } catch (err) {
+          // The route only logs failed deferred work — the admin must still hear back
+          logger.error('Guest lookup failed', { workspaceId: workspace.id, guestId }, err);
+          await this.postFollowUp(
+            payload.response_url,
+            `:warning: Couldn't check <@${guestId}> right now. Try again in a few minutes.`
+          );
+        }
+      },
+    };
+  }
+
+  private async handleExempt(
+    workspace: CommandWorkspace,
+    args: string[],
+    payload: SlackSlashCommandPayload
+  ): Promise<CommandResult> {
+    const guestId = parseUserReference(args[0]);
+    if (!guestId) {
+      return ephemeral('Mention the guest to exempt, e.g. `/guest-sentinel exempt @jane contractor until March`.');
+    }
+
+    const reason = args.slice(1).join(' ').trim() || null;
+    const result = await exemptionService.createRule(workspace.id, {
+      ruleType: EXEMPTION_RULE_TYPE.USER,
+      value: guestId,
+      expiresAt: null,
+      reason,
+      createdBy: payload.user_id,
+    });
+
+    if (!result.ok) {
+      return ephemeral(`:warning: ${result.error}`);
+    }
+
+    return ephemeral(`<@${guestId}> is now exempt and will be skipped from the next audit on.`);
+  }
+
+  private async postFollowUp(responseUrl: string, text: string): Promise<void> {
+    try {
+      await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response_type: 'ephemeral', text }),
+      });
+    } catch (err) {
+      logger.error('Failed to post slash command follow-up', { responseUrl }, err);
+    }
+  }
+
+  private async resolveWorkspace(slackTeamId: string): Promise<CommandWorkspace | null> {
+    const { data } = await supabase
+      .from('workspaces')
+      .select('id, plan_type, installed_by, alert_recipients, is_active, audit_timezone, audit_day_of_week, audit_hour')
+      .eq('slack_workspace_id', slackTeamId)
+      .single();
+
+    return data;
+  }
+}
+
+export const slackCommandService = new SlackCommandService();
@@ -2,17 +2,33 @@
  * SlackEventService — processes incoming Slack Event API callbacks.
  *
  * Called by /api/slack/events after signature verification.
- * Responsible for event logging and sponsor relationship tracking.
+ * Responsible for event logging, sponsor relationship tracking (including
+ * sponsors leaving), real-time guest activity, guest join dates and
+ * publishing the App Home tab.
  */
 
 import { supabase } from '@/lib/db';
 import { logger } from '@/lib/logger';
+import { appHomeService } from '@/services/app-home.service';
+import { guestActivityService } from '@/services/guest-activity.service';
+import { guestJoinService } from '@/services/guest-join.service';
+import { guestSponsorService } from '@/services/guest-sponsor.service';
 import type {
   SlackEventCallbackEnvelope,
+  SlackEventPayload,
   SlackWebhookPayload,
 } from '@/types/slack.types';
 import type { GuestSponsorUpsert, WorkspaceEventInsert } from '@/types/database.types';
 
+/**
+ * High-volume events that only feed guest_activity. They are never written
+ * to the events log — message events carry message text.
+ */
+const ACTIVITY_EVENT_TYPES = new Set(['message', 'reaction_added', 'user_change', 'team_join']);
+
+/** Message subtypes that are the user's own posts (edits, joins, bots etc. are not) */
+const USER_MESSAGE_SUBTYPES = new Set(['thread_broadcast', 'file_share']);
+
 export class SlackEventService {
   /**
    * Processes a Slack event envelope.
@@ -34,6 +50,11 @@ export class SlackEventService {
     const workspaceId = workspace.id;
     const { event } = callback;
 
+    if (ACTIVITY_EVENT_TYPES.has(event.type)) {
+      await this.handleActivityEvent(workspaceId, event);
+      return;
+    }
+
     // Log the raw event for traceability
     await this.logEvent(workspaceId, `slack_event_${event.type}`, event as Record<string, unknown>);
 
@@ -42,9 +63,56 @@ export class SlackEventService {
       await this.handleInviteRequested(workspaceId, callback);
     } else if (event.type === 'app_uninstalled') {
       await this.handleAppUninstalled(workspaceId);
+    } else if (event.type === 'app_home_opened') {
+      // Also fires for the Messages tab — only the Home tab needs a view
+      if (event.tab === 'home' && typeof event.user === 'string') {
+        await appHomeService.publishHome(workspaceId, event.user);
+      }
     }
   }
 
+  /**
+   * Records guest activity. Message and reaction events only carry a user ID,
+   * so they update guests the audit already registered; user_change and
+   * team_join carry the user object and register new guests directly.
+   * Joining isn't activity — team_join records the guest's join date for the
+   * grace period and the profile later user_change events are compared to.
+   * A user_change only counts when the guest edited their own profile.
+   * A user_change deactivating anyone orphans the guests they sponsored.
+   */
+  private async handleActivityEvent(workspaceId: string, event: SlackEventPayload): Promise<void> {
+    const activityAt = event.event_ts
+      ? new Date(Math.floor(parseFloat(event.event_ts) * 1000))
+      : new Date();
+
+    if (event.type === 'message' || event.type === 'reaction_added') {
+      if (typeof event.user !== 'string') return;
+      if (event.type === 'message' && event.subtype && !USER_MESSAGE_SUBTYPES.has(event.subtype)) return;
+
+      const activityType = event.type === 'message' ? 'message' : 'reaction';
+      await guestActivityService.recordActivity(workspaceId, event.user, activityAt, activityType, false);
+      return;
+    }
+
+    // user_change / team_join
+    const user = typeof event.user === 'object' ? event.user : null;
+    if (!user) return;
+
+    if (user.deleted) {
+      if (event.type === 'user_change') {
+        await guestSponsorService.handleSponsorDeactivated(workspaceId, user.id);
+      }
+      return;
+    }
+
+    if (!(user.is_restricted || user.is_ultra_restricted)) return;
+
+    await Promise.all([
+      guestActivityService.recordProfileChange(workspaceId, user, activityAt),
+      event.type === 'team_join' ? guestJoinService.recordJoin(workspaceId, user.id, activityAt) : null,
+    ]);
+  }
+
   private async handleAppUninstalled(workspaceId: string): Promise<void> {
     // Note: access_token is NOT NULL so we cannot clear it; marking is_active=false
     // prevents the workspace from being picked up by the audit cron.
@@ -95,6 +163,7 @@ export class SlackEventService {
       guest_user_id: invitedUserId,
       sponsor_user_id: sponsorUserId,
       captured_from_event: 'invite_requested',
+      orphaned_at: null,
     };
 
     const { error } = await supabase
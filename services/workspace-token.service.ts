@@ -0,0 +1,40 @@
+/**
+ * WorkspaceTokenService — hands out a usable Slack user token for a workspace.
+ *
+ * Workspaces with token rotation enabled get their token refreshed (and the
+ * new pair persisted) when it expires within 5 minutes.
+ */
+
+import { supabase } from '@/lib/db';
+import { decrypt, encrypt } from '@/lib/encryption';
+import { refreshSlackToken } from '@/lib/slack';
+import { logger } from '@/lib/logger';
+import type { Workspace } from '@/types/database.types';
+
+type TokenWorkspace = Pick<Workspace, 'id' | 'access_token' | 'refresh_token' | 'token_expires_at'>;
+
+export class WorkspaceTokenService {
+  async getAccessToken(workspace: TokenWorkspace): Promise<string> {
+    if (workspace.refresh_token && workspace.token_expires_at) {
+      const expiresAt = new Date(workspace.token_expires_at).getTime();
+      // If it expires in less than 5 minutes, refresh
+      if (Date.now() > expiresAt - 5 * 60 * 1000) {
+        logger.info('Refreshing Slack token', { workspaceId: workspace.id });
+        const newTokens = await refreshSlackToken(decrypt(workspace.refresh_token));
+
+        const newExpiresAt = new Date(Date.now() + newTokens.expires_in * 1000).toISOString();
+        await supabase.from('workspaces').update({
+          access_token: encrypt(newTokens.access_token),
+          refresh_token: encrypt(newTokens.refresh_token),
+          token_expires_at: newExpiresAt,
+        }).eq('id', workspace.id);
+
+        return newTokens.access_token;
+      }
+    }
+
+    return decrypt(workspace.access_token);
+  }
+}
+
+export const workspaceTokenService = new WorkspaceTokenService();
@@ -0,0 +1,22 @@
+-- Per-workspace inactivity policy
+--
+-- Replaces the global AUDIT constants (30-day window, fixed signal weights,
+-- 1.0 threshold) with a row per workspace. A missing row means "use the
+-- defaults" — the application falls back to config/constants.ts, so
+-- existing workspaces keep their current behavior without a backfill.
+
+CREATE TABLE IF NOT EXISTS audit_policies (
+  workspace_id UUID PRIMARY KEY REFERENCES workspaces(id) ON DELETE CASCADE,
+  activity_window_days INTEGER NOT NULL DEFAULT 30,
+  min_active_score NUMERIC NOT NULL DEFAULT 1,
+  -- { "profile": 1, "presence": 0.5, "message": 3 }
+  signal_weights JSONB NOT NULL DEFAULT '{"profile": 1, "presence": 0.5, "message": 3}'::JSONB,
+  enabled_signals TEXT[] NOT NULL DEFAULT ARRAY['profile', 'presence', 'message']::TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT audit_policies_window_check CHECK (activity_window_days BETWEEN 7 AND 365),
+  CONSTRAINT audit_policies_min_score_check CHECK (min_active_score > 0)
+);
+
+ALTER TABLE audit_policies ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON audit_policies FOR ALL USING (false);
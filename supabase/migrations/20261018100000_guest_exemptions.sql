@@ -0,0 +1,37 @@
+-- Guest exemption rules
+--
+-- Lets admins permanently (or until a given date) exclude guests from
+-- flagging and alerts, instead of pressing "Ignore" on the same contractors
+-- every week. A rule matches either a single Slack user ID or every guest
+-- whose email belongs to a domain.
+
+-- 1. Rules table
+CREATE TABLE IF NOT EXISTS guest_exemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL,
+  -- Slack user ID for 'user' rules, lowercase domain (no @) for 'email_domain'
+  value TEXT NOT NULL,
+  -- NULL = never expires
+  expires_at TIMESTAMP WITH TIME ZONE,
+  reason TEXT,
+  -- Slack user ID of the admin who created the rule; NULL when created from the dashboard
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT guest_exemptions_rule_type_check CHECK (rule_type IN ('user', 'email_domain')),
+  CONSTRAINT guest_exemptions_unique_rule UNIQUE (workspace_id, rule_type, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_exemptions_workspace_id ON guest_exemptions(workspace_id);
+
+ALTER TABLE guest_exemptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON guest_exemptions FOR ALL USING (false);
+
+-- 2. Exempted guests are recorded in guest_audits (is_flagged = false,
+--    action_taken = 'exempted') with the rule that matched them.
+ALTER TABLE guest_audits
+  ADD COLUMN IF NOT EXISTS exemption_id UUID REFERENCES guest_exemptions(id) ON DELETE SET NULL;
+
+-- 3. Exempted guests are counted separately from inactive ones
+ALTER TABLE audit_runs
+  ADD COLUMN IF NOT EXISTS workspace_exempt_count INTEGER DEFAULT 0;
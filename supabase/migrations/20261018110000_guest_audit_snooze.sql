@@ -0,0 +1,13 @@
+-- Durable "Ignore": snooze alerts for a guest for a chosen duration
+--
+-- A guest is snoozed while snoozed_at IS NOT NULL and
+-- (snoozed_until IS NULL OR snoozed_until > NOW()).
+-- snoozed_until = NULL with snoozed_at set means "snoozed forever".
+-- The audit keeps snoozed guests flagged but never re-alerts on them and
+-- never overwrites the snooze until it expires.
+
+ALTER TABLE guest_audits
+  ADD COLUMN IF NOT EXISTS snoozed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP WITH TIME ZONE,
+  -- Slack user ID of the admin who snoozed the guest
+  ADD COLUMN IF NOT EXISTS snoozed_by TEXT;
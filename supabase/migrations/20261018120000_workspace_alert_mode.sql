@@ -0,0 +1,9 @@
+-- Alert delivery mode per workspace
+--
+-- per_guest: one DM per inactive guest per recipient (original behaviour)
+-- digest:    one summary DM per recipient per audit listing the costliest
+--            flagged guests, with per-row actions and a link to the dashboard
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS alert_mode TEXT NOT NULL DEFAULT 'per_guest'
+    CHECK (alert_mode IN ('per_guest', 'digest'));
@@ -0,0 +1,9 @@
+-- Bot token for the App Home tab
+--
+-- views.publish only accepts bot tokens, so installs now also request a
+-- bot scope. Stored AES-256-GCM encrypted like access_token.
+-- NULL for workspaces installed before the App Home existed — they get the
+-- Home tab after reinstalling.
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS bot_access_token TEXT;
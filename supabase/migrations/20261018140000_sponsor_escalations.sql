@@ -0,0 +1,38 @@
+-- Sponsor-first escalation
+--
+-- When enabled, an inactive guest with a known sponsor is first raised with
+-- that sponsor ("Does <@guest> still need access?" — Keep / Remove). Admins
+-- are only alerted when the sponsor picks Remove or doesn't answer within
+-- sponsor_escalation_days. Every step is also recorded in `events`.
+
+-- 1. Per-workspace settings (off by default — existing behaviour unchanged)
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS sponsor_escalation_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sponsor_escalation_days INTEGER NOT NULL DEFAULT 3
+    CHECK (sponsor_escalation_days BETWEEN 1 AND 30);
+
+-- 2. One escalation per guest, reused across audits
+CREATE TABLE IF NOT EXISTS guest_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  guest_user_id TEXT NOT NULL,
+  sponsor_user_id TEXT NOT NULL,
+  -- awaiting_sponsor → kept | escalated
+  status TEXT NOT NULL DEFAULT 'awaiting_sponsor',
+  sponsor_asked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Admins are alerted once this passes without a sponsor answer
+  escalate_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT guest_escalations_status_check CHECK (status IN ('awaiting_sponsor', 'kept', 'escalated')),
+  CONSTRAINT guest_escalations_unique_guest UNIQUE (workspace_id, guest_user_id)
+);
+
+-- The escalation cron looks up overdue rows across all workspaces
+CREATE INDEX IF NOT EXISTS idx_guest_escalations_due
+  ON guest_escalations(escalate_after)
+  WHERE status = 'awaiting_sponsor';
+
+ALTER TABLE guest_escalations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON guest_escalations FOR ALL USING (false);
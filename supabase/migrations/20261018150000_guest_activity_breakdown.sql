@@ -0,0 +1,10 @@
+-- Per-guest activity score breakdown
+--
+-- activity_score: numeric score from the last audit
+-- signal_results: what each signal found (profile update, presence,
+--                 latest message + channel) — see GuestSignalResults
+-- last_seen_at (existing) is now filled with the best-known last activity
+
+ALTER TABLE guest_audits
+  ADD COLUMN IF NOT EXISTS activity_score NUMERIC,
+  ADD COLUMN IF NOT EXISTS signal_results JSONB;
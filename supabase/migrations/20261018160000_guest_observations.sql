@@ -0,0 +1,29 @@
+-- Per-guest activity history
+--
+-- guest_audits holds one upserted row per flagged guest and loses it when
+-- the guest becomes active again. guest_observations is append-only: every
+-- audit run writes one row per guest (active, inactive or exempt) so the
+-- dashboard can show how long a guest has been inactive and how often they
+-- flip between states.
+
+CREATE TABLE IF NOT EXISTS guest_observations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  -- Retention follows audit_runs: purging a run (12 months) removes its observations
+  audit_run_id UUID NOT NULL REFERENCES audit_runs(id) ON DELETE CASCADE,
+  slack_user_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  activity_score NUMERIC,
+  estimated_cost_monthly NUMERIC DEFAULT 0.00,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  observed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT guest_observations_status_check CHECK (status IN ('active', 'inactive', 'exempt'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_observations_guest
+  ON guest_observations (workspace_id, slack_user_id, observed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_guest_observations_audit_run_id
+  ON guest_observations (audit_run_id);
+
+ALTER TABLE guest_observations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON guest_observations FOR ALL USING (false);
@@ -0,0 +1,74 @@
+-- Real-time guest activity from Slack events
+--
+-- One row per guest with the newest activity seen through the Events API
+-- (message, reaction, profile change, join). The audit reads it as the
+-- event_activity signal before falling back to API polling. Only the
+-- timestamp and the kind of activity are stored — never message content.
+--
+-- Rows are created for known guests only (by the audit, or by team_join /
+-- user_change events that carry the user object). Message and reaction
+-- events only update existing rows, so regular members are never tracked.
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS guest_activity (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  slack_user_id TEXT NOT NULL,
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  last_activity_type TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, slack_user_id),
+  CONSTRAINT guest_activity_type_check
+    CHECK (last_activity_type IN ('message', 'reaction', 'profile_update', 'joined'))
+);
+
+ALTER TABLE guest_activity ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON guest_activity FOR ALL USING (false);
+
+-- 2. Throttled write — called once per Slack event.
+--    Skips the write unless the new activity is at least p_min_interval_seconds
+--    newer than the stored one, so a chatty guest costs one write per interval.
+--    p_create = false (message / reaction) only updates rows of known guests.
+CREATE OR REPLACE FUNCTION record_guest_activity(
+  p_workspace_id UUID,
+  p_slack_user_id TEXT,
+  p_activity_at TIMESTAMP WITH TIME ZONE,
+  p_activity_type TEXT,
+  p_create BOOLEAN,
+  p_min_interval_seconds INTEGER
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_create THEN
+    INSERT INTO guest_activity (workspace_id, slack_user_id, last_activity_at, last_activity_type)
+      VALUES (p_workspace_id, p_slack_user_id, p_activity_at, p_activity_type)
+    ON CONFLICT (workspace_id, slack_user_id) DO UPDATE
+      SET last_activity_at = EXCLUDED.last_activity_at,
+          last_activity_type = EXCLUDED.last_activity_type,
+          updated_at = NOW()
+      WHERE guest_activity.last_activity_at IS NULL
+         OR guest_activity.last_activity_at < EXCLUDED.last_activity_at - make_interval(secs => p_min_interval_seconds);
+  ELSE
+    UPDATE guest_activity
+      SET last_activity_at = p_activity_at,
+          last_activity_type = p_activity_type,
+          updated_at = NOW()
+      WHERE workspace_id = p_workspace_id
+        AND slack_user_id = p_slack_user_id
+        AND (last_activity_at IS NULL
+             OR last_activity_at < p_activity_at - make_interval(secs => p_min_interval_seconds));
+  END IF;
+END;
+$$;
+
+-- 3. Saved policies predate the signal — enable it with the default weight
+UPDATE audit_policies
+  SET enabled_signals = array_append(enabled_signals, 'event_activity'),
+      signal_weights = signal_weights || '{"event_activity": 3}'::JSONB
+  WHERE NOT ('event_activity' = ANY(enabled_signals));
+
+ALTER TABLE audit_policies
+  ALTER COLUMN signal_weights SET DEFAULT '{"profile": 1, "presence": 0.5, "message": 3, "event_activity": 3}'::JSONB,
+  ALTER COLUMN enabled_signals SET DEFAULT ARRAY['profile', 'presence', 'message', 'event_activity']::TEXT[];
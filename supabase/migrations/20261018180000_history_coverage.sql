@@ -0,0 +1,15 @@
+-- Message-history coverage
+--
+-- workspaces.granted_scopes: user scopes Slack granted at install — the
+--   audit only reads conversation types whose read + history scopes are
+--   present. NULL for older installs (public channels only until reinstall).
+-- audit_policies.history_channel_types / history_include_shared: which of a
+--   guest's conversations the message signal reads.
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS granted_scopes TEXT[];
+
+ALTER TABLE audit_policies
+  ADD COLUMN IF NOT EXISTS history_channel_types TEXT[] NOT NULL
+    DEFAULT ARRAY['public_channel', 'private_channel']::TEXT[],
+  ADD COLUMN IF NOT EXISTS history_include_shared BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,14 @@
+-- Login-based activity signal (team.accessLogs)
+--
+-- Saved policies predate the signal — enable it with the default weight.
+-- Workspaces on free Slack plans keep it enabled harmlessly: the audit
+-- reports it unchecked and scores without it.
+
+UPDATE audit_policies
+  SET enabled_signals = array_append(enabled_signals, 'access_logs'),
+      signal_weights = signal_weights || '{"access_logs": 1}'::JSONB
+  WHERE NOT ('access_logs' = ANY(enabled_signals));
+
+ALTER TABLE audit_policies
+  ALTER COLUMN signal_weights SET DEFAULT '{"profile": 1, "presence": 0.5, "message": 3, "event_activity": 3, "access_logs": 1}'::JSONB,
+  ALTER COLUMN enabled_signals SET DEFAULT ARRAY['profile', 'presence', 'message', 'event_activity', 'access_logs']::TEXT[];
@@ -0,0 +1,117 @@
+-- Resumable audit jobs
+--
+-- The audit cron used to score every workspace inside one request, losing
+-- all progress when the function hit its time limit. Each workspace now
+-- gets an audit_jobs row; workers score guests in time-boxed slices and
+-- checkpoint the cursor after every chunk, so a timed-out or crashed worker
+-- is picked up where it stopped. Failed jobs are retried with backoff.
+--
+-- audit_job_guests holds the guest list snapshot taken when the job starts
+-- and each guest's score once checked. Rows are deleted when the job ends.
+
+-- 1. Jobs (pending → running → completed | failed)
+CREATE TABLE IF NOT EXISTS audit_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  -- Auditable guests in the snapshot; null until the first slice lists them
+  guest_count INTEGER,
+  -- Position in the snapshot of the next guest to score
+  cursor INTEGER NOT NULL DEFAULT 0,
+  -- Failed slices so far, including workers that timed out holding the job
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  -- Not claimed before this — pushed back on failure
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Lease held by the worker running a slice
+  locked_until TIMESTAMP WITH TIME ZONE,
+  -- WorkspaceAuditSummary of a completed job
+  summary JSONB,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT audit_jobs_status_check CHECK (status IN ('pending', 'running', 'completed', 'failed'))
+);
+
+-- At most one open job per workspace — re-enqueueing is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_jobs_open_workspace
+  ON audit_jobs(workspace_id)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_audit_jobs_claimable
+  ON audit_jobs(run_after)
+  WHERE status IN ('pending', 'running');
+
+ALTER TABLE audit_jobs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON audit_jobs FOR ALL USING (false);
+
+-- 2. Guest snapshot and per-guest results
+CREATE TABLE IF NOT EXISTS audit_job_guests (
+  job_id UUID NOT NULL REFERENCES audit_jobs(id) ON DELETE CASCADE,
+  slack_user_id TEXT NOT NULL,
+  -- Order of auditable guests; exempt guests have no position
+  position INTEGER,
+  guest JSONB NOT NULL,
+  exemption_id UUID,
+  exemption_rule_type TEXT,
+  -- Null until scored
+  score NUMERIC,
+  source TEXT,
+  signal_results JSONB,
+  PRIMARY KEY (job_id, slack_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_job_guests_position
+  ON audit_job_guests(job_id, position)
+  WHERE position IS NOT NULL;
+
+ALTER TABLE audit_job_guests ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON audit_job_guests FOR ALL USING (false);
+
+-- 3. Enqueue — skips workspaces that already have an open job
+CREATE OR REPLACE FUNCTION enqueue_audit_jobs(p_workspace_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  INSERT INTO audit_jobs (workspace_id)
+    SELECT unnest(p_workspace_ids)
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+-- 4. Claim — leases up to p_limit due jobs to the calling worker.
+--    Running jobs whose lease expired belong to a worker that died; they
+--    are reclaimed (resuming from the cursor) and the attempt is counted.
+CREATE OR REPLACE FUNCTION claim_audit_jobs(p_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS SETOF audit_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE audit_jobs
+    SET status = 'running',
+        attempts = audit_jobs.attempts + CASE WHEN audit_jobs.status = 'running' THEN 1 ELSE 0 END,
+        last_error = CASE WHEN audit_jobs.status = 'running' THEN 'Worker timed out' ELSE audit_jobs.last_error END,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        started_at = COALESCE(audit_jobs.started_at, NOW()),
+        updated_at = NOW()
+    WHERE audit_jobs.id IN (
+      SELECT j.id FROM audit_jobs j
+        WHERE (j.status = 'pending' AND j.run_after <= NOW())
+           OR (j.status = 'running' AND j.locked_until < NOW())
+        ORDER BY j.run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+  RETURNING audit_jobs.*;
+END;
+$$;
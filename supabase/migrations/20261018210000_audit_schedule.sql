@@ -0,0 +1,17 @@
+-- Per-workspace audit schedule
+--
+-- The audit cron now ticks hourly and queues only the workspaces that are
+-- due. How often a workspace is audited comes from its plan (PLAN_LIMITS in
+-- lib/subscription.ts); when is chosen per workspace: the hour, and for
+-- weekly plans the day, in the workspace's own timezone. The defaults
+-- (Sunday 00:00 UTC) match the old single weekly cron.
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS audit_timezone TEXT NOT NULL DEFAULT 'UTC',
+  -- 0 = Sunday … 6 = Saturday; ignored on daily plans
+  ADD COLUMN IF NOT EXISTS audit_day_of_week SMALLINT NOT NULL DEFAULT 0
+    CHECK (audit_day_of_week BETWEEN 0 AND 6),
+  ADD COLUMN IF NOT EXISTS audit_hour SMALLINT NOT NULL DEFAULT 0
+    CHECK (audit_hour BETWEEN 0 AND 23),
+  -- When the scheduler last queued this workspace; NULL = due on the next tick
+  ADD COLUMN IF NOT EXISTS last_scheduled_audit_at TIMESTAMP WITH TIME ZONE;
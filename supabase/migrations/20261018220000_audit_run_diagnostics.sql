@@ -0,0 +1,53 @@
+-- Run-level diagnostics for audit_runs
+--
+-- audit_runs only recorded counts, so a slow, throttled or failed audit
+-- left no trace outside the logs. Every run — including runs skipped by
+-- plan limits and runs that failed — now records its timing, outcome,
+-- Slack API usage and DM delivery. Existing rows are completed audits and
+-- default to 'succeeded'.
+--
+-- workspace_usage.alerts_sent / audit_runtime_ms are kept up to date by
+-- record_audit_usage after every completed run.
+
+-- 1. Diagnostics columns
+ALTER TABLE audit_runs
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'succeeded',
+  -- Scheduled audits start when their job is first claimed
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS duration_ms INTEGER,
+  -- Skip reason, failure, or what went wrong in a partial run
+  ADD COLUMN IF NOT EXISTS error_message TEXT,
+  ADD COLUMN IF NOT EXISTS manual BOOLEAN NOT NULL DEFAULT false,
+  -- { total, byMethod, rateLimited, waitedMs } — see lib/slack-rate-limiter
+  ADD COLUMN IF NOT EXISTS slack_calls JSONB,
+  ADD COLUMN IF NOT EXISTS dms_sent INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS dms_failed INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE audit_runs
+  ADD CONSTRAINT audit_runs_status_check CHECK (status IN ('succeeded', 'partial', 'skipped', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_audit_runs_workspace_created
+  ON audit_runs(workspace_id, created_at DESC);
+
+-- 2. Usage counters — atomic, so concurrent runs don't lose increments.
+--    alerts_sent accumulates; audit_runtime_ms is the latest run's duration.
+CREATE OR REPLACE FUNCTION record_audit_usage(
+  p_workspace_id UUID,
+  p_runtime_ms INTEGER,
+  p_alerts_sent INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO workspace_usage (workspace_id, last_scan_at, alerts_sent, audit_runtime_ms, updated_at)
+    VALUES (p_workspace_id, NOW(), p_alerts_sent, p_runtime_ms, NOW())
+  ON CONFLICT (workspace_id) DO UPDATE
+    SET last_scan_at = NOW(),
+        alerts_sent = workspace_usage.alerts_sent + EXCLUDED.alerts_sent,
+        audit_runtime_ms = EXCLUDED.audit_runtime_ms,
+        updated_at = NOW();
+END;
+$$;
@@ -0,0 +1,10 @@
+-- What changed between consecutive audit runs
+--
+-- Each completed run stores its diff against the previous completed run of
+-- the same workspace, computed from guest_observations:
+--   { previousRunId, previousRunAt, newlyInactive, reactivated, removed, invited }
+-- (arrays of Slack user IDs). Null for a workspace's first run, and for
+-- skipped and failed runs.
+
+ALTER TABLE audit_runs
+  ADD COLUMN IF NOT EXISTS changes JSONB;
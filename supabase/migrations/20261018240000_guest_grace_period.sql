@@ -0,0 +1,39 @@
+-- Grace period for newly invited guests
+--
+-- guest_joins: when each guest joined the workspace. team_join events record
+--   the exact time; guests the audit lists without a row are backfilled at
+--   the time they were first seen. Guests already present the first time the
+--   audit registers a workspace's roster get joined_at = NULL — their join
+--   date is unknown and they get no grace period.
+-- audit_policies.grace_period_days: inactive guests are not flagged until
+--   this many days after they joined (0 turns the grace period off).
+-- guest_observations.status: 'grace' for inactive guests inside it.
+
+-- 1. Join dates
+CREATE TABLE IF NOT EXISTS guest_joins (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  slack_user_id TEXT NOT NULL,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  source TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, slack_user_id),
+  CONSTRAINT guest_joins_source_check CHECK (source IN ('team_join', 'audit'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_joins_joined_at
+  ON guest_joins (workspace_id, joined_at DESC);
+
+ALTER TABLE guest_joins ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON guest_joins FOR ALL USING (false);
+
+-- 2. Policy setting
+ALTER TABLE audit_policies
+  ADD COLUMN IF NOT EXISTS grace_period_days INTEGER NOT NULL DEFAULT 14,
+  ADD CONSTRAINT audit_policies_grace_period_days_check
+    CHECK (grace_period_days BETWEEN 0 AND 90);
+
+-- 3. Observation status
+ALTER TABLE guest_observations
+  DROP CONSTRAINT IF EXISTS guest_observations_status_check,
+  ADD CONSTRAINT guest_observations_status_check
+    CHECK (status IN ('active', 'inactive', 'exempt', 'grace'));
@@ -0,0 +1,32 @@
+-- Guest account expiration
+--
+-- guest_expirations: each listed guest's account expiration from users.list
+--   (expiration_ts), rewritten by every completed audit. Rows for guests no
+--   longer listed are removed by the same audit. multi_channel / exempt are
+--   kept so the dashboard can apply the expiration policy without Slack.
+-- audit_policies.max_guest_expiration_days: when set, multi-channel guests
+--   without an expiration, or expiring more than this many days out, are
+--   reported to admins after each audit. NULL turns the check off.
+
+-- 1. Expirations
+CREATE TABLE IF NOT EXISTS guest_expirations (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  slack_user_id TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  multi_channel BOOLEAN NOT NULL,
+  exempt BOOLEAN NOT NULL DEFAULT false,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (workspace_id, slack_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_expirations_expires_at
+  ON guest_expirations (workspace_id, expires_at);
+
+ALTER TABLE guest_expirations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Deny all to anon" ON guest_expirations FOR ALL USING (false);
+
+-- 2. Policy setting
+ALTER TABLE audit_policies
+  ADD COLUMN IF NOT EXISTS max_guest_expiration_days INTEGER,
+  ADD CONSTRAINT audit_policies_max_guest_expiration_days_check
+    CHECK (max_guest_expiration_days IS NULL OR max_guest_expiration_days BETWEEN 1 AND 365);
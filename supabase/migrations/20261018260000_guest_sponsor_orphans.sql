@@ -0,0 +1,13 @@
+-- Orphaned guests
+--
+-- guest_sponsors.orphaned_at: set when the guest's sponsor is deactivated —
+--   seen in a user_change event, or when an audit finds the sponsor
+--   deactivated in users.list. Admins are alerted, and reminded after each
+--   audit, until they pick a new sponsor, which clears it. Orphaned sponsors
+--   are not asked about their guests; those go straight to admins.
+
+ALTER TABLE guest_sponsors
+  ADD COLUMN IF NOT EXISTS orphaned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_guest_sponsors_sponsor
+  ON guest_sponsors (workspace_id, sponsor_user_id);
@@ -0,0 +1,29 @@
+-- Manual audits through the job queue
+--
+-- `/guest-sentinel scan` used to run a full audit after responding to Slack,
+-- outside any function time limit. It now queues an audit job like the
+-- scheduler does; `manual` carries the difference through to the worker —
+-- the plan's manual-scan rules apply and the run is recorded as manual.
+
+ALTER TABLE audit_jobs
+  ADD COLUMN IF NOT EXISTS manual BOOLEAN NOT NULL DEFAULT false;
+
+-- The signature changes, so the old function is dropped rather than overloaded
+DROP FUNCTION IF EXISTS enqueue_audit_jobs(UUID[]);
+
+CREATE OR REPLACE FUNCTION enqueue_audit_jobs(p_workspace_ids UUID[], p_manual BOOLEAN DEFAULT false)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  INSERT INTO audit_jobs (workspace_id, manual)
+    SELECT unnest(p_workspace_ids), p_manual
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
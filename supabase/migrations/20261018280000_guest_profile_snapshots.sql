@@ -0,0 +1,12 @@
+-- Guest-made profile changes only
+--
+-- user_change fires for every edit to a user, including an admin changing a
+-- guest's account type or expiration, so it was counting admin work as
+-- guest activity. guest_activity now keeps the profile fields a guest sets
+-- themselves as of their last event; a user_change only counts when one of
+-- those changed. team_join stores the first snapshot and is no longer
+-- recorded as activity.
+
+ALTER TABLE guest_activity
+  -- GuestProfileSnapshot: names, title, avatar and status; null until an event carries the user
+  ADD COLUMN IF NOT EXISTS profile_snapshot JSONB;
@@ -0,0 +1,11 @@
+-- Slack call counts for queued audits
+--
+-- Slack calls used to be counted per token in process memory, so a job
+-- resumed by another worker reported only its last slice, and two audits
+-- of one workspace shared a counter. Each run now counts into its own
+-- collector; a queued job saves it at every checkpoint and the next slice
+-- carries on from there.
+
+ALTER TABLE audit_jobs
+  -- { total, byMethod, rateLimited, waitedMs } — see lib/slack-rate-limiter; null until the first checkpoint
+  ADD COLUMN IF NOT EXISTS slack_calls JSONB;
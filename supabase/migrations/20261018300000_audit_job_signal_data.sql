@@ -0,0 +1,10 @@
+-- Workspace-wide signal data loaded once per audit job
+--
+-- Every slice of a queued audit prepared the activity signals again, so the
+-- access-logs signal re-crawled team.accessLogs — up to 100 pages — each
+-- time a job resumed. The first slice now stores what the signals loaded
+-- and later slices reuse it.
+
+ALTER TABLE audit_jobs
+  -- Signal ID → load() result, e.g. { "access_logs": { "ok": true, "lastLogins": { "U123": 1760000000 } } }
+  ADD COLUMN IF NOT EXISTS signal_data JSONB;
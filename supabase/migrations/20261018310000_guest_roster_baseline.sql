@@ -0,0 +1,23 @@
+-- When the audit first registered each workspace's guest roster
+--
+-- Guests the audit lists without a join date are backfilled: with an
+-- unknown date (NULL) when they were there before tracking began, with the
+-- time they were first seen after that. "Before tracking began" was
+-- inferred from whether any guest_joins row came from the audit, which an
+-- empty first roster or a failed backfill got wrong. The workspace now
+-- records it explicitly.
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS guest_roster_registered_at TIMESTAMP WITH TIME ZONE;
+
+-- Workspaces the audit has already backfilled keep their baseline
+UPDATE workspaces w
+SET guest_roster_registered_at = j.first_backfill_at
+FROM (
+  SELECT workspace_id, MIN(created_at) AS first_backfill_at
+  FROM guest_joins
+  WHERE source = 'audit'
+  GROUP BY workspace_id
+) j
+WHERE j.workspace_id = w.id
+  AND w.guest_roster_registered_at IS NULL;
@@ -0,0 +1,9 @@
+-- When admins were last alerted about each guest failing the expiration policy
+--
+-- Every audit used to DM the full list of failing guests, so admins got the
+-- same message after each run. The audit now alerts when a guest starts
+-- failing, and otherwise only as a reminder every ALERT_REMINDER_DAYS
+-- (config/constants.ts). The marker is cleared once the guest passes.
+
+ALTER TABLE guest_expirations
+  ADD COLUMN IF NOT EXISTS alerted_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,9 @@
+-- When admins were last alerted about each orphaned guest
+--
+-- Every audit used to DM the list of guests still orphaned by a departed
+-- sponsor. The audit now repeats it only when the list has a guest not
+-- alerted on yet, or as a reminder every ORPHAN_ALERT_REMINDER_DAYS
+-- (config/constants.ts). Reassigning the guest's sponsor clears it.
+
+ALTER TABLE guest_sponsors
+  ADD COLUMN IF NOT EXISTS orphan_alerted_at TIMESTAMP WITH TIME ZONE;
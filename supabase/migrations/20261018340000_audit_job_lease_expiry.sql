@@ -0,0 +1,60 @@
+-- Jobs whose worker timed out back off and give up like failed ones
+--
+-- claim_audit_jobs used to reclaim a running job as soon as its lease
+-- expired, counting the attempt but neither delaying the retry nor ever
+-- giving up. A job that always outlived its worker was reclaimed on every
+-- worker tick, and as an open job it blocked every later audit of its
+-- workspace. Expired leases are now handled by expire_audit_job_leases:
+-- the job goes back to pending after RETRY_BASE_SECONDS × 2^(attempts - 1),
+-- as AuditJobService.fail does, or is marked failed at MAX_ATTEMPTS.
+-- claim_audit_jobs only claims pending jobs.
+
+CREATE OR REPLACE FUNCTION expire_audit_job_leases(p_max_attempts INTEGER, p_retry_base_seconds INTEGER)
+RETURNS SETOF audit_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE audit_jobs
+    SET status = CASE WHEN audit_jobs.attempts + 1 >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+        attempts = LEAST(audit_jobs.attempts + 1, p_max_attempts),
+        last_error = 'Worker timed out',
+        run_after = CASE
+          WHEN audit_jobs.attempts + 1 >= p_max_attempts THEN audit_jobs.run_after
+          ELSE NOW() + make_interval(secs => p_retry_base_seconds * 2 ^ audit_jobs.attempts)
+        END,
+        locked_until = NULL,
+        completed_at = CASE WHEN audit_jobs.attempts + 1 >= p_max_attempts THEN NOW() ELSE NULL END,
+        updated_at = NOW()
+    WHERE audit_jobs.id IN (
+      SELECT j.id FROM audit_jobs j
+        WHERE j.status = 'running' AND j.locked_until < NOW()
+        FOR UPDATE SKIP LOCKED
+    )
+  RETURNING audit_jobs.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_audit_jobs(p_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS SETOF audit_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE audit_jobs
+    SET status = 'running',
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        started_at = COALESCE(audit_jobs.started_at, NOW()),
+        updated_at = NOW()
+    WHERE audit_jobs.id IN (
+      SELECT j.id FROM audit_jobs j
+        WHERE j.status = 'pending' AND j.run_after <= NOW()
+        ORDER BY j.run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+  RETURNING audit_jobs.*;
+END;
+$$;
@@ -0,0 +1,27 @@
+-- Spread default audit schedules
+--
+-- Every workspace that never chose a schedule ran at Sunday 00:00 UTC, so
+-- they all landed on one cron tick. The weekday and hour are now nullable:
+-- NULL means "not chosen", and the app derives a default from a hash of the
+-- workspace ID (getDefaultAuditSlot in services/audit-schedule.service.ts).
+--
+-- Existing rows still on the old defaults go back to NULL, unless the
+-- workspace saved that schedule on purpose.
+
+ALTER TABLE workspaces
+  ALTER COLUMN audit_day_of_week DROP NOT NULL,
+  ALTER COLUMN audit_day_of_week DROP DEFAULT,
+  ALTER COLUMN audit_hour DROP NOT NULL,
+  ALTER COLUMN audit_hour DROP DEFAULT;
+
+UPDATE workspaces w
+SET audit_day_of_week = NULL,
+    audit_hour = NULL
+WHERE w.audit_timezone = 'UTC'
+  AND w.audit_day_of_week = 0
+  AND w.audit_hour = 0
+  AND NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.workspace_id = w.id
+      AND e.type = 'audit_schedule_updated'
+  );
@@ -0,0 +1,9 @@
+-- Separate throttle for dashboard audit previews
+--
+-- Previews used to share the manual-scan throttle and record
+-- workspace_usage, so previewing a policy change used up the scan it was
+-- meant to check. They now have their own window (AUDIT_PREVIEW in
+-- config/constants.ts), tracked here.
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS last_audit_preview_at TIMESTAMP WITH TIME ZONE;
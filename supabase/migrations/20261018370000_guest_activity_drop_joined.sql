@@ -0,0 +1,11 @@
+-- Drop the unused 'joined' guest activity type
+--
+-- Joining isn't activity: team_join records the join date in guest_joins
+-- (see 20261018240000) and never writes guest_activity, so no row carries
+-- 'joined'. The check now lists only the types that are recorded.
+
+ALTER TABLE guest_activity DROP CONSTRAINT IF EXISTS guest_activity_type_check;
+
+ALTER TABLE guest_activity
+  ADD CONSTRAINT guest_activity_type_check
+    CHECK (last_activity_type IN ('message', 'reaction', 'profile_update'));
@@ -13,6 +13,20 @@ export function buildStripeSignature(payload: string): string {
     return `t=${timestamp},v1=${signature}`;
 }
 
+/** Generates Slack request signature headers matching SLACK_SIGNING_SECRET in vitest.config.ts */
+export function buildSlackSignatureHeaders(body: string): Record<string, string> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = crypto
+        .createHmac('sha256', env.SLACK_SIGNING_SECRET)
+        .update(`v0:${timestamp}:${body}`)
+        .digest('hex');
+
+    return {
+        'x-slack-request-timestamp': timestamp,
+        'x-slack-signature': `v0=${signature}`,
+    };
+}
+
 export function createMockSlackUser(id: string, overrides: Partial<any> = {}) {
     return {
         id,
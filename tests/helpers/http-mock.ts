@@ -5,8 +5,22 @@ export type MockFetchState = {
     slackUsersListPages: any[];
     slackPresenceResponses: Record<string, 'active' | 'away'>;
     slackHistoryHasMessages: Record<string, boolean>;
+    /** users.info responses by user ID; unset users get a bare ok */
+    slackUsersInfo: Record<string, any>;
+    /** Public channels users.conversations lists per user; none when unset */
+    slackConversationCounts: Record<string, number>;
     slackOauthResponse: any;
+    slackAccessLogsResponse: any;
     postMessageCalls: any[];
+    /** HTTP status the SCIM API answers user deactivations with */
+    scimDeactivateStatus: number;
+    scimDeactivateCalls: string[];
+    /** Messages posted to an interaction's response_url */
+    responseUrlCalls: any[];
+    /** App Home views published, with the token each was sent with */
+    viewsPublishCalls: any[];
+    /** What views.publish answers; ok when unset */
+    viewsPublishResponse: any;
 };
 
 export const httpState: MockFetchState = {
@@ -14,8 +28,16 @@ export const httpState: MockFetchState = {
     slackUsersListPages: [],
     slackPresenceResponses: {},
     slackHistoryHasMessages: {},
+    slackUsersInfo: {},
+    slackConversationCounts: {},
     slackOauthResponse: null,
+    slackAccessLogsResponse: null,
     postMessageCalls: [],
+    scimDeactivateStatus: 204,
+    scimDeactivateCalls: [],
+    responseUrlCalls: [],
+    viewsPublishCalls: [],
+    viewsPublishResponse: null,
 };
 
 let originalFetch: typeof global.fetch;
@@ -66,6 +88,22 @@ export function enableHttpMock() {
                     return Response.json({ ok: true, presence });
                 }
 
+                case 'users.info': {
+                    const userId = new URL(urlStr).searchParams.get('user') || '';
+                    const user = httpState.slackUsersInfo[userId];
+                    return Response.json(user ? { ok: true, user } : { ok: true });
+                }
+
+                case 'users.conversations': {
+                    const userId = new URL(urlStr).searchParams.get('user') || '';
+                    const count = httpState.slackConversationCounts[userId] ?? 0;
+                    return Response.json({
+                        ok: true,
+                        channels: Array.from({ length: count }, (_, i) => ({ id: `C_${userId}_${i}`, name: `channel-${i}` })),
+                        response_metadata: { next_cursor: '' },
+                    });
+                }
+
                 case 'conversations.history':
                     return Response.json({
                         ok: true,
@@ -77,9 +115,24 @@ export function enableHttpMock() {
                     return Response.json({ ok: true, channel: { id: `DM_${users}` } });
                 }
 
-                case 'chat.postMessage':
-                    httpState.postMessageCalls.push(bodyParsed);
+                case 'chat.postMessage': {
+                    // Recorded with the token it was sent with — bot and user tokens DM different people
+                    const authorization = new Headers(init?.headers).get('Authorization') ?? '';
+                    httpState.postMessageCalls.push({ ...bodyParsed, token: authorization.replace(/^Bearer /, '') });
                     return Response.json({ ok: true });
+                }
+
+                case 'views.publish': {
+                    const authorization = new Headers(init?.headers).get('Authorization') ?? '';
+                    httpState.viewsPublishCalls.push({ ...bodyParsed, token: authorization.replace(/^Bearer /, '') });
+                    return Response.json(httpState.viewsPublishResponse || { ok: true });
+                }
+
+                case 'team.accessLogs':
+                    return Response.json(httpState.slackAccessLogsResponse || {
+                        ok: false,
+                        error: 'paid_only'
+                    });
 
                 case 'users.lookupByEmail':
                     return Response.json({ ok: true, user: { id: 'U_TEST_SPONSOR' } });
@@ -89,6 +142,22 @@ export function enableHttpMock() {
             }
         }
 
+        if (urlStr.startsWith('https://api.slack.com/scim/v2/Users/')) {
+            httpState.scimDeactivateCalls.push(decodeURIComponent(urlStr.split('/Users/')[1]));
+            if (httpState.scimDeactivateStatus < 300) {
+                return new Response(null, { status: httpState.scimDeactivateStatus });
+            }
+            return Response.json(
+                { Errors: { description: 'scim_failure', code: httpState.scimDeactivateStatus } },
+                { status: httpState.scimDeactivateStatus }
+            );
+        }
+
+        if (urlStr.startsWith('https://hooks.slack.com/')) {
+            httpState.responseUrlCalls.push(JSON.parse(String(init?.body ?? '{}')));
+            return new Response('ok');
+        }
+
         // Fall back to actual network for everything else (or throw error if strict)
         return originalFetch(input, init);
     });
@@ -99,8 +168,16 @@ export function resetHttpMock() {
     httpState.slackUsersListPages = [];
     httpState.slackPresenceResponses = {};
     httpState.slackHistoryHasMessages = {};
+    httpState.slackUsersInfo = {};
+    httpState.slackConversationCounts = {};
     httpState.slackOauthResponse = null;
+    httpState.slackAccessLogsResponse = null;
     httpState.postMessageCalls = [];
+    httpState.scimDeactivateStatus = 204;
+    httpState.scimDeactivateCalls = [];
+    httpState.responseUrlCalls = [];
+    httpState.viewsPublishCalls = [];
+    httpState.viewsPublishResponse = null;
 }
 
 export function disableHttpMock() {
@@ -8,18 +8,64 @@ export const WORKSPACE_IDS = {
   EMPTY:  '10000000-0000-0000-0000-000000000001',
   SINGLE: '10000000-0000-0000-0000-000000000002',
   LARGE:  '10000000-0000-0000-0000-000000000003',
+  ESTIMATE: '10000000-0000-0000-0000-000000000004',
+  ESTIMATE_TIERS: '10000000-0000-0000-0000-000000000005',
 
   // Audit cron test workspaces
   AUDIT_EMPTY:  '20000000-0000-0000-0000-000000000001',
   AUDIT_SINGLE: '20000000-0000-0000-0000-000000000002',
   RATE_LIMIT:   '20000000-0000-0000-0000-000000000003',
   AUDIT_LARGE:  '20000000-0000-0000-0000-000000000004',
+  AUDIT_EXEMPT: '20000000-0000-0000-0000-000000000005',
+  AUDIT_SNOOZE: '20000000-0000-0000-0000-000000000006',
+  AUDIT_DIGEST: '20000000-0000-0000-0000-000000000007',
+  AUDIT_SPONSOR: '20000000-0000-0000-0000-000000000008',
+  AUDIT_HISTORY: '20000000-0000-0000-0000-000000000009',
+  AUDIT_EVENTS:  '20000000-0000-0000-0000-000000000010',
+  AUDIT_LOGINS:  '20000000-0000-0000-0000-000000000011',
+  AUDIT_RESUME:  '20000000-0000-0000-0000-000000000012',
+  AUDIT_RETRY:   '20000000-0000-0000-0000-000000000013',
+  AUDIT_PREVIEW: '20000000-0000-0000-0000-000000000014',
+  AUDIT_CHANGES: '20000000-0000-0000-0000-000000000015',
+  AUDIT_GRACE:   '20000000-0000-0000-0000-000000000016',
+  AUDIT_EXPIRATION: '20000000-0000-0000-0000-000000000017',
+  AUDIT_ORPHAN:     '20000000-0000-0000-0000-000000000018',
+  AUDIT_ESCALATION: '20000000-0000-0000-0000-000000000019',
+  AUDIT_SIGNALS:    '20000000-0000-0000-0000-000000000020',
 
   // Stripe webhook test workspaces
   WEBHOOK_SUB:         '30000000-0000-0000-0000-000000000001',
   WEBHOOK_UPDATE:      '30000000-0000-0000-0000-000000000002',
   WEBHOOK_IDEMPOTENCY: '30000000-0000-0000-0000-000000000003',
 
+  // Slash command test workspaces
+  COMMAND_STATUS: '50000000-0000-0000-0000-000000000001',
+  COMMAND_EXEMPT: '50000000-0000-0000-0000-000000000002',
+  COMMAND_SCAN:   '50000000-0000-0000-0000-000000000003',
+  COMMAND_GUEST:  '50000000-0000-0000-0000-000000000004',
+
+  // Slack action test workspaces
+  ACTION_SCIM:     '60000000-0000-0000-0000-000000000001',
+  ACTION_FALLBACK: '60000000-0000-0000-0000-000000000002',
+  ACTION_SNOOZE:   '60000000-0000-0000-0000-000000000003',
+  ACTION_REASSIGN: '60000000-0000-0000-0000-000000000004',
+
+  // Workspace settings test workspaces
+  POLICY_VALID:   '70000000-0000-0000-0000-000000000001',
+  POLICY_INVALID: '70000000-0000-0000-0000-000000000002',
+  MANUAL_AUDIT:   '70000000-0000-0000-0000-000000000003',
+  MANUAL_AUDIT_THROTTLED: '70000000-0000-0000-0000-000000000004',
+  AUDIT_PREVIEW_THROTTLE: '70000000-0000-0000-0000-000000000005',
+  EXEMPTION_EMAIL_SCOPE: '70000000-0000-0000-0000-000000000006',
+
+  // Slack event test workspaces
+  EVENT_PROFILE: '80000000-0000-0000-0000-000000000001',
+  EVENT_ORPHAN:  '80000000-0000-0000-0000-000000000002',
+
+  // App Home test workspaces
+  APP_HOME:         '90000000-0000-0000-0000-000000000001',
+  APP_HOME_NO_BOT:  '90000000-0000-0000-0000-000000000002',
+
   // Security test workspaces
   SECURITY_VALID: '40000000-0000-0000-0000-000000000001',
   NONEXISTENT:    '99999999-9999-9999-9999-999999999999',
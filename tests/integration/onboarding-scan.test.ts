@@ -4,6 +4,7 @@ import { httpState } from '../helpers/http-mock';
 import { seedWorkspace } from '../helpers/db';
 import { setMockCookie } from '../helpers/next-mock';
 import { encrypt } from '@/lib/encryption';
+import { createMockSlackUsers } from '../helpers/fixtures';
 import { WORKSPACE_IDS } from '../helpers/ids';
 
 describe('Onboarding Scan Integration', () => {
@@ -26,30 +27,82 @@ describe('Onboarding Scan Integration', () => {
         expect(json.monthlyWaste).toBe(0);
     });
 
-    it('estimates 20% inactive (min 1) for paid multi-channel guests', async () => {
+    it('measures inactivity from profile updates and presence for every guest', async () => {
         const id = WORKSPACE_IDS.SINGLE;
         await seedWorkspace(id, 'Single WS');
         setMockCookie('workspace_session', encrypt(id));
 
-        // 10 paid multi-channel guests (is_restricted=true, not ultra_restricted)
-        const guests = Array.from({ length: 10 }, (_, i) => ({
-            id: `U_GUEST_${i}`,
-            deleted: false,
-            is_bot: false,
-            is_restricted: true,
-            is_ultra_restricted: false,
-        }));
+        // 10 paid multi-channel guests: 3 updated their profile recently,
+        // 2 of the other 7 are online right now
+        const guests = [
+            ...createMockSlackUsers(3, 0),
+            ...createMockSlackUsers(7, 3, { updated: 0 }),
+        ];
         httpState.slackUsersListPages = [{ ok: true, members: guests, response_metadata: { next_cursor: '' } }];
+        httpState.slackPresenceResponses['U_MOCK_3'] = 'active';
+        httpState.slackPresenceResponses['U_MOCK_4'] = 'active';
 
         const res = await scanGet(makeRequest(id));
         const json = await res.json();
 
         expect(res.status).toBe(200);
         expect(json.totalGuests).toBe(10);
-        // Math.max(1, Math.floor(10 * 0.20)) = 2
-        expect(json.inactiveGuests).toBe(2);
-        // monthlyWaste = 2 inactive paid guests × $15 default seat cost
-        expect(json.monthlyWaste).toBe(30);
+        expect(json.profileActiveGuests).toBe(3);
+        expect(json.presenceSampledGuests).toBe(7);
+        expect(json.inactiveGuests).toBe(5);
+        // monthlyWaste = 5 inactive paid guests × $15 default seat cost
+        expect(json.monthlyWaste).toBe(75);
+        expect(json.isEstimate).toBe(false);
+    });
+
+    it('extrapolates the presence sample across pages and marks the result as estimated', async () => {
+        const id = WORKSPACE_IDS.ESTIMATE;
+        await seedWorkspace(id, 'Estimate WS');
+        setMockCookie('workspace_session', encrypt(id));
+
+        // 50 paid guests with no profile update, split across two pages, none online.
+        // 25 are sampled at random; all are away, so the unchecked 25 are too.
+        const guests = createMockSlackUsers(50, 0, { updated: 0 });
+        httpState.slackUsersListPages = [
+            { ok: true, members: guests.slice(0, 30), response_metadata: { next_cursor: 'page1' } },
+            { ok: true, members: guests.slice(30), response_metadata: { next_cursor: '' } },
+        ];
+
+        const res = await scanGet(makeRequest(id));
+        const json = await res.json();
+
+        expect(res.status).toBe(200);
+        expect(json.totalGuests).toBe(50);
+        expect(json.presenceSampledGuests).toBe(25);
+        expect(json.inactiveGuests).toBe(50);
+        expect(json.monthlyWaste).toBe(750);
+        expect(json.isEstimate).toBe(true);
+    });
+
+    it('samples and extrapolates paid and free guests separately', async () => {
+        const id = WORKSPACE_IDS.ESTIMATE_TIERS;
+        await seedWorkspace(id, 'Estimate Tiers WS');
+        setMockCookie('workspace_session', encrypt(id));
+
+        // 30 paid guests, all away; 30 free single-channel guests, all online.
+        // One pooled rate would count the free guests as inactive too.
+        const paid = createMockSlackUsers(30, 0, { updated: 0 });
+        const free = createMockSlackUsers(30, 30, { updated: 0, is_ultra_restricted: true });
+        httpState.slackUsersListPages = [{ ok: true, members: [...paid, ...free], response_metadata: { next_cursor: '' } }];
+        for (const guest of free) {
+            httpState.slackPresenceResponses[guest.id] = 'active';
+        }
+
+        const res = await scanGet(makeRequest(id));
+        const json = await res.json();
+
+        expect(res.status).toBe(200);
+        expect(json.totalGuests).toBe(60);
+        expect(json.presenceSampledGuests).toBe(25);
+        expect(json.inactiveGuests).toBe(30);
+        // 30 inactive paid guests × $15 default seat cost
+        expect(json.monthlyWaste).toBe(450);
+        expect(json.isEstimate).toBe(true);
     });
 
     it('returns 401 when session cookie is missing', async () => {
@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import { POST as runAction } from '@/app/api/slack/action/route';
+import { supabase } from '@/lib/db';
+import { seedWorkspace, seedSubscription } from '../helpers/db';
+import { buildSlackSignatureHeaders, createMockSlackUser } from '../helpers/fixtures';
+import { httpState } from '../helpers/http-mock';
+import { WORKSPACE_IDS } from '../helpers/ids';
+
+describe('Slack Action Integration', () => {
+
+    // seedWorkspace derives slack_workspace_id from the UUID; installed_by = 'U12345678'
+    const teamIdFor = (workspaceId: string) =>
+        `T${workspaceId.replace(/-/g, '').substring(0, 8).toUpperCase()}`;
+
+    const sendAction = async (workspaceId: string, action: Record<string, unknown>) => {
+        const payload = {
+            type: 'block_actions',
+            team: { id: teamIdFor(workspaceId), domain: 'test' },
+            user: { id: 'U12345678', name: 'admin' },
+            response_url: 'https://hooks.slack.com/actions/test',
+            actions: [{ action_ts: String(Date.now() / 1000), ...action }],
+        };
+        const body = new URLSearchParams({ payload: JSON.stringify(payload) }).toString();
+
+        const req = new Request('http://localhost:3000/api/slack/action', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                ...buildSlackSignatureHeaders(body),
+            },
+            body,
+        });
+        return runAction(req);
+    };
+
+    const clickDeactivate = (workspaceId: string, guestId: string) =>
+        sendAction(workspaceId, {
+            action_id: 'deactivate_guest_action',
+            block_id: `guest_${guestId}`,
+            type: 'button',
+            value: `deactivate_${guestId}`,
+        });
+
+    const selectSnooze = (workspaceId: string, guestId: string, key: string) =>
+        sendAction(workspaceId, {
+            action_id: 'ignore_guest_action',
+            block_id: `guest_${guestId}`,
+            type: 'static_select',
+            selected_option: { text: { type: 'plain_text', text: key }, value: `snooze_${key}_${guestId}` },
+        });
+
+    const pickSponsor = (workspaceId: string, guestId: string, sponsorId: string) =>
+        sendAction(workspaceId, {
+            action_id: 'reassign_sponsor_action',
+            block_id: `orphan_${guestId}`,
+            type: 'users_select',
+            selected_user: sponsorId,
+        });
+
+    const seedOrphanedGuest = async (workspaceId: string, guestId: string) => {
+        const orphanedAt = new Date().toISOString();
+        const { error } = await supabase.from('guest_sponsors').insert({
+            workspace_id: workspaceId,
+            guest_user_id: guestId,
+            sponsor_user_id: 'U_SPONSOR_LEFT',
+            orphaned_at: orphanedAt,
+            orphan_alerted_at: orphanedAt,
+        });
+        if (error) throw new Error('Failed to seed orphaned guest: ' + error.message);
+    };
+
+    const loadSponsor = async (workspaceId: string, guestId: string) => {
+        const { data } = await supabase
+            .from('guest_sponsors')
+            .select('sponsor_user_id, captured_from_event, orphaned_at, orphan_alerted_at')
+            .eq('workspace_id', workspaceId)
+            .eq('guest_user_id', guestId)
+            .single();
+        return data;
+    };
+
+    const seedFlaggedGuest = async (workspaceId: string, guestId: string) => {
+        const { error } = await supabase.from('guest_audits').insert({
+            workspace_id: workspaceId,
+            slack_user_id: guestId,
+            estimated_cost_monthly: 15,
+            estimated_cost_yearly: 180,
+            is_flagged: true,
+        });
+        if (error) throw new Error('Failed to seed guest audit: ' + error.message);
+    };
+
+    it('deactivates the guest through SCIM on Enterprise Grid and clears the flag', async () => {
+        const workspaceId = WORKSPACE_IDS.ACTION_SCIM;
+        await seedWorkspace(workspaceId, 'Grid Workspace');
+        await seedSubscription(workspaceId, 'growth');
+        await supabase
+            .from('workspaces')
+            .update({ supports_user_deactivation: true, granted_scopes: ['users:read', 'admin'] })
+            .eq('id', workspaceId);
+        await seedFlaggedGuest(workspaceId, 'U_GUEST_SCIM');
+
+        const res = await clickDeactivate(workspaceId, 'U_GUEST_SCIM');
+        expect(res.status).toBe(200);
+
+        expect(httpState.scimDeactivateCalls).toEqual(['U_GUEST_SCIM']);
+
+        const { data: audit } = await supabase
+            .from('guest_audits')
+            .select('action_taken, is_flagged')
+            .eq('workspace_id', workspaceId)
+            .eq('slack_user_id', 'U_GUEST_SCIM')
+            .single();
+        expect(audit?.action_taken).toBe('deactivated');
+        expect(audit?.is_flagged).toBe(false);
+
+        expect(httpState.responseUrlCalls).toHaveLength(1);
+        expect(httpState.responseUrlCalls[0].text).toContain('has been deactivated');
+    });
+
+    it('logs deactivation intent and asks for a manual deactivation outside Grid', async () => {
+        const workspaceId = WORKSPACE_IDS.ACTION_FALLBACK;
+        await seedWorkspace(workspaceId, 'Standard Workspace');
+        await seedSubscription(workspaceId, 'growth');
+        await seedFlaggedGuest(workspaceId, 'U_GUEST_MANUAL');
+
+        const res = await clickDeactivate(workspaceId, 'U_GUEST_MANUAL');
+        expect(res.status).toBe(200);
+
+        expect(httpState.scimDeactivateCalls).toHaveLength(0);
+
+        const { data: audit } = await supabase
+            .from('guest_audits')
+            .select('action_taken, is_flagged')
+            .eq('workspace_id', workspaceId)
+            .eq('slack_user_id', 'U_GUEST_MANUAL')
+            .single();
+        expect(audit?.action_taken).toBe('suggested_deactivation_accepted');
+        // The guest is still in the workspace until the admin removes them
+        expect(audit?.is_flagged).toBe(true);
+
+        expect(httpState.responseUrlCalls).toHaveLength(1);
+        expect(httpState.responseUrlCalls[0].text).toContain('manually deactivate <@U_GUEST_MANUAL>');
+    });
+
+    it('falls back to manual deactivation when the SCIM call fails', async () => {
+        const workspaceId = WORKSPACE_IDS.ACTION_SCIM;
+        await seedWorkspace(workspaceId, 'Grid Workspace');
+        await supabase
+            .from('workspaces')
+            .update({ supports_user_deactivation: true, granted_scopes: ['users:read', 'admin'] })
+            .eq('id', workspaceId);
+        await seedFlaggedGuest(workspaceId, 'U_GUEST_SCIM');
+        httpState.scimDeactivateStatus = 403;
+
+        await clickDeactivate(workspaceId, 'U_GUEST_SCIM');
+
+        const { data: audit } = await supabase
+            .from('guest_audits')
+            .select('action_taken, is_flagged')
+            .eq('workspace_id', workspaceId)
+            .eq('slack_user_id', 'U_GUEST_SCIM')
+            .single();
+        expect(audit?.action_taken).toBe('suggested_deactivation_accepted');
+        expect(audit?.is_flagged).toBe(true);
+        expect(httpState.responseUrlCalls[0].text).toContain('Automatic deactivation failed');
+    });
+
+    it('snoozes a guest until the chosen duration expires', async () => {
+        const workspaceId = WORKSPACE_IDS.ACTION_SNOOZE;
+        await seedWorkspace(workspaceId, 'Snooze Workspace');
+        await seedFlaggedGuest(workspaceId, 'U_GUEST_SNOOZE');
+
+        const before = Date.now();
+        await selectSnooze(workspaceId, 'U_GUEST_SNOOZE', '30');
+
+        const { data: audit } = await supabase
+            .from('guest_audits')
+            .select('action_taken, is_flagged, snoozed_by, snoozed_until')
+            .eq('workspace_id', workspaceId)
+            .eq('slack_user_id', 'U_GUEST_SNOOZE')
+            .single();
+        expect(audit?.action_taken).toBe('ignored_by_admin');
+        expect(audit?.is_flagged).toBe(true);
+        expect(audit?.snoozed_by).toBe('U12345678');
+
+        const expiresAt = new Date(audit!.snoozed_until!).getTime();
+        expect(expiresAt).toBeGreaterThanOrEqual(before + 30 * 86_400_000);
+        expect(expiresAt).toBeLessThanOrEqual(Date.now() + 30 * 86_400_000);
+        expect(httpState.responseUrlCalls[0].text).toContain('Snoozed alerts for <@U_GUEST_SNOOZE> until');
+    });
+
+    it('snoozes a guest indefinitely when Forever is chosen', async () => {
+        const workspaceId = WORKSPACE_IDS.ACTION_SNOOZE;
+        await seedWorkspace(workspaceId, 'Snooze Workspace');
+        await seedFlaggedGuest(workspaceId, 'U_GUEST_SNOOZE');
+
+        await selectSnooze(workspaceId, 'U_GUEST_SNOOZE', 'forever');
+
+        const { data: audit } = await supabase
+            .from('guest_audits')
+            .select('action_taken, snoozed_at, snoozed_until')
+            .eq('workspace_id', workspaceId)
+            .eq('slack_user_id', 'U_GUEST_SNOOZE')
+            .single();
+        expect(audit?.action_taken).toBe('ignored_by_admin');
+        expect(audit?.snoozed_at).not.toBeNull();
+        expect(audit?.snoozed_until).toBeNull();
+        expect(httpState.responseUrlCalls[0].text).toContain('indefinitely');
+    });
+
+    it('reassigns an orphaned guest to the sponsor an admin picked', async () => {
+        const workspaceId = WORKSPACE_IDS.ACTION_REASSIGN;
+        await seedWorkspace(workspaceId, 'Reassign Workspace');
+        await seedOrphanedGuest(workspaceId, 'U_GUEST_ORPHAN');
+        httpState.slackUsersInfo['U_NEW_SPONSOR'] = createMockSlackUser('U_NEW_SPONSOR', { is_restricted: false });
+
+        const res = await pickSponsor(workspaceId, 'U_GUEST_ORPHAN', 'U_NEW_SPONSOR');
+        expect(res.status).toBe(200);
+
+        const sponsor = await loadSponsor(workspaceId, 'U_GUEST_ORPHAN');
+        expect(sponsor).toEqual({
+            sponsor_user_id: 'U_NEW_SPONSOR',
+            captured_from_event: 'reassigned',
+            orphaned_at: null,
+            orphan_alerted_at: null,
+        });
+
+        const { data: events } = await supabase
+            .from('events').select('payload').eq('workspace_id', workspaceId).eq('type', 'sponsor_reassigned');
+        expect(events?.[0].payload).toMatchObject({ guest_id: 'U_GUEST_ORPHAN', sponsor_id: 'U_NEW_SPONSOR', admin_id: 'U12345678' });
+
+        expect(httpState.responseUrlCalls[0].text).toContain('<@U_NEW_SPONSOR> is now the sponsor for <@U_GUEST_ORPHAN>');
+    });
+
+    it('keeps the guest orphaned when the picked sponsor is a guest', async () => {
+        const workspaceId = WORKSPACE_IDS.ACTION_REASSIGN;
+        await seedWorkspace(workspaceId, 'Reassign Workspace');
+        await seedOrphanedGuest(workspaceId, 'U_GUEST_ORPHAN');
+        httpState.slackUsersInfo['U_OTHER_GUEST'] = createMockSlackUser('U_OTHER_GUEST');
+
+        await pickSponsor(workspaceId, 'U_GUEST_ORPHAN', 'U_OTHER_GUEST');
+
+        const sponsor = await loadSponsor(workspaceId, 'U_GUEST_ORPHAN');
+        expect(sponsor?.sponsor_user_id).toBe('U_SPONSOR_LEFT');
+        expect(sponsor?.orphaned_at).not.toBeNull();
+        expect(httpState.responseUrlCalls[0].text).toContain("<@U_OTHER_GUEST> can't sponsor guests");
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { POST as runCommand } from '@/app/api/slack/commands/route';
+import { POST as runAuditWorker } from '@/app/api/internal/audit/worker/route';
+import { supabase } from '@/lib/db';
+import { seedWorkspace, seedSubscription } from '../helpers/db';
+import { buildSlackSignatureHeaders } from '../helpers/fixtures';
+import { httpState } from '../helpers/http-mock';
+import { slackCommandService } from '@/services/slack-command.service';
+import { env } from '@/lib/env';
+import { WORKSPACE_IDS } from '../helpers/ids';
+
+describe('Slash Command Integration', () => {
+
+    // seedWorkspace derives slack_workspace_id from the UUID; installed_by = 'U12345678'
+    const teamIdFor = (workspaceId: string) =>
+        `T${workspaceId.replace(/-/g, '').substring(0, 8).toUpperCase()}`;
+
+    const sendCommand = async (workspaceId: string, text: string, userId = 'U12345678') => {
+        const body = new URLSearchParams({
+            command: '/guest-sentinel',
+            text,
+            team_id: teamIdFor(workspaceId),
+            user_id: userId,
+            channel_id: 'C_TEST',
+            response_url: 'https://hooks.slack.com/commands/test',
+        }).toString();
+
+        const req = new Request('http://localhost:3000/api/slack/commands', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                ...buildSlackSignatureHeaders(body),
+            },
+            body,
+        });
+        return runCommand(req);
+    };
+
+    it('rejects requests with an invalid signature', async () => {
+        const req = new Request('http://localhost:3000/api/slack/commands', {
+            method: 'POST',
+            headers: { 'x-slack-request-timestamp': String(Math.floor(Date.now() / 1000)), 'x-slack-signature': 'v0=bad' },
+            body: 'text=status',
+        });
+        const res = await runCommand(req);
+        expect(res.status).toBe(401);
+    });
+
+    it('reports the latest audit snapshot ephemerally', async () => {
+        await seedWorkspace(WORKSPACE_IDS.COMMAND_STATUS, 'Command Status');
+        await seedSubscription(WORKSPACE_IDS.COMMAND_STATUS, 'starter');
+        await supabase.from('audit_runs').insert({
+            workspace_id: WORKSPACE_IDS.COMMAND_STATUS,
+            workspace_guest_count: 12,
+            workspace_inactive_count: 4,
+            workspace_estimated_waste: 60,
+        });
+
+        const res = await sendCommand(WORKSPACE_IDS.COMMAND_STATUS, 'status');
+        const json = await res.json();
+
+        expect(res.status).toBe(200);
+        expect(json.response_type).toBe('ephemeral');
+        expect(json.text).toContain('12 guests');
+        expect(json.text).toContain('$60/month');
+    });
+
+    it('refuses members who do not receive alerts', async () => {
+        await seedWorkspace(WORKSPACE_IDS.COMMAND_STATUS, 'Command Status');
+
+        const res = await sendCommand(WORKSPACE_IDS.COMMAND_STATUS, 'status', 'U_NOT_ADMIN');
+        const json = await res.json();
+
+        expect(json.response_type).toBe('ephemeral');
+        expect(json.text).toContain('Only the admins');
+    });
+
+    it('creates a user exemption rule attributed to the admin', async () => {
+        await seedWorkspace(WORKSPACE_IDS.COMMAND_EXEMPT, 'Command Exempt');
+
+        const res = await sendCommand(WORKSPACE_IDS.COMMAND_EXEMPT, 'exempt <@U0GUEST1|jane> board advisor');
+        const json = await res.json();
+
+        expect(json.text).toContain('is now exempt');
+
+        const { data: rule } = await supabase
+            .from('guest_exemptions')
+            .select('*')
+            .eq('workspace_id', WORKSPACE_IDS.COMMAND_EXEMPT)
+            .single();
+        expect(rule?.rule_type).toBe('user');
+        expect(rule?.value).toBe('U0GUEST1');
+        expect(rule?.reason).toBe('board advisor');
+        expect(rule?.created_by).toBe('U12345678');
+    });
+
+    it('queues a manual audit job for the worker instead of auditing inline', async () => {
+        await seedWorkspace(WORKSPACE_IDS.COMMAND_SCAN, 'Command Scan');
+        await seedSubscription(WORKSPACE_IDS.COMMAND_SCAN, 'starter');
+
+        const res = await sendCommand(WORKSPACE_IDS.COMMAND_SCAN, 'scan');
+        const json = await res.json();
+        expect(json.text).toContain('Audit queued');
+
+        const { data: job } = await supabase
+            .from('audit_jobs')
+            .select('status, manual')
+            .eq('workspace_id', WORKSPACE_IDS.COMMAND_SCAN)
+            .single();
+        expect(job?.status).toBe('pending');
+        expect(job?.manual).toBe(true);
+
+        // A second scan while the first is open doesn't queue another job
+        const again = await (await sendCommand(WORKSPACE_IDS.COMMAND_SCAN, 'scan')).json();
+        expect(again.text).toContain('already in progress');
+
+        // The worker runs it and records the run as manual
+        httpState.slackUsersListPages = [{ ok: true, members: [] }];
+        await runAuditWorker(new Request('http://localhost:3000/api/internal/audit/worker', {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${env.CRON_SECRET}` },
+        }));
+
+        const { data: run } = await supabase
+            .from('audit_runs')
+            .select('manual')
+            .eq('workspace_id', WORKSPACE_IDS.COMMAND_SCAN)
+            .single();
+        expect(run?.manual).toBe(true);
+    });
+
+    it('posts an error follow-up when a guest lookup fails after responding', async () => {
+        await seedWorkspace(WORKSPACE_IDS.COMMAND_GUEST, 'Command Guest');
+        // A token that no longer decrypts makes the live lookup throw
+        await supabase.from('workspaces').update({ access_token: 'corrupt' }).eq('id', WORKSPACE_IDS.COMMAND_GUEST);
+
+        // after() only runs inside a request, so drive the service directly
+        const { response, deferred } = await slackCommandService.handleCommand({
+            command: '/guest-sentinel',
+            text: 'guest <@U0GUEST1|jane>',
+            team_id: teamIdFor(WORKSPACE_IDS.COMMAND_GUEST),
+            user_id: 'U12345678',
+            channel_id: 'C_TEST',
+            response_url: 'https://hooks.slack.com/commands/test',
+        });
+        expect(response.text).toContain('Checking <@U0GUEST1>');
+
+        await expect(deferred!()).resolves.toBeUndefined();
+        expect(httpState.responseUrlCalls).toHaveLength(1);
+        expect(httpState.responseUrlCalls[0].response_type).toBe('ephemeral');
+        expect(httpState.responseUrlCalls[0].text).toContain("Couldn't check <@U0GUEST1>");
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { slackEventService } from '@/services/slack-event.service';
+import { supabase } from '@/lib/db';
+import { seedWorkspace, seedSubscription } from '../helpers/db';
+import { createMockSlackUser } from '../helpers/fixtures';
+import { httpState } from '../helpers/http-mock';
+import { WORKSPACE_IDS } from '../helpers/ids';
+import type { SlackEventCallbackEnvelope } from '@/types/slack.types';
+
+describe('Slack Event Integration', () => {
+
+    // seedWorkspace derives slack_workspace_id from the UUID
+    const teamIdFor = (workspaceId: string) =>
+        `T${workspaceId.replace(/-/g, '').substring(0, 8).toUpperCase()}`;
+
+    // The route acknowledges Slack and processes in after() — call the service directly
+    const deliver = (workspaceId: string, type: 'team_join' | 'user_change', user: object) =>
+        slackEventService.handleEnvelope({
+            type: 'event_callback',
+            token: 'test',
+            team_id: teamIdFor(workspaceId),
+            event: { type, user, event_ts: String(Date.now() / 1000) },
+        } as unknown as SlackEventCallbackEnvelope);
+
+    const loadActivity = async (workspaceId: string, guestId: string) => {
+        const { data } = await supabase
+            .from('guest_activity')
+            .select('last_activity_at, last_activity_type, profile_snapshot')
+            .eq('workspace_id', workspaceId)
+            .eq('slack_user_id', guestId)
+            .maybeSingle();
+        return data;
+    };
+
+    const guest = createMockSlackUser('U_EVENT_GUEST', {
+        profile: { display_name: 'jane', real_name: 'Jane Doe', status_text: '', status_emoji: '' },
+    });
+
+    it('registers a joining guest without counting the join as activity', async () => {
+        const workspaceId = WORKSPACE_IDS.EVENT_PROFILE;
+        await seedWorkspace(workspaceId, 'Events WS');
+
+        await deliver(workspaceId, 'team_join', guest);
+
+        const activity = await loadActivity(workspaceId, guest.id);
+        expect(activity).not.toBeNull();
+        expect(activity?.last_activity_at).toBeNull();
+        expect(activity?.profile_snapshot?.display_name).toBe('jane');
+
+        const { data: join } = await supabase
+            .from('guest_joins')
+            .select('source')
+            .eq('workspace_id', workspaceId)
+            .eq('slack_user_id', guest.id)
+            .single();
+        expect(join?.source).toBe('team_join');
+    });
+
+    it('ignores user_change events the guest did not make', async () => {
+        const workspaceId = WORKSPACE_IDS.EVENT_PROFILE;
+        await seedWorkspace(workspaceId, 'Events WS');
+        const onVacation = { ...guest, profile: { ...guest.profile, status_text: 'On vacation', status_emoji: ':palm_tree:' } };
+        await deliver(workspaceId, 'team_join', onVacation);
+
+        // An admin sets an account expiration — the profile is unchanged
+        await deliver(workspaceId, 'user_change', { ...onVacation, expiration_ts: Math.floor(Date.now() / 1000) + 86_400 });
+        // Slack clears the status when it expires
+        await deliver(workspaceId, 'user_change', guest);
+
+        const activity = await loadActivity(workspaceId, guest.id);
+        expect(activity?.last_activity_at).toBeNull();
+    });
+
+    it('counts a status the guest set as profile activity', async () => {
+        const workspaceId = WORKSPACE_IDS.EVENT_PROFILE;
+        await seedWorkspace(workspaceId, 'Events WS');
+        await deliver(workspaceId, 'team_join', guest);
+
+        await deliver(workspaceId, 'user_change', {
+            ...guest,
+            profile: { ...guest.profile, status_text: 'In a meeting', status_emoji: ':calendar:' },
+        });
+
+        const activity = await loadActivity(workspaceId, guest.id);
+        expect(activity?.last_activity_type).toBe('profile_update');
+        expect(activity?.last_activity_at).not.toBeNull();
+        expect(activity?.profile_snapshot?.status_text).toBe('In a meeting');
+    });
+
+    it('orphans the guests of a deactivated sponsor and alerts admins once', async () => {
+        const workspaceId = WORKSPACE_IDS.EVENT_ORPHAN;
+        await seedWorkspace(workspaceId, 'Events WS');
+        await seedSubscription(workspaceId, 'starter');
+        await supabase.from('guest_sponsors').insert([
+            { workspace_id: workspaceId, guest_user_id: 'U_GUEST_LEFT_BEHIND', sponsor_user_id: 'U_SPONSOR_LEAVING' },
+            { workspace_id: workspaceId, guest_user_id: 'U_GUEST_SPONSORED', sponsor_user_id: 'U_SPONSOR_STAYING' },
+        ]);
+
+        const sponsor = createMockSlackUser('U_SPONSOR_LEAVING', { is_restricted: false, deleted: true });
+        await deliver(workspaceId, 'user_change', sponsor);
+
+        const { data: sponsors } = await supabase
+            .from('guest_sponsors')
+            .select('guest_user_id, orphaned_at, orphan_alerted_at')
+            .eq('workspace_id', workspaceId)
+            .order('guest_user_id');
+        expect(sponsors![0].guest_user_id).toBe('U_GUEST_LEFT_BEHIND');
+        expect(sponsors![0].orphaned_at).not.toBeNull();
+        expect(sponsors![0].orphan_alerted_at).not.toBeNull();
+        expect(sponsors![1].orphaned_at).toBeNull();
+
+        expect(httpState.postMessageCalls.length).toBe(1);
+        const blocks: Array<{ block_id?: string }> = httpState.postMessageCalls[0].blocks;
+        expect(blocks.some(b => b.block_id === 'orphan_U_GUEST_LEFT_BEHIND')).toBe(true);
+
+        const { data: events } = await supabase
+            .from('events').select('payload').eq('workspace_id', workspaceId).eq('type', 'sponsor_departed');
+        expect(events?.[0].payload).toMatchObject({ sponsor_id: 'U_SPONSOR_LEAVING', guest_ids: ['U_GUEST_LEFT_BEHIND'] });
+
+        // Slack can send the deactivation again — the guests are already orphaned
+        await deliver(workspaceId, 'user_change', sponsor);
+        expect(httpState.postMessageCalls.length).toBe(1);
+    });
+});
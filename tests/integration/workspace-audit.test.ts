@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { POST as runAuditNow } from '@/app/api/workspace/audit/route';
+import { POST as previewAudit } from '@/app/api/workspace/audit/preview/route';
+import { supabase } from '@/lib/db';
+import { encrypt } from '@/lib/encryption';
+import { httpState } from '../helpers/http-mock';
+import { seedWorkspace, seedSubscription } from '../helpers/db';
+import { createMockSlackUsers } from '../helpers/fixtures';
+import { setMockCookie } from '../helpers/next-mock';
+import { WORKSPACE_IDS } from '../helpers/ids';
+
+describe('Run Audit Now Integration', () => {
+
+    it('returns 401 when session cookie is missing', async () => {
+        const res = await runAuditNow();
+        const json = await res.json();
+
+        expect(res.status).toBe(401);
+        expect(json.code).toBe('unauthorized');
+    });
+
+    it('audits only the session workspace and records a manual run', async () => {
+        const workspaceId = WORKSPACE_IDS.MANUAL_AUDIT;
+        await seedWorkspace(workspaceId, 'Manual Audit WS');
+        await seedSubscription(workspaceId, 'starter');
+        setMockCookie('workspace_session', encrypt(workspaceId));
+
+        httpState.slackUsersListPages = [{ ok: true, members: createMockSlackUsers(2, 0, { updated: 0 }) }];
+
+        const res = await runAuditNow();
+        const json = await res.json();
+
+        expect(res.status).toBe(200);
+        expect(json.ok).toBe(true);
+        expect(json.data.guestCount).toBe(2);
+        expect(json.data.flagged).toBe(2);
+
+        const { data: run } = await supabase
+            .from('audit_runs')
+            .select('manual, workspace_guest_count')
+            .eq('workspace_id', workspaceId)
+            .single();
+        expect(run?.manual).toBe(true);
+        expect(run?.workspace_guest_count).toBe(2);
+
+        const { data: usage } = await supabase
+            .from('workspace_usage')
+            .select('last_scan_at')
+            .eq('workspace_id', workspaceId)
+            .single();
+        expect(usage?.last_scan_at).not.toBeNull();
+    });
+
+    it('refuses a second scan inside the free plan throttle without auditing', async () => {
+        const workspaceId = WORKSPACE_IDS.MANUAL_AUDIT_THROTTLED;
+        await seedWorkspace(workspaceId, 'Throttled WS'); // free plan
+        await supabase.from('workspace_usage').insert({
+            workspace_id: workspaceId,
+            last_scan_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        });
+        setMockCookie('workspace_session', encrypt(workspaceId));
+
+        const res = await runAuditNow();
+        const json = await res.json();
+
+        expect(res.status).toBe(429);
+        expect(json.code).toBe('scan_not_allowed');
+        expect(json.error).toContain('once every 24 hours');
+
+        const { count } = await supabase
+            .from('audit_runs')
+            .select('id', { count: 'exact', head: true })
+            .eq('workspace_id', workspaceId);
+        expect(count).toBe(0);
+    });
+
+    it('previews on its own throttle without using up a manual scan', async () => {
+        const workspaceId = WORKSPACE_IDS.AUDIT_PREVIEW_THROTTLE;
+        await seedWorkspace(workspaceId, 'Preview Throttle WS'); // free plan
+        // A manual scan an hour ago — inside the free plan's 24-hour throttle
+        await supabase.from('workspace_usage').insert({
+            workspace_id: workspaceId,
+            scans_this_week: 1,
+            last_scan_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        });
+        setMockCookie('workspace_session', encrypt(workspaceId));
+
+        httpState.slackUsersListPages = [{ ok: true, members: createMockSlackUsers(2, 0, { updated: 0 }) }];
+
+        const first = await previewAudit();
+        expect(first.status).toBe(200);
+        expect((await first.json()).data.guestCount).toBe(2);
+
+        const second = await previewAudit();
+        const json = await second.json();
+        expect(second.status).toBe(429);
+        expect(json.error).toContain('A preview ran in the last');
+
+        // The manual-scan allowance is untouched
+        const { data: usage } = await supabase
+            .from('workspace_usage')
+            .select('scans_this_week')
+            .eq('workspace_id', workspaceId)
+            .single();
+        expect(usage?.scans_this_week).toBe(1);
+    });
+});
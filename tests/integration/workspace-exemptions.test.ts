@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { POST as saveExemption } from '@/app/api/workspace/exemptions/route';
+import { supabase } from '@/lib/db';
+import { encrypt } from '@/lib/encryption';
+import { seedWorkspace } from '../helpers/db';
+import { setMockCookie } from '../helpers/next-mock';
+import { WORKSPACE_IDS } from '../helpers/ids';
+
+describe('Workspace Exemptions Integration', () => {
+
+    const createRule = async (workspaceId: string, ruleType: string, value: string) => {
+        setMockCookie('workspace_session', encrypt(workspaceId));
+
+        const formData = new FormData();
+        formData.set('intent', 'create');
+        formData.set('rule_type', ruleType);
+        formData.set('value', value);
+
+        const res = await saveExemption(new Request('http://localhost:3000/api/workspace/exemptions', {
+            method: 'POST',
+            body: formData,
+        }));
+        return new URL(res.headers.get('location') || '', 'http://localhost:3000');
+    };
+
+    it('saves an email-domain rule but prompts a reinstall when emails cannot be read', async () => {
+        const workspaceId = WORKSPACE_IDS.EXEMPTION_EMAIL_SCOPE;
+        await seedWorkspace(workspaceId, 'Exemption WS');
+        await supabase.from('workspaces').update({ granted_scopes: ['users:read', 'chat:write'] }).eq('id', workspaceId);
+
+        const location = await createRule(workspaceId, 'email_domain', 'contractor.com');
+
+        expect(location.searchParams.get('settings')).toBe('saved');
+        expect(location.searchParams.get('warning')).toBe('email_scope_missing');
+
+        const { data: rule } = await supabase
+            .from('guest_exemptions')
+            .select('rule_type, value')
+            .eq('workspace_id', workspaceId)
+            .single();
+        expect(rule).toEqual({ rule_type: 'email_domain', value: 'contractor.com' });
+    });
+
+    it('does not warn when the email scope was granted, or for user rules', async () => {
+        const workspaceId = WORKSPACE_IDS.EXEMPTION_EMAIL_SCOPE;
+        await seedWorkspace(workspaceId, 'Exemption WS');
+
+        // No recorded scopes — user rules never need emails
+        const userRule = await createRule(workspaceId, 'user', 'U0GUEST1');
+        expect(userRule.searchParams.get('warning')).toBeNull();
+
+        await supabase.from('workspaces').update({ granted_scopes: ['users:read', 'users:read.email'] }).eq('id', workspaceId);
+        const domainRule = await createRule(workspaceId, 'email_domain', 'contractor.com');
+        expect(domainRule.searchParams.get('settings')).toBe('saved');
+        expect(domainRule.searchParams.get('warning')).toBeNull();
+    });
+});
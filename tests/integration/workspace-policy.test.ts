@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { POST as savePolicy } from '@/app/api/workspace/policy/route';
+import { supabase } from '@/lib/db';
+import { encrypt } from '@/lib/encryption';
+import { seedWorkspace } from '../helpers/db';
+import { setMockCookie } from '../helpers/next-mock';
+import { WORKSPACE_IDS } from '../helpers/ids';
+
+describe('Workspace Policy Integration', () => {
+
+    // A policy form as the dashboard submits it; overrides replace single fields
+    const submitPolicy = async (workspaceId: string, overrides: Record<string, string> = {}) => {
+        setMockCookie('workspace_session', encrypt(workspaceId));
+
+        const fields: Record<string, string> = {
+            activity_window_days: '45',
+            min_active_score: '1',
+            weight_profile: '1',
+            weight_presence: '1',
+            weight_message: '2',
+            weight_event_activity: '2',
+            weight_access_logs: '2',
+            enabled_profile: 'on',
+            enabled_presence: 'on',
+            enabled_message: 'on',
+            history_public_channel: 'on',
+            grace_period_days: '7',
+            max_guest_expiration_days: '',
+            ...overrides,
+        };
+
+        const formData = new FormData();
+        for (const [name, value] of Object.entries(fields)) {
+            formData.set(name, value);
+        }
+
+        return savePolicy(new Request('http://localhost:3000/api/workspace/policy', {
+            method: 'POST',
+            body: formData,
+        }));
+    };
+
+    it('saves a valid policy and redirects back to the settings', async () => {
+        const workspaceId = WORKSPACE_IDS.POLICY_VALID;
+        await seedWorkspace(workspaceId, 'Policy WS');
+
+        const res = await submitPolicy(workspaceId);
+
+        expect(res.status).toBe(303);
+        expect(res.headers.get('location')).toContain('settings=saved');
+
+        const { data: policy } = await supabase
+            .from('audit_policies')
+            .select('activity_window_days, enabled_signals')
+            .eq('workspace_id', workspaceId)
+            .single();
+        expect(policy?.activity_window_days).toBe(45);
+        expect(policy?.enabled_signals).toEqual(['profile', 'presence', 'message']);
+    });
+
+    it('rejects an invalid policy without saving it', async () => {
+        const workspaceId = WORKSPACE_IDS.POLICY_INVALID;
+        await seedWorkspace(workspaceId, 'Policy WS');
+
+        // Window out of range, and a threshold the enabled signals can never reach
+        const res = await submitPolicy(workspaceId, { activity_window_days: '0', min_active_score: '10' });
+
+        expect(res.status).toBe(303);
+        const location = new URL(res.headers.get('location') || '', 'http://localhost:3000');
+        expect(location.searchParams.get('error')).toBe('invalid_policy');
+        expect(location.searchParams.get('detail')).toContain('Activity window');
+        expect(location.searchParams.get('detail')).toContain('every guest would be flagged');
+
+        const { data: policy } = await supabase
+            .from('audit_policies')
+            .select('workspace_id')
+            .eq('workspace_id', workspaceId)
+            .maybeSingle();
+        expect(policy).toBeNull();
+    });
+});
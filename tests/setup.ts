@@ -11,6 +11,14 @@ config({ path: path.resolve(__dirname, '../.env.test') });
 import { disableHttpMock, enableHttpMock, resetHttpMock } from './helpers/http-mock';
 import { clearMockCookies } from './helpers/next-mock';
 import './helpers/next-mock';
+import { slackRateLimiter } from '@/lib/slack-rate-limiter';
+
+// Slack calls are still paced, but on a clock where waiting takes no time
+let pacedMs = 0;
+slackRateLimiter.useClock({
+    now: () => Date.now() + pacedMs,
+    sleep: async ms => { pacedMs += ms; },
+});
 
 beforeAll(async () => {
     // 2. Dynamically import supabase AFTER environment is locked
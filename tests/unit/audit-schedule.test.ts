@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getAuditSchedule,
+    getDefaultAuditSlot,
+    getLastScheduledSlot,
+    getNextScheduledSlot,
+    isAuditDue,
+} from '@/services/audit-schedule.service';
+import type { Workspace } from '@/types/database.types';
+
+type ScheduledWorkspace = Pick<
+    Workspace,
+    'id' | 'plan_type' | 'audit_timezone' | 'audit_day_of_week' | 'audit_hour' | 'last_scheduled_audit_at'
+>;
+
+describe('Audit schedule', () => {
+
+    // Starter audits weekly, growth daily
+    const weekly = (overrides: Partial<ScheduledWorkspace> = {}): ScheduledWorkspace => ({
+        id: '70000000-0000-0000-0000-000000000001',
+        plan_type: 'starter',
+        audit_timezone: 'Europe/Paris',
+        audit_day_of_week: 0,
+        audit_hour: 9,
+        last_scheduled_audit_at: null,
+        ...overrides,
+    });
+
+    const daily = (overrides: Partial<ScheduledWorkspace> = {}): ScheduledWorkspace => ({
+        ...weekly({ plan_type: 'growth', audit_timezone: 'America/New_York' }),
+        ...overrides,
+    });
+
+    const at = (iso: string) => new Date(iso);
+
+    describe('missed ticks', () => {
+        // Sunday Oct 18, 2026 09:00 in Paris (CEST, UTC+2) is 07:00Z
+        const lastWeek = weekly({ last_scheduled_audit_at: '2026-10-11T07:00:00.000Z' });
+
+        it('is due on the scheduled tick', () => {
+            expect(isAuditDue(lastWeek, at('2026-10-18T07:00:00Z'))).toBe(true);
+            expect(isAuditDue(lastWeek, at('2026-10-18T06:59:00Z'))).toBe(false);
+        });
+
+        it('catches up on a later tick when the scheduled one was missed', () => {
+            expect(isAuditDue(lastWeek, at('2026-10-18T09:30:00Z'))).toBe(true);
+            // Still due days later, until the scheduler queues it
+            expect(isAuditDue(lastWeek, at('2026-10-21T12:00:00Z'))).toBe(true);
+            expect(getLastScheduledSlot(getAuditSchedule(lastWeek)!, at('2026-10-21T12:00:00Z')))
+                .toEqual(at('2026-10-18T07:00:00Z'));
+        });
+
+        it('runs a caught-up audit once, then waits for the next slot', () => {
+            const caughtUp = weekly({ last_scheduled_audit_at: '2026-10-18T09:30:00.000Z' });
+            expect(isAuditDue(caughtUp, at('2026-10-18T10:00:00Z'))).toBe(false);
+            expect(isAuditDue(caughtUp, at('2026-10-24T23:00:00Z'))).toBe(false);
+        });
+
+        it('is due straight away for a workspace never queued before', () => {
+            expect(isAuditDue(weekly(), at('2026-10-14T12:00:00Z'))).toBe(true);
+        });
+
+        it('is never due on a plan without background audits', () => {
+            expect(isAuditDue(weekly({ plan_type: 'free' }), at('2026-10-18T07:00:00Z'))).toBe(false);
+        });
+    });
+
+    describe('daylight saving time', () => {
+        it('keeps the local hour when the offset changes between slots', () => {
+            // Paris falls back on Oct 25, 2026: 09:00 is 07:00Z before and 08:00Z after
+            const schedule = getAuditSchedule(weekly())!;
+            expect(getNextScheduledSlot(schedule, at('2026-10-18T10:00:00Z'))).toEqual(at('2026-10-25T08:00:00Z'));
+            expect(isAuditDue(
+                weekly({ last_scheduled_audit_at: '2026-10-18T07:00:00.000Z' }),
+                at('2026-10-25T07:00:00Z')
+            )).toBe(false);
+        });
+
+        it('runs in the next hour when the clocks skip the scheduled one', () => {
+            // New York springs forward on Mar 8, 2026: 02:00 EST jumps to 03:00 EDT (07:00Z)
+            const schedule = getAuditSchedule(daily({ audit_hour: 2 }))!;
+            expect(getNextScheduledSlot(schedule, at('2026-03-07T12:00:00Z'))).toEqual(at('2026-03-08T07:00:00Z'));
+            // The day after, 02:00 EDT exists again
+            expect(getNextScheduledSlot(schedule, at('2026-03-08T12:00:00Z'))).toEqual(at('2026-03-09T06:00:00Z'));
+
+            const queuedSaturday = daily({ audit_hour: 2, last_scheduled_audit_at: '2026-03-07T07:00:00.000Z' });
+            expect(isAuditDue(queuedSaturday, at('2026-03-08T07:00:00Z'))).toBe(true);
+        });
+
+        it('runs in the next hour when the clocks skip midnight', () => {
+            // Santiago springs forward on Sep 6, 2026: Saturday 23:00 (03:00Z) is followed by Sunday 01:00 (04:00Z)
+            const schedule = getAuditSchedule(weekly({ audit_timezone: 'America/Santiago', audit_hour: 0 }))!;
+            expect(getNextScheduledSlot(schedule, at('2026-09-05T12:00:00Z'))).toEqual(at('2026-09-06T04:00:00Z'));
+
+            const dailySchedule = getAuditSchedule(daily({ audit_timezone: 'America/Santiago', audit_hour: 0 }))!;
+            expect(getNextScheduledSlot(dailySchedule, at('2026-09-05T12:00:00Z'))).toEqual(at('2026-09-06T04:00:00Z'));
+            expect(getNextScheduledSlot(dailySchedule, at('2026-09-06T12:00:00Z'))).toEqual(at('2026-09-07T03:00:00Z'));
+        });
+
+        it('runs once when the clocks repeat the scheduled hour', () => {
+            // New York falls back on Nov 1, 2026: 01:00 happens at 05:00Z (EDT) and again at 06:00Z (EST)
+            const schedule = getAuditSchedule(daily({ audit_hour: 1 }))!;
+            expect(getNextScheduledSlot(schedule, at('2026-10-31T12:00:00Z'))).toEqual(at('2026-11-01T05:00:00Z'));
+
+            const queuedFirstTime = daily({ audit_hour: 1, last_scheduled_audit_at: '2026-11-01T05:00:00.000Z' });
+            expect(isAuditDue(queuedFirstTime, at('2026-11-01T06:00:00Z'))).toBe(false);
+            expect(getLastScheduledSlot(schedule, at('2026-11-01T06:00:00Z'))).toEqual(at('2026-11-01T05:00:00Z'));
+        });
+    });
+
+    describe('default slot', () => {
+        it('uses the hashed weekday and hour until the workspace picks its own', () => {
+            const id = '70000000-0000-0000-0000-000000000002';
+            const schedule = getAuditSchedule(weekly({
+                id,
+                audit_timezone: 'UTC',
+                audit_day_of_week: null,
+                audit_hour: null,
+            }))!;
+            expect(schedule).toMatchObject(getDefaultAuditSlot(id));
+            expect(getAuditSchedule(weekly({ id, audit_hour: null }))!.dayOfWeek).toBe(0);
+        });
+
+        it('is stable per workspace and spread across the week', () => {
+            const ids = Array.from({ length: 500 }, (_, i) =>
+                `70000000-0000-0000-0000-${String(i).padStart(12, '0')}`);
+            expect(getDefaultAuditSlot(ids[0])).toEqual(getDefaultAuditSlot(ids[0]));
+
+            const slots = new Set(ids.map(id => {
+                const { dayOfWeek, hour } = getDefaultAuditSlot(id);
+                return dayOfWeek * 24 + hour;
+            }));
+            // 500 workspaces over 168 weekly ticks — far from all on one
+            expect(slots.size).toBeGreaterThan(100);
+            for (const id of ids) {
+                const { dayOfWeek, hour } = getDefaultAuditSlot(id);
+                expect(dayOfWeek).toBeGreaterThanOrEqual(0);
+                expect(dayOfWeek).toBeLessThanOrEqual(6);
+                expect(hour).toBeGreaterThanOrEqual(0);
+                expect(hour).toBeLessThanOrEqual(23);
+            }
+        });
+    });
+});
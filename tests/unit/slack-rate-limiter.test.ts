@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+    SlackRateLimiter,
+    acquireSlackCall,
+    countSlackCalls,
+    createSlackCallStats,
+    getMethodLimits,
+    recordRateLimited,
+} from '@/lib/slack-rate-limiter';
+import type { RateLimiterClock } from '@/lib/slack-rate-limiter';
+
+describe('Slack rate limiter', () => {
+
+    // Sleeping moves the clock forward instantly and records the wait
+    const fakeClock = () => {
+        const clock = {
+            time: 1_000_000,
+            sleeps: [] as number[],
+            now: () => clock.time,
+            sleep: async (ms: number) => {
+                clock.sleeps.push(ms);
+                clock.time += ms;
+            },
+        };
+        return clock satisfies RateLimiterClock;
+    };
+
+    describe('getMethodLimits', () => {
+        it('sizes the bucket from the method tier', () => {
+            // Tier 2: 20/min, 5s burst → 1 call
+            expect(getMethodLimits('users.list')).toEqual({ perMinute: 20, capacity: 1 });
+            // Tier 3: 50/min → 4 calls
+            expect(getMethodLimits('users.getPresence')).toEqual({ perMinute: 50, capacity: 4 });
+            // Tier 4: 100/min → 8 calls
+            expect(getMethodLimits('chat.postMessage')).toEqual({ perMinute: 100, capacity: 8 });
+        });
+
+        it('falls back to tier 3 for methods it does not know', () => {
+            expect(getMethodLimits('bookmarks.list')).toEqual({ perMinute: 50, capacity: 4 });
+        });
+    });
+
+    describe('token bucket', () => {
+        it('lets a burst through, then paces calls at the tier rate', async () => {
+            const clock = fakeClock();
+            const limiter = new SlackRateLimiter(clock);
+
+            for (let i = 0; i < 4; i++) {
+                expect(await limiter.acquire('xoxp-a', 'users.getPresence')).toBe(0);
+            }
+            expect(clock.sleeps).toEqual([]);
+
+            // 50/min refills one call every 1.2s
+            expect(await limiter.acquire('xoxp-a', 'users.getPresence')).toBe(1200);
+            expect(clock.sleeps).toEqual([1200]);
+        });
+
+        it('refills while idle', async () => {
+            const clock = fakeClock();
+            const limiter = new SlackRateLimiter(clock);
+
+            await limiter.acquire('xoxp-a', 'users.list');
+            clock.time += 3000;
+            expect(await limiter.acquire('xoxp-a', 'users.list')).toBe(0);
+        });
+
+        it('keeps separate buckets per token and per method', async () => {
+            const clock = fakeClock();
+            const limiter = new SlackRateLimiter(clock);
+
+            await limiter.acquire('xoxp-a', 'users.list');
+            expect(await limiter.acquire('xoxp-b', 'users.list')).toBe(0);
+            expect(await limiter.acquire('xoxp-a', 'users.info')).toBe(0);
+            expect(clock.sleeps).toEqual([]);
+        });
+    });
+
+    describe('Retry-After pause', () => {
+        it('holds every caller of the method until Retry-After has passed', async () => {
+            const clock = fakeClock();
+            const limiter = new SlackRateLimiter(clock);
+
+            const pausedAt = clock.now();
+            limiter.pause('xoxp-a', 'chat.postMessage', 30_000);
+
+            // The time each caller was let through
+            const allowedAt = await Promise.all([
+                limiter.acquire('xoxp-a', 'chat.postMessage').then(() => clock.now()),
+                limiter.acquire('xoxp-a', 'chat.postMessage').then(() => clock.now()),
+            ]);
+            for (const time of allowedAt) {
+                expect(time).toBeGreaterThanOrEqual(pausedAt + 30_000);
+            }
+        });
+
+        it('does not pause other methods on the same token', async () => {
+            const clock = fakeClock();
+            const limiter = new SlackRateLimiter(clock);
+
+            limiter.pause('xoxp-a', 'chat.postMessage', 30_000);
+            expect(await limiter.acquire('xoxp-a', 'users.info')).toBe(0);
+        });
+
+        it('never shortens a pause already in place', async () => {
+            const clock = fakeClock();
+            const limiter = new SlackRateLimiter(clock);
+
+            limiter.pause('xoxp-a', 'users.list', 10_000);
+            limiter.pause('xoxp-a', 'users.list', 1_000);
+            expect(await limiter.acquire('xoxp-a', 'users.list')).toBeGreaterThanOrEqual(10_000);
+        });
+    });
+
+    describe('call stats', () => {
+        it('counts calls into the collector of the run that made them', async () => {
+            const first = createSlackCallStats();
+            const second = createSlackCallStats();
+
+            await Promise.all([
+                countSlackCalls(first, async () => {
+                    await acquireSlackCall('xoxp-shared', 'users.info');
+                    recordRateLimited('xoxp-shared', 'users.lookupByEmail', 0);
+                }),
+                countSlackCalls(second, () => acquireSlackCall('xoxp-shared', 'users.info')),
+            ]);
+
+            expect(first).toMatchObject({ total: 1, byMethod: { 'users.info': 1 }, rateLimited: 1 });
+            expect(second).toMatchObject({ total: 1, byMethod: { 'users.info': 1 }, rateLimited: 0 });
+        });
+
+        it('carries on from counts saved by an earlier slice', () => {
+            const saved = { total: 3, byMethod: { 'users.list': 3 }, rateLimited: 1, waitedMs: 500 };
+            const resumed = createSlackCallStats(saved);
+
+            resumed.byMethod['users.list']++;
+            expect(resumed).toEqual({ total: 3, byMethod: { 'users.list': 4 }, rateLimited: 1, waitedMs: 500 });
+            expect(saved.byMethod['users.list']).toBe(3);
+        });
+    });
+});
@@ -6,6 +6,8 @@
  * that consumes the endpoint to keep them in sync.
  */
 
+import type { AlertMode } from '@/types/database.types';
+
 // ---------------------------------------------------------------------------
 // Generic API response envelope
 // ---------------------------------------------------------------------------
@@ -30,9 +32,21 @@ export type ApiResult<T> = ApiSuccess<T> | ApiError;
 
 export interface OnboardingScanResult {
   totalGuests: number;
+  /** Guests with no recent profile update who aren't online (random sample per tier + extrapolated) */
   inactiveGuests: number;
-  /** Estimated monthly cost of inactive guests in USD */
+  /** Monthly cost of inactive multi-channel guests in USD */
   monthlyWaste: number;
+  /** Measured: guests whose profile was updated within the activity window */
+  profileActiveGuests: number;
+  /** Measured: guests whose presence was checked */
+  presenceSampledGuests: number;
+  /**
+   * True when inactiveGuests / monthlyWaste extrapolate a random presence
+   * sample of each tier (paid, free) to the guests that weren't checked.
+   * False when every number is measured.
+   */
+  isEstimate: boolean;
+  activityWindowDays: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -44,6 +58,67 @@ export interface AuditRunResult {
   audited: number;
   /** Total inactive guests flagged across all workspaces */
   flagged: number;
+  /** Audit jobs still queued or running — resumed by the audit worker */
+  pending: number;
+}
+
+// ---------------------------------------------------------------------------
+// /api/workspace/audit
+// ---------------------------------------------------------------------------
+
+export interface ManualAuditResponse {
+  guestCount: number;
+  /** Inactive guests flagged by this run */
+  flagged: number;
+  exempt: number;
+  /** Estimated monthly cost of inactive guests in USD */
+  estimatedWaste: number;
+}
+
+// ---------------------------------------------------------------------------
+// /api/workspace/audit/preview (also /api/internal/audit?dry_run=true)
+// ---------------------------------------------------------------------------
+
+export interface AuditPreviewGuest {
+  guestId: string;
+  name: string;
+  score: number;
+  /** e.g. "last message Oct 2, 2026"; null when no signal saw activity */
+  lastActivity: string | null;
+  /** 0 for single-channel guests */
+  costPerSeatMonthly: number;
+}
+
+export interface AuditPreviewGraceGuest extends AuditPreviewGuest {
+  /** When the guest can first be flagged */
+  graceEndsAt: string;
+}
+
+export interface AuditPreviewAlert extends AuditPreviewGuest {
+  /** Sponsor-first escalation asks the sponsor; everyone else goes to admins */
+  recipient: 'admins' | 'sponsor';
+}
+
+export interface AuditPreview {
+  guestCount: number;
+  exempt: number;
+  minActiveScore: number;
+  /** Inactive guests the audit would flag */
+  wouldFlag: AuditPreviewGuest[];
+  /** Currently flagged guests the audit would clear as active again (or in their grace period) */
+  wouldClear: AuditPreviewGuest[];
+  /** Inactive guests not flagged because they joined recently */
+  inGrace: AuditPreviewGraceGuest[];
+  /** Empty when the plan doesn't send alerts */
+  wouldAlert: AuditPreviewAlert[];
+  /** Flagged but not alerted: snoozed by an admin */
+  snoozed: number;
+  /** Flagged but not alerted: their sponsor hasn't answered yet */
+  awaitingSponsor: number;
+  alertsEnabled: boolean;
+  alertMode: AlertMode;
+  /** Estimated monthly cost of inactive guests in USD */
+  estimatedWaste: number;
 }
 
 // ---------------------------------------------------------------------------
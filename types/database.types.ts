@@ -10,6 +10,8 @@
  *   - Update types: all fields optional for UPDATE
  */
 
+import type { SlackUser } from '@/types/slack.types';
+
 // ---------------------------------------------------------------------------
 // Enum types (mirror CHECK constraints / domain types in the DB)
 // ---------------------------------------------------------------------------
@@ -28,10 +30,19 @@ export type SubscriptionPlan = 'free' | 'starter' | 'growth' | 'scale';
 export type GuestActionTaken =
   | 'flagged'
   | 'suggested_deactivation_accepted'
-  | 'ignored_by_admin';
+  | 'deactivated'
+  | 'ignored_by_admin'
+  | 'exempted';
 
 export type WorkspacePlanType = 'free' | 'starter' | 'growth' | 'scale';
+export type ActivitySignalId = 'profile' | 'presence' | 'message' | 'event_activity' | 'access_logs';
+export type HistoryChannelType = 'public_channel' | 'private_channel' | 'mpim' | 'im';
+export type ExemptionRuleType = 'user' | 'email_domain';
+export type AlertMode = 'per_guest' | 'digest';
+export type EscalationStatus = 'awaiting_sponsor' | 'kept' | 'escalated';
 export type StripeEventStatus = 'processing' | 'processed' | 'failed';
+export type AuditJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type AuditRunStatus = 'succeeded' | 'partial' | 'skipped' | 'failed';
 
 // ---------------------------------------------------------------------------
 // workspaces
@@ -48,12 +59,33 @@ export interface Workspace {
   /** AES-256-GCM encrypted Slack refresh token, if present */
   refresh_token: string | null;
   token_expires_at: string | null;
+  /** AES-256-GCM encrypted bot token — publishes the App Home tab. NULL for older installs. */
+  bot_access_token: string | null;
   /** Slack user ID of the person who installed the app */
   installed_by: string;
   alert_recipients: string[];
+  alert_mode: AlertMode;
+  /** Ask the guest's sponsor before alerting admins */
+  sponsor_escalation_enabled: boolean;
+  /** Days to wait for the sponsor before escalating to admins */
+  sponsor_escalation_days: number;
   plan_type: WorkspacePlanType;
   supports_user_deactivation: boolean;
   estimated_seat_cost: number;
+  /** User scopes Slack granted at install. NULL for installs that predate tracking. */
+  granted_scopes: string[] | null;
+  /** IANA timezone the audit schedule is expressed in */
+  audit_timezone: string;
+  /** 0 = Sunday … 6 = Saturday — only used on weekly plans. Null = spread default (getDefaultAuditSlot). */
+  audit_day_of_week: number | null;
+  /** Local hour (0–23) scheduled audits start. Null = spread default (getDefaultAuditSlot). */
+  audit_hour: number | null;
+  /** When the scheduler last queued an audit; null = due on the next tick */
+  last_scheduled_audit_at: string | null;
+  /** When the dashboard last started an audit preview; throttles previews apart from manual scans */
+  last_audit_preview_at: string | null;
+  /** When the audit first backfilled guest join dates; guests seen after it get a first-seen date. Null until then. */
+  guest_roster_registered_at: string | null;
   is_active: boolean;
   uninstalled_at: string | null;
   created_at: string;
@@ -67,8 +99,13 @@ export interface WorkspaceInsert {
   access_token: string;
   refresh_token?: string | null;
   token_expires_at?: string | null;
+  bot_access_token?: string | null;
   installed_by: string;
+  granted_scopes?: string[] | null;
   alert_recipients?: string[];
+  alert_mode?: AlertMode;
+  sponsor_escalation_enabled?: boolean;
+  sponsor_escalation_days?: number;
   plan_type?: WorkspacePlanType;
   supports_user_deactivation: boolean;
   estimated_seat_cost?: number;
@@ -104,16 +141,73 @@ export interface SubscriptionUpsert {
 // guest_audits
 // ---------------------------------------------------------------------------
 
+/**
+ * What each activity signal found during the last audit
+ * (guest_audits.signal_results). `checked` is false when the signal is
+ * disabled in the policy or was skipped because scoring short-circuited.
+ */
+export interface GuestSignalResults {
+  profile: {
+    checked: boolean;
+    matched: boolean;
+    /** users.list `updated` (Unix seconds) */
+    updatedAt: number | null;
+  };
+  presence: {
+    checked: boolean;
+    matched: boolean;
+    presence: 'active' | 'away' | null;
+  };
+  message: {
+    checked: boolean;
+    matched: boolean;
+    /** Latest message found, even when older than the activity window (Unix seconds) */
+    ts: number | null;
+    channelId: string | null;
+    channelName: string | null;
+    /** Set when some of the guest's conversations couldn't be read; absent in older results */
+    coverageNote?: string | null;
+  };
+  /** Absent in results recorded before event tracking existed */
+  event?: {
+    checked: boolean;
+    matched: boolean;
+    /** Newest activity seen via Slack events (Unix seconds) */
+    lastActivityAt: number | null;
+    activityType: GuestActivityType | null;
+  };
+  /** Absent in results recorded before the access-log signal existed */
+  login?: {
+    /** False when access logs were unavailable (free Slack plan, missing admin scope) */
+    checked: boolean;
+    matched: boolean;
+    /** Most recent login (Unix seconds) */
+    lastLoginAt: number | null;
+  };
+}
+
 export interface GuestAudit {
   id: string;
   workspace_id: string;
   slack_user_id: string;
+  /** Best-known last activity: newest of profile update, message and active presence */
   last_seen_at: string | null;
   last_seen_source: string | null;
+  /** Score from the last audit (compare with the policy's min_active_score) */
+  activity_score: number | null;
+  signal_results: GuestSignalResults | null;
   estimated_cost_monthly: number;
   estimated_cost_yearly: number;
   is_flagged: boolean;
   action_taken: GuestActionTaken | null;
+  /** Exemption rule that matched this guest (action_taken = 'exempted') */
+  exemption_id: string | null;
+  /** Set when an admin snoozed alerts for this guest */
+  snoozed_at: string | null;
+  /** Snooze expiry; null while snoozed_at is set means "forever" */
+  snoozed_until: string | null;
+  /** Slack user ID of the admin who snoozed the guest */
+  snoozed_by: string | null;
   created_at: string;
   /** Auto-updated by trigger on every upsert — used for data retention purge */
   updated_at: string;
@@ -124,10 +218,16 @@ export interface GuestAuditUpsert {
   slack_user_id: string;
   last_seen_at?: string | null;
   last_seen_source?: string | null;
+  activity_score?: number | null;
+  signal_results?: GuestSignalResults | null;
   estimated_cost_monthly: number;
   estimated_cost_yearly: number;
   is_flagged: boolean;
   action_taken?: GuestActionTaken | null;
+  exemption_id?: string | null;
+  snoozed_at?: string | null;
+  snoozed_until?: string | null;
+  snoozed_by?: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -139,6 +239,10 @@ export interface GuestSponsor {
   guest_user_id: string;
   sponsor_user_id: string;
   captured_from_event: string | null;
+  /** Set when the sponsor was deactivated; cleared when an admin reassigns the guest */
+  orphaned_at: string | null;
+  /** Last orphan alert that listed this guest; cleared with orphaned_at */
+  orphan_alerted_at: string | null;
   created_at: string;
 }
 
@@ -147,18 +251,149 @@ export interface GuestSponsorUpsert {
   guest_user_id: string;
   sponsor_user_id: string;
   captured_from_event?: string | null;
+  orphaned_at?: string | null;
+  orphan_alerted_at?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// guest_exemptions
+// ---------------------------------------------------------------------------
+
+export interface GuestExemption {
+  id: string;
+  workspace_id: string;
+  rule_type: ExemptionRuleType;
+  /** Slack user ID, or lowercase email domain without the @ */
+  value: string;
+  /** null = never expires */
+  expires_at: string | null;
+  reason: string | null;
+  /** Slack user ID of the creator; null when created from the dashboard */
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface GuestExemptionInsert {
+  workspace_id: string;
+  rule_type: ExemptionRuleType;
+  value: string;
+  expires_at?: string | null;
+  reason?: string | null;
+  created_by?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// guest_escalations
+// ---------------------------------------------------------------------------
+
+export interface GuestEscalation {
+  id: string;
+  workspace_id: string;
+  guest_user_id: string;
+  sponsor_user_id: string;
+  status: EscalationStatus;
+  sponsor_asked_at: string;
+  /** Admins are alerted once this passes while still awaiting_sponsor */
+  escalate_after: string;
+  responded_at: string | null;
+  escalated_at: string | null;
+  created_at: string;
+}
+
+export interface GuestEscalationUpsert {
+  workspace_id: string;
+  guest_user_id: string;
+  sponsor_user_id: string;
+  status: EscalationStatus;
+  sponsor_asked_at: string;
+  escalate_after: string;
+  responded_at?: string | null;
+  escalated_at?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// audit_policies
+// ---------------------------------------------------------------------------
+
+export interface AuditPolicy {
+  workspace_id: string;
+  activity_window_days: number;
+  min_active_score: number;
+  /** Weight per signal — keys missing from older rows fall back to AUDIT defaults */
+  signal_weights: Partial<Record<ActivitySignalId, number>>;
+  enabled_signals: ActivitySignalId[];
+  /** Conversation types the message signal reads */
+  history_channel_types: HistoryChannelType[];
+  /** Whether the message signal reads Slack Connect channels */
+  history_include_shared: boolean;
+  /** Days after joining before an inactive guest is flagged; 0 = no grace period */
+  grace_period_days: number;
+  /** Longest allowed multi-channel guest account lifetime from now; null = check off */
+  max_guest_expiration_days: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AuditPolicyUpsert {
+  workspace_id: string;
+  activity_window_days: number;
+  min_active_score: number;
+  signal_weights: Partial<Record<ActivitySignalId, number>>;
+  enabled_signals: ActivitySignalId[];
+  history_channel_types: HistoryChannelType[];
+  history_include_shared: boolean;
+  grace_period_days: number;
+  max_guest_expiration_days: number | null;
+  updated_at?: string;
 }
 
 // ---------------------------------------------------------------------------
 // audit_runs
 // ---------------------------------------------------------------------------
 
+/** Slack API usage of one run — the shape of SlackCallStats */
+export interface AuditRunSlackCalls {
+  total: number;
+  byMethod: Record<string, number>;
+  rateLimited: number;
+  waitedMs: number;
+}
+
+/** A run's diff against the previous completed run — Slack user IDs per change */
+export interface AuditRunChanges {
+  previousRunId: string;
+  previousRunAt: string;
+  /** Inactive now, active or exempt in the previous run */
+  newlyInactive: string[];
+  /** Active now, inactive in the previous run */
+  reactivated: string[];
+  /** In the previous run but no longer a guest — deleted, deactivated or promoted */
+  removed: string[];
+  /** Guests the previous run didn't see */
+  invited: string[];
+}
+
 export interface AuditRun {
   id: string;
   workspace_id: string;
   workspace_guest_count: number;
   workspace_inactive_count: number;
+  /** Guests skipped because they matched an exemption rule */
+  workspace_exempt_count: number;
   workspace_estimated_waste: number;
+  /** Only succeeded and partial runs have counts and guest observations */
+  status: AuditRunStatus;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_ms: number | null;
+  /** Skip reason, failure, or what went wrong in a partial run */
+  error_message: string | null;
+  manual: boolean;
+  slack_calls: AuditRunSlackCalls | null;
+  dms_sent: number;
+  dms_failed: number;
+  /** Null for the first run and for skipped / failed runs */
+  changes: AuditRunChanges | null;
   created_at: string;
 }
 
@@ -166,7 +401,166 @@ export interface AuditRunInsert {
   workspace_id: string;
   workspace_guest_count: number;
   workspace_inactive_count: number;
+  workspace_exempt_count?: number;
   workspace_estimated_waste: number;
+  status: AuditRunStatus;
+  started_at: string;
+  completed_at: string;
+  duration_ms: number;
+  error_message: string | null;
+  manual: boolean;
+  slack_calls: AuditRunSlackCalls | null;
+  dms_sent: number;
+  dms_failed: number;
+  changes?: AuditRunChanges | null;
+}
+
+// ---------------------------------------------------------------------------
+// audit_jobs
+// ---------------------------------------------------------------------------
+
+/** One resumable audit of a workspace, worked through in time-boxed slices */
+export interface AuditJob {
+  id: string;
+  workspace_id: string;
+  status: AuditJobStatus;
+  /** Auditable guests in the snapshot; null until the first slice lists them */
+  guest_count: number | null;
+  /** Position of the next guest to score */
+  cursor: number;
+  /** Queued by an admin (slash command) rather than the scheduler */
+  manual: boolean;
+  /** Slack calls made by earlier slices; null until the first checkpoint */
+  slack_calls: AuditRunSlackCalls | null;
+  /** Workspace-wide signal data (e.g. login history) by signal ID; null until the first slice loads it */
+  signal_data: Record<string, unknown> | null;
+  attempts: number;
+  last_error: string | null;
+  run_after: string;
+  locked_until: string | null;
+  /** WorkspaceAuditSummary once completed */
+  summary: Record<string, unknown> | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A guest in a job's snapshot — scored (position set) or exempt */
+export interface AuditJobGuest {
+  job_id: string;
+  slack_user_id: string;
+  /** Null for exempt guests */
+  position: number | null;
+  guest: SlackUser;
+  exemption_id: string | null;
+  exemption_rule_type: ExemptionRuleType | null;
+  /** Null until scored */
+  score: number | null;
+  source: string | null;
+  signal_results: GuestSignalResults | null;
+}
+
+// ---------------------------------------------------------------------------
+// guest_activity
+// ---------------------------------------------------------------------------
+
+export type GuestActivityType = 'message' | 'reaction' | 'profile_update';
+
+/** Newest activity seen for a guest through the Slack Events API */
+export interface GuestActivity {
+  workspace_id: string;
+  slack_user_id: string;
+  /** Null until the first event arrives for a guest seeded by the audit */
+  last_activity_at: string | null;
+  last_activity_type: GuestActivityType | null;
+  /** Profile fields as of the guest's last user_change / team_join event */
+  profile_snapshot: GuestProfileSnapshot | null;
+  updated_at: string;
+}
+
+/** The profile fields a guest sets themselves — compared across user_change events */
+export interface GuestProfileSnapshot {
+  display_name: string;
+  real_name: string;
+  title: string;
+  avatar_hash: string;
+  status_text: string;
+  status_emoji: string;
+}
+
+// ---------------------------------------------------------------------------
+// guest_joins
+// ---------------------------------------------------------------------------
+
+/** team_join event, or the audit run that first listed the guest */
+export type GuestJoinSource = 'team_join' | 'audit';
+
+export interface GuestJoin {
+  workspace_id: string;
+  slack_user_id: string;
+  /** Null for guests already present when the audit first registered the workspace */
+  joined_at: string | null;
+  source: GuestJoinSource;
+  created_at: string;
+}
+
+export interface GuestJoinInsert {
+  workspace_id: string;
+  slack_user_id: string;
+  joined_at: string | null;
+  source: GuestJoinSource;
+}
+
+// ---------------------------------------------------------------------------
+// guest_expirations
+// ---------------------------------------------------------------------------
+
+/** A listed guest's account expiration, as of the latest completed audit */
+export interface GuestExpiration {
+  workspace_id: string;
+  slack_user_id: string;
+  /** Null when no expiration is set */
+  expires_at: string | null;
+  multi_channel: boolean;
+  exempt: boolean;
+  checked_at: string;
+  /** Last expiration alert that listed this guest; cleared once the guest passes the policy */
+  alerted_at: string | null;
+}
+
+/** What each audit writes — alerted_at is left as it is */
+export type GuestExpirationUpsert = Omit<GuestExpiration, 'alerted_at'>;
+
+// ---------------------------------------------------------------------------
+// guest_observations
+// ---------------------------------------------------------------------------
+
+/** 'grace' — scored inactive, but joined too recently to be flagged */
+export type GuestObservationStatus = 'active' | 'inactive' | 'exempt' | 'grace';
+
+/** Append-only: one row per guest per audit run */
+export interface GuestObservation {
+  id: string;
+  workspace_id: string;
+  audit_run_id: string;
+  slack_user_id: string;
+  status: GuestObservationStatus;
+  /** Null for exempt guests — they aren't scored */
+  activity_score: number | null;
+  estimated_cost_monthly: number;
+  last_seen_at: string | null;
+  observed_at: string;
+}
+
+export interface GuestObservationInsert {
+  workspace_id: string;
+  audit_run_id: string;
+  slack_user_id: string;
+  status: GuestObservationStatus;
+  activity_score: number | null;
+  estimated_cost_monthly: number;
+  last_seen_at: string | null;
 }
 
 // ---------------------------------------------------------------------------
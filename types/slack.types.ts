@@ -17,6 +17,11 @@ export interface SlackUserProfile {
   real_name: string;
   email?: string;
   image_72?: string;
+  title?: string;
+  /** Changes whenever the user uploads a new avatar */
+  avatar_hash?: string;
+  status_text?: string;
+  status_emoji?: string;
 }
 
 export interface SlackUser {
@@ -31,6 +36,8 @@ export interface SlackUser {
   is_ultra_restricted: boolean;
   /** Unix timestamp of last profile update */
   updated: number;
+  /** Unix timestamp the guest account expires at — only present when an admin set one */
+  expiration_ts?: number;
   profile: SlackUserProfile;
 }
 
@@ -56,6 +63,14 @@ export interface UsersListResponse extends SlackBaseResponse {
   };
 }
 
+// ---------------------------------------------------------------------------
+// users.info
+// ---------------------------------------------------------------------------
+
+export interface UsersInfoResponse extends SlackBaseResponse {
+  user?: SlackUser;
+}
+
 // ---------------------------------------------------------------------------
 // users.getPresence
 // ---------------------------------------------------------------------------
@@ -64,6 +79,30 @@ export interface UserPresenceResponse extends SlackBaseResponse {
   presence: 'active' | 'away';
 }
 
+// ---------------------------------------------------------------------------
+// team.accessLogs
+// Requires scope: admin — paid Slack plans only (free teams get paid_only)
+// ---------------------------------------------------------------------------
+
+export interface SlackAccessLogEntry {
+  user_id: string;
+  username?: string;
+  /** First and last login from this IP / user agent combination (Unix seconds) */
+  date_first: number;
+  date_last: number;
+  count?: number;
+}
+
+export interface TeamAccessLogsResponse extends SlackBaseResponse {
+  logins?: SlackAccessLogEntry[];
+  paging?: {
+    count: number;
+    total: number;
+    page: number;
+    pages: number;
+  };
+}
+
 // ---------------------------------------------------------------------------
 // conversations.open
 // ---------------------------------------------------------------------------
@@ -93,6 +132,14 @@ export interface SlackTextObject {
   emoji?: boolean;
 }
 
+export interface SlackConfirmObject {
+  title: SlackTextObject;
+  text: SlackTextObject;
+  confirm: SlackTextObject;
+  deny: SlackTextObject;
+  style?: 'primary' | 'danger';
+}
+
 export interface SlackButtonElement {
   type: 'button';
   text: SlackTextObject;
@@ -100,17 +147,38 @@ export interface SlackButtonElement {
   action_id: string;
   style?: 'primary' | 'danger';
   url?: string;
+  confirm?: SlackConfirmObject;
+}
+
+export interface SlackOptionObject {
+  text: SlackTextObject;
+  value: string;
+}
+
+export interface SlackStaticSelectElement {
+  type: 'static_select';
+  action_id: string;
+  placeholder: SlackTextObject;
+  options: SlackOptionObject[];
+}
+
+export interface SlackUsersSelectElement {
+  type: 'users_select';
+  action_id: string;
+  placeholder: SlackTextObject;
 }
 
 export interface SlackSectionBlock {
   type: 'section';
+  block_id?: string;
   text: SlackTextObject;
-  accessory?: SlackButtonElement;
+  accessory?: SlackButtonElement | SlackUsersSelectElement;
 }
 
 export interface SlackActionsBlock {
   type: 'actions';
-  elements: SlackButtonElement[];
+  block_id?: string;
+  elements: Array<SlackButtonElement | SlackStaticSelectElement>;
 }
 
 export interface SlackDividerBlock {
@@ -142,7 +210,12 @@ export type SlackBlock =
 export interface SlackBlockActionItem {
   action_id: string;
   block_id?: string;
-  value: string;
+  /** Set for buttons */
+  value?: string;
+  /** Set for static_select menus */
+  selected_option?: SlackOptionObject;
+  /** Set for users_select menus */
+  selected_user?: string;
   type: string;
 }
 
@@ -159,10 +232,38 @@ export interface SlackBlockActionsPayload {
   };
   api_app_id?: string;
   token?: string;
-  response_url: string;
+  /** Absent when the action comes from a view (e.g. the App Home tab) */
+  response_url?: string;
+  /** Set when the action comes from a view rather than a message */
+  view?: {
+    id: string;
+    type: 'home' | 'modal';
+  };
   actions: SlackBlockActionItem[];
 }
 
+// ---------------------------------------------------------------------------
+// Slash command payload (form-encoded)
+// Received by /api/slack/commands
+// ---------------------------------------------------------------------------
+
+export interface SlackSlashCommandPayload {
+  command: string;
+  /** Everything after the command, e.g. "guest <@U123|jane>" */
+  text: string;
+  team_id: string;
+  user_id: string;
+  channel_id: string;
+  /** Valid for 30 minutes, up to 5 follow-up messages */
+  response_url: string;
+}
+
+export interface SlackCommandResponse {
+  response_type: 'ephemeral' | 'in_channel';
+  text: string;
+  blocks?: SlackBlock[];
+}
+
 // ---------------------------------------------------------------------------
 // Slack Event API Envelope
 // Received by /api/slack/events
@@ -176,7 +277,11 @@ export interface SlackUrlVerificationPayload {
 
 export interface SlackEventPayload {
   type: string;
-  user?: string;
+  /** A user ID for most events; the full user object for user_change / team_join */
+  user?: string | SlackUser;
+  subtype?: string;
+  /** Event time as a Slack timestamp ("1700000000.000100") */
+  event_ts?: string;
   invited_user?: string | { id: string };
   team?: string;
   [key: string]: unknown;
@@ -198,12 +303,18 @@ export type SlackWebhookPayload =
 
 // ---------------------------------------------------------------------------
 // users.conversations
-// Requires scopes: channels:read (public), groups:read (private)
+// Requires scopes: channels:read (public), groups:read (private),
+// mpim:read (group DMs), im:read (DMs)
 // ---------------------------------------------------------------------------
 
 export interface SlackChannel {
   id: string;
   name?: string;
+  is_private?: boolean;
+  is_im?: boolean;
+  is_mpim?: boolean;
+  /** Slack Connect channel shared with another organization */
+  is_ext_shared?: boolean;
 }
 
 export interface UserConversationsResponse extends SlackBaseResponse {
@@ -233,6 +344,18 @@ export interface ConversationsHistoryResponse extends SlackBaseResponse {
   has_more?: boolean;
 }
 
+// ---------------------------------------------------------------------------
+// SCIM API (Enterprise Grid)
+// DELETE /Users/{id} deactivates the user; success returns 204 No Content.
+// ---------------------------------------------------------------------------
+
+export interface ScimErrorResponse {
+  Errors?: {
+    description: string;
+    code: number;
+  };
+}
+
 // ---------------------------------------------------------------------------
 // OAuth
 // ---------------------------------------------------------------------------
@@ -256,7 +379,9 @@ export interface SlackOAuthV2Response {
     expires_in?: number;
     token_type: string;
   };
+  /** Bot scopes, token and user — present when bot scopes were requested */
   scope?: string;
   token_type?: string;
   access_token?: string;
+  bot_user_id?: string;
 }